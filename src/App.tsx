@@ -1,23 +1,87 @@
 // src/App.tsx
-import { useState, useCallback, useRef, useEffect } from 'react';
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 
 // ============ IMPORTS ============
-import { normalize } from './utils/normalize';
+import { normalize, findNonCanonicalWords, isUnicodeFixEnabled, setUnicodeFixEnabled } from './utils/normalize';
 import { 
-  analyzeText, 
+  analyzeWithFallback, 
+  AnalysisCancelledError,
+  preflightAnalysis,
   getRateLimitInfo, 
-  incrementRequestCount,
-  RateLimitInfo,
-  getSafeLimit
+  getKeyRateLimitInfo,
+  RateLimitInfo
 } from './utils/api';
-import { UnifiedResponse } from './utils/toonParser';
+import { ToonSection, SECTION_CATEGORY } from './utils/toonParser';
+import type { AnalysisResult, ContentAnalysis, Issue, IssueCategory, StyleMixing } from './types';
+import { dedupeIssues, emptyResponse, issuesOf } from './utils/issues';
+import { getProvider, resolveBaseUrl } from './utils/providers';
+import { MAX_RETRIES } from './utils/retry';
+import { clearAnalysisCache } from './utils/cache';
+import { SchemaDiagnostic } from './utils/schema';
+import type { ToonParseWarning } from './utils/toonGrammar';
+import {
+  getAvailableModels,
+  getModelName,
+  discoverGeminiModels,
+  saveModelDiscovery,
+  loadModelDiscovery,
+  clearModelDiscovery,
+  ModelDiscovery
+} from './utils/models';
+import { loadUsageLog, summarizeUsage, clearUsageLog } from './utils/usageLog';
+import {
+  createLogger,
+  getLogLevel,
+  setLogLevel,
+  getLogEntries,
+  clearLogEntries,
+  LOG_LEVELS,
+  LogLevel
+} from './utils/logger';
+import { DebugRun, buildDebugBundle } from './utils/debugTrace';
+import {
+  ApiKeyEntry,
+  KeyRotation,
+  loadApiKeys,
+  saveApiKeys,
+  loadProviderApiKey,
+  saveProviderApiKey,
+  areApiKeysLocked,
+  encryptApiKeys,
+  decryptApiKeys,
+  changeKeyPassphrase,
+  getKeyRotation,
+  setKeyRotation,
+  createKeyId,
+  maskKey
+} from './utils/apiKeys';
+import { isVaultSupported, isVaultEnabled, unlockVault, lockVault } from './utils/keyVault';
+import { isRoamingAvailable, isRoamingEnabled, setRoamingEnabled, pushRoamingSettings } from './utils/roaming';
 import {
   getTextFromWord,
-  highlightMultipleInWord,
-  highlightInWord,
-  replaceInWord,
+  highlightIssuesInWord,
+  replaceIssueInWord,
+  replaceIssuesInWord,
+  fixEncodingInWord,
   clearHighlights
 } from './utils/word';
+import { shiftAnchor, anchorsOverlap } from './utils/anchoring';
+import {
+  ConfidenceThresholds,
+  loadConfidenceThresholds,
+  saveConfidenceThresholds,
+  meetsThreshold
+} from './utils/confidence';
+import { isVerifyEnabled, setVerifyEnabled } from './utils/verify';
+import {
+  ConsensusSettings,
+  CONSENSUS_SAMPLE_OPTIONS,
+  loadConsensusSettings,
+  saveConsensusSettings,
+  majorityOf,
+  isConsensusShort
+} from './utils/consensus';
+import { TargetStyle, detectStyleMixing, mergeStyleMixing, styleConversions } from './utils/styleMixing';
 
 import {
   DOC_TYPE_CONFIG,
@@ -25,163 +89,148 @@ import {
   getToneName,
   DocType,
   StyleType,
-  MODEL_OPTIONS,
+  ProviderId,
+  OutputMode,
+  ModelOption,
+  PROVIDER_OPTIONS,
+  OUTPUT_MODE_OPTIONS,
   TONE_OPTIONS,
   STYLE_OPTIONS
 } from './prompts/core';
 
 // ============ TYPE DEFINITIONS ============
-interface Correction {
-  wrong: string;
-  suggestions: string[];
-  position?: number;
-}
-
-interface ToneSuggestion {
-  current: string;
-  suggestion: string;
-  reason: string;
-  position?: number;
+// বাতিল করলে ফিরিয়ে আনার জন্য বর্তমান ফলাফল
+interface ResultSnapshot {
+  issues: Issue[];
+  languageStyleMixing: StyleMixing | null;
+  contentAnalysis: ContentAnalysis | null;
+  stats: { totalWords: number; errorCount: number; accuracy: number };
+  resultModel: string | null;
+  schemaDiagnostics: SchemaDiagnostic[] | null;
+  parseWarnings: ToonParseWarning[] | null;
+  resultIncomplete: boolean;
+  preflightWarnings: string[];
+  textOffset: number;
 }
 
-interface StyleSuggestion {
-  current: string;
-  suggestion: string;
-  type: string;
-  position?: number;
-}
-
-interface StyleMixingCorrection {
-  current: string;
-  suggestion: string;
-  type: string;
-  position?: number;
-}
-
-interface StyleMixing {
-  detected: boolean;
-  recommendedStyle?: string;
-  reason?: string;
-  corrections?: StyleMixingCorrection[];
-}
-
-interface PunctuationIssue {
-  issue: string;
-  currentSentence: string;
-  correctedSentence: string;
-  explanation: string;
-  position?: number;
-}
-
-interface EuphonyImprovement {
-  current: string;
-  suggestions: string[];
-  reason: string;
-  position?: number;
-}
-
-interface ContentAnalysis {
-  contentType: string;
-  description?: string;
-  missingElements?: string[];
-  suggestions?: string[];
-}
-
-type SectionKey = 'spelling' | 'tone' | 'style' | 'mixing' | 'punctuation' | 'euphony' | 'content';
-type ViewFilter = 'all' | 'spelling' | 'punctuation';
-type ModalType = 'none' | 'settings' | 'instructions' | 'tone' | 'style' | 'doctype' | 'mainMenu';
-
-// ============ DEDUPLICATION HELPERS ============
-/**
- * ডুপ্লিকেট বানান ভুল রিমুভ করা
- */
-const deduplicateCorrections = (items: Correction[]): Correction[] => {
-  const seen = new Map<string, Correction>();
-  
-  for (const item of items) {
-    const key = normalize(item.wrong);
-    if (!seen.has(key)) {
-      seen.set(key, item);
-    }
-  }
-  
-  return Array.from(seen.values());
+type SectionKey = 'spelling' | 'grammar' | 'tone' | 'style' | 'mixing' | 'punctuation' | 'euphony' | 'content';
+type ViewFilter = 'all' | 'spelling' | 'grammar' | 'punctuation';
+type ModalType = 'none' | 'settings' | 'instructions' | 'tone' | 'style' | 'doctype' | 'mainMenu' | 'usage' | 'unlock' | 'developer';
+
+const log = createLogger('app');
+
+// ডেভেলপার মোড - শিরোনামে পরপর এতবার ক্লিক করলে চালু/বন্ধ
+const DEV_MODE_STORAGE = 'bhasha_mitra_dev_mode';
+const DEV_MODE_CLICKS = 5;
+
+// পাসফ্রেজের ন্যূনতম দৈর্ঘ্য
+const MIN_PASSPHRASE_LENGTH = 8;
+
+// Streaming চলাকালীন loading টেক্সটে দেখানোর জন্য
+const SECTION_LABELS: Record<ToonSection, string> = {
+  SPELLING: 'বানান',
+  GRAMMAR: 'ব্যাকরণ',
+  MIXING: 'ভাষারীতি মিশ্রণ',
+  PUNCTUATION: 'বিরাম চিহ্ন',
+  EUPHONY: 'শ্রুতিমধুরতা',
+  STYLE: 'ভাষারীতি',
+  TONE: 'টোন',
+  CONTENT: 'কনটেন্ট'
 };
 
-/**
- * ডুপ্লিকেট টোন সাজেশন রিমুভ করা
- */
-const deduplicateToneSuggestions = (items: ToneSuggestion[]): ToneSuggestion[] => {
-  const seen = new Map<string, ToneSuggestion>();
-  
-  for (const item of items) {
-    const key = normalize(item.current);
-    if (!seen.has(key)) {
-      seen.set(key, item);
-    }
-  }
-  
-  return Array.from(seen.values());
-};
+// যেসব section ডকুমেন্টে হাইলাইট হয়
+const HIGHLIGHT_SECTIONS: ToonSection[] = ['SPELLING', 'GRAMMAR', 'TONE', 'STYLE', 'MIXING'];
 
-/**
- * ডুপ্লিকেট স্টাইল সাজেশন রিমুভ করা
- */
-const deduplicateStyleSuggestions = (items: StyleSuggestion[]): StyleSuggestion[] => {
-  const seen = new Map<string, StyleSuggestion>();
-  
-  for (const item of items) {
-    const key = normalize(item.current);
-    if (!seen.has(key)) {
-      seen.set(key, item);
-    }
-  }
-  
-  return Array.from(seen.values());
-};
+// সেটিংসে আস্থা সীমার ক্রম
+const CONFIDENCE_SECTIONS: ToonSection[] = ['SPELLING', 'GRAMMAR', 'PUNCTUATION', 'EUPHONY', 'MIXING', 'STYLE', 'TONE'];
 
-/**
- * ডুপ্লিকেট ইউফোনি সাজেশন রিমুভ করা
- */
-const deduplicateEuphony = (items: EuphonyImprovement[]): EuphonyImprovement[] => {
-  const seen = new Map<string, EuphonyImprovement>();
-  
-  for (const item of items) {
-    const key = normalize(item.current);
-    if (!seen.has(key)) {
-      seen.set(key, item);
-    }
+const sectionCategories = (sections: ToonSection[]): IssueCategory[] =>
+  sections.map(section => SECTION_CATEGORY[section]).filter((c): c is IssueCategory => c !== null);
+
+// Word taskpane-এর পুরনো webview-এ clipboard API নাও থাকতে পারে
+const copyText = async (text: string): Promise<void> => {
+  if (navigator.clipboard?.writeText) {
+    await navigator.clipboard.writeText(text);
+    return;
   }
-  
-  return Array.from(seen.values());
+  const textarea = document.createElement('textarea');
+  textarea.value = text;
+  textarea.style.position = 'fixed';
+  textarea.style.opacity = '0';
+  document.body.appendChild(textarea);
+  textarea.select();
+  const copied = document.execCommand('copy');
+  document.body.removeChild(textarea);
+  if (!copied) throw new Error('কপি করা যায়নি');
 };
 
 /**
- * ডুপ্লিকেট মিক্সিং কারেকশন রিমুভ করা
+ * একটি প্রতিস্থাপনের পর বাকি সাজেশন
+ * প্রতিস্থাপিত অংশের উপর পড়া সাজেশন বাদ, পরেরগুলোর span নতুন দৈর্ঘ্য অনুযায়ী সরে যায়
  */
-const deduplicateMixingCorrections = (items: StyleMixingCorrection[]): StyleMixingCorrection[] => {
-  const seen = new Map<string, StyleMixingCorrection>();
-  
-  for (const item of items) {
-    const key = normalize(item.current);
-    if (!seen.has(key)) {
-      seen.set(key, item);
-    }
-  }
-  
-  return Array.from(seen.values());
+const afterReplacement = (items: Issue[], replaced: Issue, replacement: string): Issue[] => {
+  const target = normalize(replaced.original.trim());
+  const delta = replacement.length - (replaced.span.end - replaced.span.start);
+  return items
+    .filter(item => !anchorsOverlap(item.span, replaced.span))
+    .map(item => ({
+      ...item,
+      span: shiftAnchor(item.span, replaced.span, normalize(item.original) === target, delta)!
+    }));
 };
 
 // ============ MAIN COMPONENT ============
 function App() {
   // Settings State
-  const [apiKey, setApiKey] = useState(localStorage.getItem('gemini_api_key') || '');
+  const [providerId, setProviderId] = useState<ProviderId>(
+    (localStorage.getItem('llm_provider') as ProviderId) || 'gemini'
+  );
+  const [apiKey, setApiKey] = useState(
+    () => loadProviderApiKey(providerId)
+  );
+  // Gemini: একাধিক key (rotation ও প্রতিটির আলাদা কোটা)
+  const [apiKeys, setApiKeys] = useState<ApiKeyEntry[]>(loadApiKeys);
+  const [keyRotation, setKeyRotationState] = useState<KeyRotation>(getKeyRotation);
+  // Key এনক্রিপশন - প্রতি সেশনে একবার পাসফ্রেজ দিয়ে খুলতে হয়
+  const [vaultEnabled, setVaultEnabled] = useState(isVaultEnabled);
+  const [keysLocked, setKeysLocked] = useState(areApiKeysLocked);
+  const [passphrase, setPassphrase] = useState('');
+  const [passphraseConfirm, setPassphraseConfirm] = useState('');
+  const [vaultBusy, setVaultBusy] = useState(false);
+  const [roamingEnabled, setRoamingEnabledState] = useState(isRoamingEnabled);
   const [selectedModel, setSelectedModel] = useState(
     localStorage.getItem('gemini_model') || 'gemini-2.5-flash'
   );
+  const [providerBaseUrl, setProviderBaseUrl] = useState(
+    () => localStorage.getItem(`llm_base_url_${providerId}`) || ''
+  );
+  const [customModel, setCustomModel] = useState(
+    () => localStorage.getItem(`llm_model_${providerId}`) || ''
+  );
+  const [fallbackEnabled, setFallbackEnabled] = useState(
+    localStorage.getItem('gemini_fallback_enabled') === 'true'
+  );
+  // Key যাচাই করে পাওয়া মডেল তালিকা (না থাকলে জানা মডেলগুলো)
+  const [modelDiscovery, setModelDiscovery] = useState<ModelDiscovery | null>(loadModelDiscovery);
+  const [verifyingKeyId, setVerifyingKeyId] = useState<string | null>(null);
+  const [fallbackOrder, setFallbackOrder] = useState<string[]>(() => {
+    try {
+      const saved = JSON.parse(localStorage.getItem('gemini_fallback_order') || '[]');
+      return Array.isArray(saved) ? saved : [];
+    } catch {
+      return [];
+    }
+  });
+  const [outputMode, setOutputMode] = useState<OutputMode>(
+    localStorage.getItem('llm_output_mode') === 'json' ? 'json' : 'toon'
+  );
   const [docType, setDocType] = useState<DocType>(
     (localStorage.getItem('doc_type') as DocType) || 'generic'
   );
+  const [confidenceThresholds, setConfidenceThresholds] = useState<ConfidenceThresholds>(loadConfidenceThresholds);
+  const [verifyEnabled, setVerifyEnabledState] = useState(isVerifyEnabled);
+  const [consensus, setConsensus] = useState<ConsensusSettings>(loadConsensusSettings);
+  const [unicodeFixEnabled, setUnicodeFixEnabledState] = useState(isUnicodeFixEnabled);
 
   // Rate Limit State
   const [rateLimitInfo, setRateLimitInfo] = useState<RateLimitInfo | null>(null);
@@ -189,12 +238,14 @@ function App() {
   // UI State
   const [isLoading, setIsLoading] = useState(false);
   const [loadingText, setLoadingText] = useState('');
+  const [chunkProgress, setChunkProgress] = useState<{ done: number; total: number } | null>(null);
   const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
-  const [activeModal, setActiveModal] = useState<ModalType>('none');
+  const [activeModal, setActiveModal] = useState<ModalType>(() => (areApiKeysLocked() ? 'unlock' : 'none'));
 
   const [viewFilter, setViewFilter] = useState<ViewFilter>('all');
   const [collapsedSections, setCollapsedSections] = useState<Record<SectionKey, boolean>>({
     spelling: false,
+    grammar: false,
     tone: false,
     style: false,
     mixing: false,
@@ -202,25 +253,109 @@ function App() {
     euphony: false,
     content: false
   });
+  // আস্থা সীমার নিচের সাজেশন দেখানো হচ্ছে কিনা (বিভাগ অনুযায়ী)
+  const [expandedLowConfidence, setExpandedLowConfidence] = useState<Partial<Record<IssueCategory, boolean>>>({});
 
   // Selection State
   const [selectedTone, setSelectedTone] = useState('');
   const [selectedStyle, setSelectedStyle] = useState<StyleType>('none');
 
   // Data State
-  const [corrections, setCorrections] = useState<Correction[]>([]);
-  const [toneSuggestions, setToneSuggestions] = useState<ToneSuggestion[]>([]);
-  const [styleSuggestions, setStyleSuggestions] = useState<StyleSuggestion[]>([]);
+  // প্রতিটি সাজেশন একটি Issue - বাদ দেওয়া ও প্রতিস্থাপন id ধরে ঠিক একটিতে
+  const [issues, setIssues] = useState<Issue[]>([]);
   const [languageStyleMixing, setLanguageStyleMixing] = useState<StyleMixing | null>(null);
-  const [punctuationIssues, setPunctuationIssues] = useState<PunctuationIssue[]>([]);
-  const [euphonyImprovements, setEuphonyImprovements] = useState<EuphonyImprovement[]>([]);
   const [contentAnalysis, setContentAnalysis] = useState<ContentAnalysis | null>(null);
 
   const [stats, setStats] = useState({ totalWords: 0, errorCount: 0, accuracy: 100 });
+  // যে মডেল আসলে সাজেশনগুলো দিয়েছে (fallback হলে নির্বাচিত মডেল থেকে আলাদা)
+  const [resultModel, setResultModel] = useState<string | null>(null);
+  // JSON মোডে schema যাচাইয়ে বাদ পড়া অংশ (TOON মোডে null)
+  const [schemaDiagnostics, setSchemaDiagnostics] = useState<SchemaDiagnostic[] | null>(null);
+  const [parseWarnings, setParseWarnings] = useState<ToonParseWarning[] | null>(null);
+  // উত্তর token সীমায় কেটে গেছে
+  const [resultIncomplete, setResultIncomplete] = useState(false);
+  // Request-এর আগে token হিসাব থেকে সতর্কতা
+  const [preflightWarnings, setPreflightWarnings] = useState<string[]>([]);
+
+  const spellingIssues = useMemo(() => issuesOf(issues, 'spelling'), [issues]);
+  const grammarIssues = useMemo(() => issuesOf(issues, 'grammar'), [issues]);
+  const toneIssues = useMemo(() => issuesOf(issues, 'tone'), [issues]);
+  const styleIssues = useMemo(() => issuesOf(issues, 'style'), [issues]);
+  const mixingIssues = useMemo(() => issuesOf(issues, 'mixing'), [issues]);
+  const punctuationIssues = useMemo(() => issuesOf(issues, 'punctuation'), [issues]);
+  const euphonyIssues = useMemo(() => issuesOf(issues, 'euphony'), [issues]);
+  const lowConfidenceIds = useMemo(
+    () => new Set(issues.filter(issue => !meetsThreshold(issue, confidenceThresholds)).map(issue => issue.id)),
+    [issues, confidenceThresholds]
+  );
+
+  const provider = getProvider(providerId);
+  const providerOption = PROVIDER_OPTIONS.find(p => p.id === providerId) || PROVIDER_OPTIONS[0];
+  const activeModel = providerId === 'gemini'
+    ? selectedModel
+    : customModel.trim() || providerOption.defaultModel;
+
+  const availableModels = useMemo<ModelOption[]>(() => getAvailableModels(modelDiscovery), [modelDiscovery]);
+
+  // সংরক্ষিত ক্রম আগে, তারপর তালিকার নতুন মডেল (যে মডেল আর পাওয়া যায় না সেটি বাদ)
+  const orderedFallback = useMemo(() => {
+    const ids = availableModels.map(m => m.id);
+    const known = fallbackOrder.filter(id => ids.includes(id));
+    return [...known, ...ids.filter(id => !known.includes(id))];
+  }, [availableModels, fallbackOrder]);
+
+  // নির্বাচিত মডেল আগে, তারপর fallback ক্রম অনুযায়ী বাকিগুলো
+  const modelChain = useMemo(
+    () => provider.tracksQuota && fallbackEnabled
+      ? [activeModel, ...orderedFallback.filter(m => m !== activeModel)]
+      : [activeModel],
+    [provider, fallbackEnabled, orderedFallback, activeModel]
+  );
+  const quotaBlocked = provider.tracksQuota &&
+    (rateLimitInfo?.isLimited ?? false) &&
+    modelChain.every(m => getRateLimitInfo(m).isLimited);
 
   // Debounce ref for highlight
   const highlightTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
+  // ব্যবহার ড্যাশবোর্ড - খোলার সময় লগ থেকে হিসাব
+  const [usageLogVersion, setUsageLogVersion] = useState(0);
+  const usageSummary = useMemo(
+    () => (activeModal === 'usage' ? summarizeUsage(loadUsageLog()) : null),
+    [activeModal, usageLogVersion]
+  );
+
+  // ডেভেলপার প্যানেল - শেষ বিশ্লেষণের prompt, কাঁচা উত্তর, parse ও সময়
+  const [devMode, setDevMode] = useState(() => localStorage.getItem(DEV_MODE_STORAGE) === 'true');
+  const [logLevel, setLogLevelState] = useState<LogLevel>(getLogLevel);
+  const [debugRun, setDebugRun] = useState<DebugRun | null>(null);
+  const [devLogVersion, setDevLogVersion] = useState(0);
+  const devLogs = useMemo(
+    () => (activeModal === 'developer' ? getLogEntries().slice(-100).reverse() : []),
+    [activeModal, devLogVersion]
+  );
+  const titleClicksRef = useRef<number[]>([]);
+
+  // চলমান বিশ্লেষণ বাতিলের জন্য
+  const abortRef = useRef<AbortController | null>(null);
+  const snapshotRef = useRef<ResultSnapshot | null>(null);
+  // বিশ্লেষিত টেক্সট (সিলেকশন) ডকুমেন্টের কোন character-এ শুরু - anchor-এর ভিত্তি
+  const textOffsetRef = useRef(0);
+  const confidenceRef = useRef(confidenceThresholds);
+  confidenceRef.current = confidenceThresholds;
+  snapshotRef.current = {
+    issues,
+    languageStyleMixing,
+    contentAnalysis,
+    stats,
+    resultModel,
+    schemaDiagnostics,
+    parseWarnings,
+    resultIncomplete,
+    preflightWarnings,
+    textOffset: textOffsetRef.current
+  };
+
   // ============ LOAD RATE LIMIT ON MOUNT & MODEL CHANGE ============
   useEffect(() => {
     const info = getRateLimitInfo(selectedModel);
@@ -233,254 +368,683 @@ function App() {
     setTimeout(() => setMessage(null), 4000);
   }, []);
 
-  const saveSettings = useCallback(() => {
-    localStorage.setItem('gemini_api_key', apiKey);
+  const handleTitleClick = useCallback(() => {
+    const now = Date.now();
+    const clicks = [...titleClicksRef.current.filter(t => now - t < 2000), now];
+    titleClicksRef.current = clicks;
+    if (clicks.length < DEV_MODE_CLICKS) return;
+
+    titleClicksRef.current = [];
+    const next = !devMode;
+    localStorage.setItem(DEV_MODE_STORAGE, String(next));
+    setDevMode(next);
+    showMessage(next ? 'ডেভেলপার মোড চালু - মেনুতে প্যানেল পাবেন' : 'ডেভেলপার মোড বন্ধ', 'success');
+  }, [devMode, showMessage]);
+
+  const copyDebugBundle = useCallback(async () => {
+    const bundle = buildDebugBundle(debugRun, getLogEntries(), {
+      provider: providerId,
+      model: activeModel,
+      fallback: String(fallbackEnabled),
+      outputMode,
+      docType,
+      style: selectedStyle,
+      tone: selectedTone || 'none',
+      confidence: JSON.stringify(confidenceThresholds),
+      verify: String(verifyEnabled),
+      consensus: `${consensus.minAgree}/${consensus.samples}`,
+      unicodeFix: String(unicodeFixEnabled),
+      logLevel
+    });
+    try {
+      await copyText(bundle);
+      showMessage('Debug bundle কপি হয়েছে', 'success');
+    } catch (error: any) {
+      showMessage(error?.message || 'কপি করা যায়নি', 'error');
+    }
+  }, [debugRun, providerId, activeModel, fallbackEnabled, outputMode, docType, selectedStyle, selectedTone, confidenceThresholds, verifyEnabled, consensus, unicodeFixEnabled, logLevel, showMessage]);
+
+  const saveSettings = useCallback(async () => {
+    // লক থাকলে key তালিকা খালি দেখায় - তখন key-তে হাত দেওয়া হয় না
+    if (!keysLocked) {
+      try {
+        if (providerId === 'gemini') {
+          await saveApiKeys(apiKeys);
+          setApiKeys(loadApiKeys());
+        } else {
+          await saveProviderApiKey(providerId, apiKey);
+        }
+      } catch (error: any) {
+        showMessage(error?.message || 'Key সংরক্ষণ ব্যর্থ হয়েছে', 'error');
+        return;
+      }
+    }
+    localStorage.setItem('llm_provider', providerId);
+    if (providerId === 'gemini') {
+      setKeyRotation(keyRotation);
+      setRateLimitInfo(getRateLimitInfo(selectedModel));
+    }
     localStorage.setItem('gemini_model', selectedModel);
+    localStorage.setItem('gemini_fallback_enabled', String(fallbackEnabled));
+    localStorage.setItem('gemini_fallback_order', JSON.stringify(orderedFallback));
+    if (providerId !== 'gemini') {
+      localStorage.setItem(`llm_base_url_${providerId}`, providerBaseUrl.trim());
+      localStorage.setItem(`llm_model_${providerId}`, customModel.trim());
+    }
+    localStorage.setItem('llm_output_mode', outputMode);
     localStorage.setItem('doc_type', docType);
-    showMessage('সেটিংস সংরক্ষিত হয়েছে! ✓', 'success');
+    saveConfidenceThresholds(confidenceThresholds);
+    setVerifyEnabled(verifyEnabled);
+    saveConsensusSettings(consensus);
+    setUnicodeFixEnabled(unicodeFixEnabled);
+    setRoamingEnabled(roamingEnabled);
     setActiveModal('none');
-  }, [apiKey, selectedModel, docType, showMessage]);
+
+    if (roamingEnabled && isRoamingAvailable()) {
+      try {
+        await pushRoamingSettings();
+      } catch (error: any) {
+        showMessage(error?.message || 'ডকুমেন্টে সেটিংস সংরক্ষণ ব্যর্থ হয়েছে', 'error');
+        return;
+      }
+    }
+    showMessage('সেটিংস সংরক্ষিত হয়েছে! ✓', 'success');
+  }, [providerId, apiKey, apiKeys, keysLocked, keyRotation, selectedModel, fallbackEnabled, orderedFallback, providerBaseUrl, customModel, outputMode, docType, confidenceThresholds, verifyEnabled, consensus, unicodeFixEnabled, roamingEnabled, showMessage]);
+
+  // ============ KEY ENCRYPTION ============
+  const resetPassphraseFields = useCallback(() => {
+    setPassphrase('');
+    setPassphraseConfirm('');
+  }, []);
+
+  const unlockKeys = useCallback(async () => {
+    if (!passphrase) return;
+    setVaultBusy(true);
+    try {
+      await unlockVault(passphrase);
+      setApiKeys(loadApiKeys());
+      setApiKey(loadProviderApiKey(providerId));
+      setKeysLocked(false);
+      setRateLimitInfo(getRateLimitInfo(selectedModel));
+      resetPassphraseFields();
+      if (activeModal === 'unlock') setActiveModal('none');
+      showMessage('Key খোলা হয়েছে 🔓', 'success');
+    } catch (error: any) {
+      showMessage(error?.message || 'Key খোলা যায়নি', 'error');
+    } finally {
+      setVaultBusy(false);
+    }
+  }, [passphrase, providerId, selectedModel, activeModal, showMessage, resetPassphraseFields]);
+
+  const lockKeys = useCallback(() => {
+    lockVault();
+    setApiKeys(loadApiKeys());
+    setApiKey(loadProviderApiKey(providerId));
+    setKeysLocked(true);
+  }, [providerId]);
+
+  // নতুন করে এনক্রিপ্ট বা পাসফ্রেজ বদল - দুই ঘরে একই পাসফ্রেজ লাগবে
+  const encryptKeys = useCallback(async () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      showMessage(`পাসফ্রেজ কমপক্ষে ${MIN_PASSPHRASE_LENGTH} অক্ষরের হতে হবে`, 'error');
+      return;
+    }
+    if (passphrase !== passphraseConfirm) {
+      showMessage('দুই পাসফ্রেজ মেলেনি', 'error');
+      return;
+    }
+
+    setVaultBusy(true);
+    try {
+      if (vaultEnabled) {
+        await changeKeyPassphrase(passphrase);
+        showMessage('পাসফ্রেজ বদলানো হয়েছে ✓', 'success');
+      } else {
+        // এখনো সংরক্ষণ না করা key-ও যাতে এনক্রিপ্ট হয়
+        if (providerId === 'gemini') {
+          await saveApiKeys(apiKeys);
+        } else {
+          await saveProviderApiKey(providerId, apiKey);
+        }
+        await encryptApiKeys(passphrase);
+        setApiKeys(loadApiKeys());
+        setVaultEnabled(true);
+        showMessage('Key এনক্রিপ্ট করা হয়েছে 🔒', 'success');
+      }
+      resetPassphraseFields();
+    } catch (error: any) {
+      showMessage(error?.message || 'এনক্রিপশন ব্যর্থ হয়েছে', 'error');
+    } finally {
+      setVaultBusy(false);
+    }
+  }, [passphrase, passphraseConfirm, vaultEnabled, providerId, apiKeys, apiKey, showMessage, resetPassphraseFields]);
+
+  const disableKeyEncryption = useCallback(() => {
+    try {
+      decryptApiKeys();
+      setVaultEnabled(false);
+      setApiKeys(loadApiKeys());
+      showMessage('এনক্রিপশন বন্ধ - Key আবার সাধারণভাবে সংরক্ষিত', 'success');
+    } catch (error: any) {
+      showMessage(error?.message || 'এনক্রিপশন বন্ধ করা যায়নি', 'error');
+    }
+  }, [showMessage]);
+
+  const updateApiKey = useCallback((id: string, changes: Partial<ApiKeyEntry>) => {
+    setApiKeys(prev => prev.map(k => (k.id === id ? { ...k, ...changes } : k)));
+  }, []);
+
+  const addApiKey = useCallback(() => {
+    setApiKeys(prev => [...prev, { id: createKeyId(), name: `Key ${prev.length + 1}`, key: '' }]);
+  }, []);
+
+  const removeApiKey = useCallback((id: string) => {
+    setApiKeys(prev => prev.filter(k => k.id !== id));
+  }, []);
+
+  const moveFallbackModel = useCallback((index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= orderedFallback.length) return;
+    const next = [...orderedFallback];
+    [next[index], next[target]] = [next[target], next[index]];
+    setFallbackOrder(next);
+  }, [orderedFallback]);
+
+  // Key যাচাই: কোন মডেলগুলো ব্যবহার করা যায় তা এনে মডেল তালিকা হালনাগাদ
+  const verifyApiKey = useCallback(async (entry: ApiKeyEntry) => {
+    if (!entry.key.trim()) {
+      showMessage('আগে API Key দিন', 'error');
+      return;
+    }
+
+    setVerifyingKeyId(entry.id);
+    try {
+      const models = await discoverGeminiModels(entry.key.trim(), resolveBaseUrl({ id: 'gemini' }));
+      updateApiKey(entry.id, { invalid: false, invalidReason: undefined });
+
+      if (models.length === 0) {
+        showMessage('Key বৈধ, কিন্তু কোনো ব্যবহারযোগ্য মডেল পাওয়া যায়নি', 'error');
+        return;
+      }
+
+      const discovery = saveModelDiscovery(models);
+      setModelDiscovery(discovery);
+      const available = getAvailableModels(discovery);
+      if (!available.some(m => m.id === selectedModel)) {
+        setSelectedModel(available[0].id);
+      }
+      showMessage(`Key বৈধ ✓ - ${models.length}টি মডেল পাওয়া গেছে`, 'success');
+    } catch (error: any) {
+      if (/API Key/.test(error?.message || '')) {
+        updateApiKey(entry.id, { invalid: true, invalidReason: error.message });
+      }
+      showMessage(error?.message || 'যাচাই ব্যর্থ হয়েছে', 'error');
+    } finally {
+      setVerifyingKeyId(null);
+    }
+  }, [selectedModel, showMessage, updateApiKey]);
+
+  const resetModelDiscovery = useCallback(() => {
+    clearModelDiscovery();
+    setModelDiscovery(null);
+  }, []);
+
+  // Provider বদলালে সেই provider-এর সংরক্ষিত key/URL/মডেল লোড করা
+  const selectProvider = useCallback((id: ProviderId) => {
+    setProviderId(id);
+    setApiKey(loadProviderApiKey(id));
+    setProviderBaseUrl(localStorage.getItem(`llm_base_url_${id}`) || '');
+    setCustomModel(localStorage.getItem(`llm_model_${id}`) || '');
+  }, []);
 
   const toggleSection = useCallback((key: SectionKey) => {
     setCollapsedSections(prev => ({ ...prev, [key]: !prev[key] }));
   }, []);
 
   // ============ DEBOUNCED HIGHLIGHT ============
-  const handleHighlight = useCallback((text: string, color: string, position?: number) => {
+  const handleHighlight = useCallback((issue: Issue) => {
     if (highlightTimeoutRef.current) {
       clearTimeout(highlightTimeoutRef.current);
     }
     highlightTimeoutRef.current = setTimeout(() => {
-      highlightInWord(text, color, position);
+      highlightIssuesInWord([issue], textOffsetRef.current);
     }, 300);
   }, []);
 
+  // শেষ রীতি-মিশ্রণ সাজেশনটিও চলে গেলে মিশ্রণের কার্ডও সরানো
+  const removeIssues = useCallback((next: Issue[]) => {
+    setIssues(next);
+    if (!next.some(issue => issue.category === 'mixing') && snapshotRef.current?.issues.some(issue => issue.category === 'mixing')) {
+      setLanguageStyleMixing(null);
+    }
+  }, []);
+
   // ============ REPLACE HANDLER ============
-  const handleReplace = useCallback(async (oldText: string, newText: string, position?: number) => {
-    const success = await replaceInWord(oldText, newText, position);
+  const handleReplace = useCallback(async (issue: Issue, replacement: string) => {
+    const success = await replaceIssueInWord(issue, replacement, textOffsetRef.current);
 
     if (success) {
-      const target = normalize(oldText.trim());
-      const isNotMatch = (textToCheck: string) => normalize(textToCheck) !== target;
-
-      setCorrections(prev => prev.filter(c => isNotMatch(c.wrong)));
-      setToneSuggestions(prev => prev.filter(t => isNotMatch(t.current)));
-      setStyleSuggestions(prev => prev.filter(s => isNotMatch(s.current)));
-      setEuphonyImprovements(prev => prev.filter(e => isNotMatch(e.current)));
-      setPunctuationIssues(prev => prev.filter(p => isNotMatch(p.currentSentence)));
-
-      setLanguageStyleMixing(prev => {
-        if (!prev || !prev.corrections) return prev;
-        const filtered = prev.corrections.filter(c => isNotMatch(c.current));
-        return filtered.length > 0 ? { ...prev, corrections: filtered } : null;
-      });
+      removeIssues(afterReplacement(snapshotRef.current?.issues ?? [], issue, replacement));
 
       showMessage('সংশোধিত হয়েছে ✓', 'success');
     } else {
       showMessage('শব্দটি ডকুমেন্টে খুঁজে পাওয়া যায়নি।', 'error');
     }
-  }, [showMessage]);
+  }, [showMessage, removeIssues]);
+
+  // ============ STYLE CONVERSION - API ছাড়া পুরো লেখা এক রীতিতে ============
+  const convertPassage = useCallback(async (target: TargetStyle) => {
+    const { text, offset } = await getTextFromWord();
+    const conversions = styleConversions(text, target);
+    const label = target === 'sadhu' ? 'সাধু' : 'চলিত';
+    if (conversions.length === 0) {
+      showMessage(`লেখাটি আগে থেকেই ${label} রীতিতে (চেনা শব্দ অনুযায়ী)`, 'success');
+      return;
+    }
+
+    const converted = await replaceIssuesInWord(
+      conversions.map(issue => ({ issue, replacement: issue.replacements[0] })),
+      offset
+    );
+
+    // মিশ্রণের সাজেশন আর প্রাসঙ্গিক নয়; বাকিগুলোর span প্রতিটি রূপান্তরের পর সরে যায়
+    // রূপান্তরের span এখনকার পড়া টেক্সটে - বিশ্লেষিত টেক্সটের হিসাবে এনে পেছন থেকে প্রয়োগ, যাতে আগেরগুলোর offset বদলায় না
+    const base = offset - textOffsetRef.current;
+    let remaining = (snapshotRef.current?.issues ?? []).filter(item => item.category !== 'mixing');
+    for (const { issue, replacement } of [...converted].sort((a, b) => b.issue.span.start - a.issue.span.start)) {
+      const span = { ...issue.span, start: issue.span.start + base, end: issue.span.end + base };
+      remaining = afterReplacement(remaining, { ...issue, span }, replacement);
+    }
+    removeIssues(remaining);
+    setActiveModal('none');
+    showMessage(`${converted.length}টি শব্দ ${label} রীতিতে রূপান্তরিত ✓`, converted.length > 0 ? 'success' : 'error');
+  }, [showMessage, removeIssues]);
 
   // ============ DISMISS HANDLER ============
-  const dismissSuggestion = useCallback((
-    type: 'spelling' | 'tone' | 'style' | 'mixing' | 'punct' | 'euphony',
-    textToDismiss: string
+  const dismissIssue = useCallback((issue: Issue) => {
+    removeIssues((snapshotRef.current?.issues ?? []).filter(item => item.id !== issue.id));
+  }, [removeIssues]);
+
+  // ============ BATCH HIGHLIGHT ============
+  const batchHighlightAll = useCallback(async (
+    items: Issue[],
+    sections: ToonSection[] = HIGHLIGHT_SECTIONS,
+    signal?: AbortSignal
   ) => {
-    const target = normalize(textToDismiss);
-    const isNotMatch = (t: string) => normalize(t) !== target;
-
-    switch (type) {
-      case 'spelling':
-        setCorrections(prev => prev.filter(c => isNotMatch(c.wrong)));
-        break;
-      case 'tone':
-        setToneSuggestions(prev => prev.filter(t => isNotMatch(t.current)));
-        break;
-      case 'style':
-        setStyleSuggestions(prev => prev.filter(s => isNotMatch(s.current)));
-        break;
-      case 'mixing':
-        setLanguageStyleMixing(prev => {
-          if (!prev || !prev.corrections) return prev;
-          const filtered = prev.corrections.filter(c => isNotMatch(c.current));
-          return filtered.length > 0 ? { ...prev, corrections: filtered } : null;
-        });
-        break;
-      case 'punct':
-        setPunctuationIssues(prev => prev.filter(p => isNotMatch(p.currentSentence)));
-        break;
-      case 'euphony':
-        setEuphonyImprovements(prev => prev.filter(e => isNotMatch(e.current)));
-        break;
+    // কম আস্থার সাজেশন লুকানো থাকে, তাই ডকুমেন্টেও হাইলাইট নয়
+    const categories = sectionCategories(sections);
+    const targets = items.filter(
+      issue => categories.includes(issue.category) && meetsThreshold(issue, confidenceRef.current)
+    );
+    if (targets.length > 0) {
+      await highlightIssuesInWord(targets, textOffsetRef.current, signal);
     }
   }, []);
 
-  // ============ BATCH HIGHLIGHT ============
-  const batchHighlightAll = useCallback(async (result: UnifiedResponse) => {
-    const items: Array<{ text: string; color: string; position?: number }> = [];
+  // ============ CANCEL ============
+  const cancelAnalysis = useCallback(() => {
+    abortRef.current?.abort();
+    setLoadingText('বাতিল করা হচ্ছে...');
+  }, []);
 
-    // Spelling errors - red
-    result.spellingErrors.forEach(err => {
-      items.push({ text: err.wrong, color: '#fee2e2', position: err.position });
-    });
+  // বাতিল হলে আগের ফলাফল ও হাইলাইট ফিরিয়ে আনা
+  const restoreSnapshot = useCallback(async (snapshot: ResultSnapshot) => {
+    setIssues(snapshot.issues);
+    setLanguageStyleMixing(snapshot.languageStyleMixing);
+    setContentAnalysis(snapshot.contentAnalysis);
+    setStats(snapshot.stats);
+    setResultModel(snapshot.resultModel);
+    setSchemaDiagnostics(snapshot.schemaDiagnostics);
+    setParseWarnings(snapshot.parseWarnings);
+    setResultIncomplete(snapshot.resultIncomplete);
+    setPreflightWarnings(snapshot.preflightWarnings);
+    textOffsetRef.current = snapshot.textOffset;
 
-    // Tone - yellow
-    result.toneConversions.forEach(t => {
-      items.push({ text: t.current, color: '#fef3c7', position: t.position });
-    });
+    await clearHighlights();
+    await batchHighlightAll(snapshot.issues);
+  }, [batchHighlightAll]);
 
-    // Style - teal
-    result.styleConversions.forEach(s => {
-      items.push({ text: s.current, color: '#ccfbf1', position: s.position });
-    });
+  // ============ RESULT → STATE ============
+  // Streaming-এর আংশিক ফলাফল ও চূড়ান্ত ফলাফল দুটোই এখান দিয়ে যায়
+  const applyResult = useCallback((result: AnalysisResult, text: string) => {
+    const deduped = dedupeIssues(result.issues);
+    setIssues(deduped);
 
-    // Mixing - purple
-    if (result.languageStyleMixing?.corrections) {
-      result.languageStyleMixing.corrections.forEach(c => {
-        items.push({ text: c.current, color: '#e9d5ff', position: c.position });
-      });
+    if (result.languageStyleMixing?.detected) {
+      setLanguageStyleMixing(result.languageStyleMixing);
     }
 
-    if (items.length > 0) {
-      await highlightMultipleInWord(items);
+    if (result.contentAnalysis) {
+      setContentAnalysis(result.contentAnalysis);
     }
+
+    // Calculate stats (using deduplicated count)
+    const words = text.trim().split(/\s+/).filter(Boolean).length;
+    const errors = issuesOf(deduped, 'spelling').filter(issue => meetsThreshold(issue, confidenceRef.current)).length;
+    setStats({
+      totalWords: words,
+      errorCount: errors,
+      accuracy: words > 0 ? Math.round(((words - errors) / words) * 100) : 100
+    });
   }, []);
 
   // ============ MAIN API CALL - একটি মাত্র request ============
-  const checkSpelling = useCallback(async () => {
+  const checkSpelling = useCallback(async (forceRefresh: boolean = false) => {
+    // এনক্রিপ্ট করা key এই সেশনে খোলা হয়নি
+    if (keysLocked && provider.requiresApiKey) {
+      setActiveModal('unlock');
+      return;
+    }
+
     // API Key check
-    if (!apiKey) {
-      showMessage('অনুগ্রহ করে প্রথমে API Key দিন', 'error');
+    const usableKey = providerId === 'gemini'
+      ? apiKeys.find(k => !k.invalid && k.key.trim())?.key || ''
+      : apiKey;
+    if (provider.requiresApiKey && !usableKey) {
+      showMessage(
+        apiKeys.some(k => k.invalid)
+          ? 'সব API Key অবৈধ চিহ্নিত। সেটিংস থেকে Key ঠিক করুন।'
+          : 'অনুগ্রহ করে প্রথমে API Key দিন',
+        'error'
+      );
       setActiveModal('settings');
       return;
     }
 
-    // Rate limit check
-    const currentInfo = getRateLimitInfo(selectedModel);
-    if (currentInfo.isLimited) {
+    // Rate limit check (fallback চালু থাকলে chain-এর যেকোনো মডেল)
+    if (provider.tracksQuota && modelChain.every(m => getRateLimitInfo(m).isLimited)) {
+      const currentInfo = getRateLimitInfo(activeModel);
       showMessage(`দৈনিক সীমা (${currentInfo.limit}টি) শেষ। কাল আবার চেষ্টা করুন বা অন্য মডেল ব্যবহার করুন।`, 'error');
       return;
     }
 
     // Get text from Word
-    const text = await getTextFromWord();
+    let { text, offset } = await getTextFromWord();
     if (!text || text.trim().length === 0) {
       showMessage('টেক্সট নির্বাচন করুন বা কার্সার রাখুন', 'error');
       return;
     }
 
+    // ডকুমেন্টের বাংলা এনকোডিং মানক রূপে - তারপর বদলানো টেক্সটই বিশ্লেষণ হয়
+    if (unicodeFixEnabled) {
+      const fixes = findNonCanonicalWords(text);
+      const fixed = fixes.length > 0 ? await fixEncodingInWord(fixes, offset) : 0;
+      if (fixed > 0) {
+        log.info(`Encoding fixed: ${fixed}/${fixes.length} word(s)`);
+        ({ text, offset } = await getTextFromWord());
+      }
+    }
+
+    const analysisOptions = {
+      text,
+      docType,
+      style: selectedStyle,
+      tone: selectedTone,
+      outputMode
+    };
+
+    // Pre-flight: আনুমানিক token হিসাব - বড় টেক্সটে আগেই সতর্ক করা
+    const preflight = preflightAnalysis(analysisOptions, activeModel, { id: providerId, baseUrl: providerBaseUrl });
+    log.info(`Preflight: ${preflight.chunks} chunk(s), ~${preflight.inputTokens} input / ${preflight.outputTokens} output tokens`);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const previous = snapshotRef.current;
+    textOffsetRef.current = offset;
+
     setIsLoading(true);
     setLoadingText('বিশ্লেষণ করা হচ্ছে...');
 
     // Reset all states
-    setCorrections([]);
-    setToneSuggestions([]);
-    setStyleSuggestions([]);
+    setIssues([]);
+    setExpandedLowConfidence({});
     setLanguageStyleMixing(null);
-    setPunctuationIssues([]);
-    setEuphonyImprovements([]);
     setContentAnalysis(null);
     setStats({ totalWords: 0, errorCount: 0, accuracy: 100 });
+    setResultModel(null);
+    setSchemaDiagnostics(null);
+    setParseWarnings(null);
+    setResultIncomplete(false);
+    setPreflightWarnings(preflight.warnings);
 
     await clearHighlights();
 
+    let fromCache = false;
+    const diagnostics: SchemaDiagnostic[] = [];
+    const toonWarnings: ToonParseWarning[] = [];
+    const run: DebugRun = {
+      t: Date.now(),
+      wordCount: text.trim().split(/\s+/).filter(Boolean).length,
+      requests: [],
+      dropped: [],
+      totalMs: 0
+    };
+
+    // স্থানীয় সাধু/চলিত শনাক্তকরণ (রীতি বেছে না নিলে) - মডেলের @MIXING-এর চেয়ে অগ্রাধিকার
+    const localMixing = selectedStyle === 'none' ? detectStyleMixing(text) : null;
+    const withLocal = (result: AnalysisResult) =>
+      localMixing ? mergeStyleMixing(result, localMixing) : result;
+
+    // Section সম্পূর্ণ হলেই দেখানো ও হাইলাইট করা (ক্রমানুসারে)
+    const highlighted = new Set<ToonSection>();
+    let highlightQueue: Promise<void> = Promise.resolve();
+    if (localMixing?.mixing.detected) {
+      applyResult(withLocal(emptyResponse()), text);
+      highlightQueue = batchHighlightAll(localMixing.issues, ['MIXING'], controller.signal);
+    }
+    const handlePartial = (section: ToonSection, partial: AnalysisResult) => {
+      if (controller.signal.aborted) return;
+      applyResult(withLocal(partial), text);
+      setLoadingText(`${SECTION_LABELS[section]} পাওয়া গেছে, বাকি অংশ আসছে...`);
+      if (HIGHLIGHT_SECTIONS.includes(section)) {
+        highlighted.add(section);
+        highlightQueue = highlightQueue.then(() => batchHighlightAll(partial.issues, [section], controller.signal));
+      }
+    };
+
     try {
-      // ✅ একটি মাত্র API call!
-      const result = await analyzeText(
+      // ✅ ছোট টেক্সটে একটি মাত্র API call, বড় ডকুমেন্টে অংশ ধরে
+      const { result, model: usedModel } = await analyzeWithFallback(
+        analysisOptions,
+        usableKey,
+        modelChain,
+        { id: providerId, baseUrl: providerBaseUrl },
         {
-          text,
-          docType,
-          style: selectedStyle,
-          tone: selectedTone
-        },
-        apiKey,
-        selectedModel
+          onPartial: handlePartial,
+          onProgress: (done, total) => setChunkProgress(total > 1 ? { done, total } : null),
+          onWait: seconds => setLoadingText(
+            seconds > 0
+              ? `প্রতি মিনিটের সীমা পূর্ণ - পরবর্তী slot ${seconds} সেকেন্ডে...`
+              : 'বিশ্লেষণ করা হচ্ছে...'
+          ),
+          onRetry: (attempt, seconds) => setLoadingText(
+            `সার্ভার ব্যস্ত - ${seconds} সেকেন্ড পর আবার চেষ্টা (${attempt}/${MAX_RETRIES})...`
+          ),
+          forceRefresh,
+          onCacheHit: () => {
+            fromCache = true;
+          },
+          onDiagnostics: items => {
+            diagnostics.push(...items);
+          },
+          onParseWarnings: items => {
+            toonWarnings.push(...items);
+          },
+          onTrace: trace => {
+            run.requests.push(trace);
+          },
+          onDropped: items => {
+            run.dropped.push(...items);
+          },
+          verify: verifyEnabled,
+          onVerifying: count => setLoadingText(`${count}টি সাজেশন যাচাই করা হচ্ছে...`),
+          consensus,
+          onSample: (index, total) => setLoadingText(`নমুনা ${index}/${total} বিশ্লেষণ করা হচ্ছে...`),
+          signal: controller.signal,
+          onModelSwitch: model => setLoadingText(
+            `কোটা শেষ - ${getModelName(model)} দিয়ে চেষ্টা করা হচ্ছে...`
+          )
+        }
       );
 
-      // Increment request count after successful call
-      const newInfo = incrementRequestCount(selectedModel);
-      setRateLimitInfo(newInfo);
+      // Request count is incremented per call inside analyzeText
+      if (provider.tracksQuota) {
+        setRateLimitInfo(getRateLimitInfo(activeModel));
+      }
+
+      if (controller.signal.aborted) {
+        throw new AnalysisCancelledError();
+      }
 
       if (!result) {
         showMessage('বিশ্লেষণ ব্যর্থ হয়েছে। আবার চেষ্টা করুন।', 'error');
         return;
       }
 
-      // Sort helper
-      const sortByPos = <T extends { position?: number }>(arr: T[]) =>
-        [...arr].sort((a, b) => (a.position ?? 0) - (b.position ?? 0));
-
-      // ✅ Deduplicate and set states
-      const dedupedSpelling = deduplicateCorrections(result.spellingErrors);
-      const dedupedTone = deduplicateToneSuggestions(result.toneConversions);
-      const dedupedStyle = deduplicateStyleSuggestions(result.styleConversions);
-      const dedupedEuphony = deduplicateEuphony(result.euphonyImprovements);
-
-      setCorrections(sortByPos(dedupedSpelling));
-      setPunctuationIssues(sortByPos(result.punctuationIssues));
-      setEuphonyImprovements(sortByPos(dedupedEuphony));
-      setToneSuggestions(sortByPos(dedupedTone));
-      setStyleSuggestions(sortByPos(dedupedStyle));
-
-if (result.languageStyleMixing?.detected) {
-  const mixing: StyleMixing = {
-    detected: result.languageStyleMixing.detected,
-    recommendedStyle: result.languageStyleMixing.recommendedStyle,
-    reason: result.languageStyleMixing.reason,
-    corrections: result.languageStyleMixing.corrections 
-      ? sortByPos(deduplicateMixingCorrections(
-          result.languageStyleMixing.corrections.map(c => ({
-            current: c.current,
-            suggestion: c.suggestion,
-            type: c.type,
-            position: c.position
-          }))
-        ))
-      : undefined
-  };
-  setLanguageStyleMixing(mixing);
-}
-
-      if (result.contentAnalysis) {
-        setContentAnalysis(result.contentAnalysis);
-      }
+      setResultModel(usedModel);
+      setSchemaDiagnostics(outputMode === 'json' ? diagnostics : null);
+      setParseWarnings(outputMode === 'toon' ? toonWarnings : null);
+      setResultIncomplete(!!result.incomplete);
 
-      // Calculate stats (using deduplicated count)
-      const words = text.trim().split(/\s+/).filter(Boolean).length;
-      const errors = dedupedSpelling.length;
-      setStats({
-        totalWords: words,
-        errorCount: errors,
-        accuracy: words > 0 ? Math.round(((words - errors) / words) * 100) : 100
-      });
+      applyResult(withLocal(result), text);
 
-      // Batch highlight
+      // বাকি section হাইলাইট (streaming-এ যেগুলো হয়নি)
       setLoadingText('হাইলাইট করা হচ্ছে...');
-      await batchHighlightAll(result);
+      await highlightQueue;
+      const remaining = HIGHLIGHT_SECTIONS.filter(sec => !highlighted.has(sec));
+      if (remaining.length > 0) {
+        await batchHighlightAll(result.issues, remaining, controller.signal);
+      }
+      if (controller.signal.aborted) {
+        throw new AnalysisCancelledError();
+      }
 
-      showMessage('বিশ্লেষণ সম্পন্ন! ✓', 'success');
+      if (result.incomplete) {
+        showMessage('ফলাফল অসম্পূর্ণ - মডেলের উত্তর মাঝপথে কেটে গেছে', 'error');
+      } else if (isConsensusShort(result)) {
+        const { samples, answered } = result.consensus!;
+        showMessage(`সম্মতি অসম্পূর্ণ - ${samples}টি নমুনার ${answered}টি উত্তর দিয়েছে, তাই কিছু সাজেশন বাদ পড়তে পারে। ফলাফল ক্যাশ হয়নি, আবার পরীক্ষা করুন।`, 'error');
+      } else {
+        showMessage(
+          fromCache ? 'বিশ্লেষণ সম্পন্ন! ✓ (আগের ফলাফল - ক্যাশ থেকে)' : 'বিশ্লেষণ সম্পন্ন! ✓',
+          'success'
+        );
+      }
 
     } catch (error: any) {
-      console.error(error);
+      if (error instanceof AnalysisCancelledError || controller.signal.aborted) {
+        // চলমান হাইলাইট শেষ হলে আগের অবস্থা ফেরানো
+        setLoadingText('আগের ফলাফল ফিরিয়ে আনা হচ্ছে...');
+        await highlightQueue.catch(() => undefined);
+        if (previous) {
+          await restoreSnapshot(previous);
+        }
+        showMessage('বিশ্লেষণ বাতিল করা হয়েছে', 'success');
+        return;
+      }
+
+      log.error('Analysis failed', error);
+      run.error = error?.message || String(error);
       // Update rate limit info in case of 429 error
-      const updatedInfo = getRateLimitInfo(selectedModel);
-      setRateLimitInfo(updatedInfo);
+      if (provider.tracksQuota) {
+        const updatedInfo = getRateLimitInfo(activeModel);
+        setRateLimitInfo(updatedInfo);
+      }
       showMessage(error?.message || 'ত্রুটি হয়েছে। আবার চেষ্টা করুন।', 'error');
     } finally {
+      run.totalMs = Date.now() - run.t;
+      setDebugRun(run);
       setIsLoading(false);
       setLoadingText('');
+      setChunkProgress(null);
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+      }
+      // ব্যর্থ key অবৈধ চিহ্নিত হয়ে থাকতে পারে
+      if (providerId === 'gemini') {
+        setApiKeys(loadApiKeys());
+      }
     }
-  }, [apiKey, selectedModel, docType, selectedTone, selectedStyle, showMessage, batchHighlightAll]);
+  }, [apiKey, apiKeys, keysLocked, provider, providerId, providerBaseUrl, activeModel, modelChain, outputMode, docType, selectedTone, selectedStyle, verifyEnabled, consensus, unicodeFixEnabled, showMessage, applyResult, batchHighlightAll, restoreSnapshot]);
 
   // ============ RENDER HELPERS ============
+  // ============ CONFIDENCE ============
+  const visibleIssues = (list: Issue[]): Issue[] =>
+    list.filter(issue => !lowConfidenceIds.has(issue.id) || expandedLowConfidence[issue.category]);
+
+  const renderBadges = (issue: Issue) => (
+    <>
+      {issue.source === 'rules' && (
+        <span className="source-badge" title="স্থানীয় সাধু/চলিত শব্দতালিকা থেকে">📏 নিয়ম</span>
+      )}
+      {issue.confidence !== undefined && (
+        <span
+          className={`confidence-badge${lowConfidenceIds.has(issue.id) ? ' low' : ''}`}
+          title="মডেলের আস্থা"
+        >
+          {issue.confidence}%
+        </span>
+      )}
+      {issue.agreement && (
+        <span
+          className="agreement-badge"
+          title={issue.agreement.answered < issue.agreement.samples
+            ? `কয়টি নমুনায় একই সাজেশন এসেছে - ${issue.agreement.samples}টির মধ্যে ${issue.agreement.answered}টি নমুনা উত্তর দিয়েছে`
+            : 'কয়টি নমুনায় একই সাজেশন এসেছে'}
+        >
+          🤝 {issue.agreement.votes}/{issue.agreement.samples}
+          {issue.agreement.answered < issue.agreement.samples && ` · উত্তর ${issue.agreement.answered}`}
+        </span>
+      )}
+    </>
+  );
+
+  const renderLowConfidenceToggle = (category: IssueCategory, list: Issue[]) => {
+    const hidden = list.filter(issue => lowConfidenceIds.has(issue.id)).length;
+    if (hidden === 0) return null;
+    const expanded = !!expandedLowConfidence[category];
+    return (
+      <button
+        className="low-confidence-toggle"
+        onClick={() => setExpandedLowConfidence(prev => ({ ...prev, [category]: !expanded }))}
+      >
+        {expanded ? `▲ কম আস্থার ${hidden}টি লুকান` : `▼ আরও ${hidden}টি দেখুন (কম আস্থা)`}
+      </button>
+    );
+  };
+
   const shouldShowSection = useCallback((key: SectionKey): boolean => {
     if (viewFilter === 'all') return true;
     if (viewFilter === 'spelling') return key === 'spelling';
+    if (viewFilter === 'grammar') return key === 'grammar';
     if (viewFilter === 'punctuation') return key === 'punctuation';
     return true;
   }, [viewFilter]);
 
   // ============ UI RENDER ============
+  // পাসফ্রেজ দিয়ে key খোলার ফর্ম (unlock মডাল ও সেটিংসে)
+  const unlockForm = (
+    <div className="vault-box">
+      <div style={{ fontSize: '12px', marginBottom: '8px' }}>🔒 API Key এনক্রিপ্ট করা আছে। এই সেশনে ব্যবহার করতে পাসফ্রেজ দিন।</div>
+      <div style={{ display: 'flex', gap: '6px' }}>
+        <input
+          type="password"
+          value={passphrase}
+          onChange={e => setPassphrase(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter') unlockKeys();
+          }}
+          placeholder="পাসফ্রেজ"
+          autoFocus
+          style={{ flex: 1, margin: 0 }}
+        />
+        <button onClick={unlockKeys} disabled={vaultBusy || !passphrase} className="btn-vault">
+          {vaultBusy ? '…' : '🔓 খুলুন'}
+        </button>
+      </div>
+    </div>
+  );
+
   return (
     <div className="app-container">
       {/* Header & Toolbar */}
@@ -495,7 +1059,7 @@ if (result.languageStyleMixing?.detected) {
           </button>
 
           <div className="app-title">
-            <h1>🌟 ভাষা মিত্র</h1>
+            <h1 onClick={handleTitleClick}>🌟 ভাষা মিত্র</h1>
             <p>বাংলা বানান ও ব্যাকরণ পরীক্ষক</p>
           </div>
 
@@ -505,16 +1069,24 @@ if (result.languageStyleMixing?.detected) {
         <div className="toolbar">
           <div className="toolbar-top">
             <button 
-              onClick={checkSpelling} 
-              disabled={isLoading || (rateLimitInfo?.isLimited ?? false)} 
+              onClick={() => checkSpelling()} 
+              disabled={isLoading || quotaBlocked} 
               className="btn-check"
             >
               {isLoading ? '⏳ অপেক্ষা করুন...' : '🔍 পরীক্ষা করুন'}
             </button>
+            <button
+              onClick={() => checkSpelling(true)}
+              disabled={isLoading || quotaBlocked}
+              className="btn-recheck"
+              title="ক্যাশ উপেক্ষা করে নতুন করে পরীক্ষা"
+            >
+              🔄
+            </button>
           </div>
 
           {/* Dynamic Request Counter */}
-          {rateLimitInfo && (
+          {rateLimitInfo && provider.tracksQuota && (
             <div 
               className="request-counter" 
               style={{
@@ -558,6 +1130,12 @@ if (result.languageStyleMixing?.detected) {
               >
                 শুধু বানান
               </button>
+              <button
+                className={viewFilter === 'grammar' ? 'active' : ''}
+                onClick={() => setViewFilter('grammar')}
+              >
+                শুধু ব্যাকরণ
+              </button>
               <button
                 className={viewFilter === 'punctuation' ? 'active' : ''}
                 onClick={() => setViewFilter('punctuation')}
@@ -604,12 +1182,47 @@ if (result.languageStyleMixing?.detected) {
         {isLoading && (
           <div className="loading-box">
             <div className="loader"></div>
-            <p>{loadingText}</p>
+            <div style={{ flex: 1 }}>
+              <p>{loadingText}</p>
+              {chunkProgress && (
+                <>
+                  <div className="progress-track">
+                    <div
+                      className="progress-fill"
+                      style={{ width: `${Math.round((chunkProgress.done / chunkProgress.total) * 100)}%` }}
+                    />
+                  </div>
+                  <div className="progress-label">
+                    অংশ {Math.min(chunkProgress.done + 1, chunkProgress.total)}/{chunkProgress.total}
+                  </div>
+                </>
+              )}
+            </div>
+            <button onClick={cancelAnalysis} className="btn-cancel" title="বিশ্লেষণ বাতিল">
+              ✕ বাতিল
+            </button>
           </div>
         )}
 
         {message && <div className={`message-box ${message.type}`}>{message.text}</div>}
 
+        {/* Pre-flight token warnings */}
+        {preflightWarnings.length > 0 && (
+          <div className="warning-box">
+            {preflightWarnings.map((w, i) => (
+              <div key={i}>⚠️ {w}</div>
+            ))}
+          </div>
+        )}
+
+        {/* Truncated response */}
+        {resultIncomplete && stats.totalWords > 0 && (
+          <div className="warning-box">
+            ⚠️ <strong>ফলাফল অসম্পূর্ণ:</strong> মডেলের উত্তর token সীমায় কেটে গেছে, তাই শেষের অংশ
+            (যেমন কনটেন্ট বিশ্লেষণ) নেই বা আংশিক। টেক্সটের ছোট অংশ সিলেক্ট করে আবার পরীক্ষা করুন।
+          </div>
+        )}
+
         {/* Empty State */}
         {!isLoading && stats.totalWords === 0 && !message && (
           <div className="empty-state">
@@ -639,6 +1252,42 @@ if (result.languageStyleMixing?.detected) {
           </div>
         )}
 
+        {/* Model that produced the results */}
+        {resultModel && stats.totalWords > 0 && (
+          <div className="result-model">
+            🤖 {getModelName(resultModel)}
+            {resultModel !== activeModel && (
+              <span className="fallback-badge">বিকল্প মডেল</span>
+            )}
+            {schemaDiagnostics && (
+              <>
+                {' '}· 🧩 JSON
+                {schemaDiagnostics.length > 0 && (
+                  <span
+                    className="fallback-badge"
+                    title={schemaDiagnostics.map(d => `${d.path}: ${d.reason}`).join('\n')}
+                  >
+                    {schemaDiagnostics.length}টি অবৈধ অংশ বাদ
+                  </span>
+                )}
+              </>
+            )}
+            {parseWarnings && (
+              <>
+                {' '}· 📄 TOON
+                {parseWarnings.length > 0 && (
+                  <span
+                    className="fallback-badge"
+                    title={parseWarnings.map(w => `line ${w.line}${w.section ? ` [${w.section}]` : ''}: ${w.reason}`).join('\n')}
+                  >
+                    {parseWarnings.length}টি লাইন বাদ/মেরামত
+                  </span>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
         {/* Content Analysis */}
         {contentAnalysis && shouldShowSection('content') && (
           <>
@@ -680,37 +1329,37 @@ if (result.languageStyleMixing?.detected) {
         )}
 
         {/* Spelling Errors */}
-        {corrections.length > 0 && shouldShowSection('spelling') && (
+        {spellingIssues.length > 0 && shouldShowSection('spelling') && (
           <>
             <div className="section-header">
               <h3>📝 বানান ভুল</h3>
               <span className="section-badge" style={{ background: '#fee2e2', color: '#dc2626' }}>
-                {corrections.length}টি
+                {spellingIssues.length}টি
               </span>
               <button className="collapse-btn" onClick={() => toggleSection('spelling')}>
                 {collapsedSections.spelling ? '➕' : '➖'}
               </button>
             </div>
             {!collapsedSections.spelling &&
-              corrections.map((c, i) => (
+              visibleIssues(spellingIssues).map(issue => (
                 <div
-                  key={`spell-${i}-${c.wrong}`}
+                  key={issue.id}
                   className="suggestion-card error-card"
                   style={{ position: 'relative' }}
-                  onMouseEnter={() => handleHighlight(c.wrong, '#fee2e2', c.position)}
+                  onMouseEnter={() => handleHighlight(issue)}
                 >
                   <button
-                    onClick={() => dismissSuggestion('spelling', c.wrong)}
+                    onClick={() => dismissIssue(issue)}
                     className="dismiss-btn"
                     title="বাদ দিন"
                   >
                     ✕
                   </button>
-                  <div className="wrong-word">❌ {c.wrong}</div>
-                  {c.suggestions.map((s, j) => (
+                  <div className="wrong-word">❌ {issue.original} {renderBadges(issue)}</div>
+                  {issue.replacements.map((s, j) => (
                     <button
                       key={j}
-                      onClick={() => handleReplace(c.wrong, s, c.position)}
+                      onClick={() => handleReplace(issue, s)}
                       className="suggestion-btn success-btn"
                     >
                       ✓ {s}
@@ -718,11 +1367,72 @@ if (result.languageStyleMixing?.detected) {
                   ))}
                 </div>
               ))}
+            {!collapsedSections.spelling && renderLowConfidenceToggle('spelling', spellingIssues)}
+          </>
+        )}
+
+        {/* Grammar */}
+        {grammarIssues.length > 0 && shouldShowSection('grammar') && (
+          <>
+            <div className="section-header">
+              <h3>📐 ব্যাকরণ</h3>
+              <span className="section-badge" style={{ background: '#dbeafe', color: '#1d4ed8' }}>
+                {grammarIssues.length}টি
+              </span>
+              <button className="collapse-btn" onClick={() => toggleSection('grammar')}>
+                {collapsedSections.grammar ? '➕' : '➖'}
+              </button>
+            </div>
+            {!collapsedSections.grammar &&
+              visibleIssues(grammarIssues).map(issue => (
+                <div
+                  key={issue.id}
+                  className="suggestion-card"
+                  style={{ borderLeft: '4px solid #2563eb', position: 'relative' }}
+                  onMouseEnter={() => handleHighlight(issue)}
+                >
+                  <button
+                    onClick={() => dismissIssue(issue)}
+                    className="dismiss-btn"
+                    title="বাদ দিন"
+                  >
+                    ✕
+                  </button>
+                  <div style={{ display: 'flex', gap: '6px', alignItems: 'center', marginBottom: '4px' }}>
+                    <span style={{ fontSize: '13px', fontWeight: 600, color: '#1d4ed8' }}>
+                      📐 {issue.original}
+                    </span>
+                    {issue.label && (
+                      <span
+                        style={{
+                          fontSize: '9px',
+                          background: '#dbeafe',
+                          color: '#1e40af',
+                          padding: '2px 6px',
+                          borderRadius: '10px'
+                        }}
+                      >
+                        {issue.label}
+                      </span>
+                    )}
+                    {renderBadges(issue)}
+                  </div>
+                  {issue.explanation && <div className="reason">{issue.explanation}</div>}
+                  <button
+                    onClick={() => handleReplace(issue, issue.replacements[0])}
+                    className="suggestion-btn"
+                    style={{ background: '#eff6ff', borderColor: '#93c5fd', color: '#1e40af' }}
+                  >
+                    ✓ {issue.replacements[0]}
+                  </button>
+                </div>
+              ))}
+            {!collapsedSections.grammar && renderLowConfidenceToggle('grammar', grammarIssues)}
           </>
         )}
 
         {/* Tone Suggestions */}
-        {toneSuggestions.length > 0 && shouldShowSection('tone') && (
+        {toneIssues.length > 0 && shouldShowSection('tone') && (
           <>
             <div className="section-header">
               <h3>💬 টোন রূপান্তর</h3>
@@ -734,35 +1444,36 @@ if (result.languageStyleMixing?.detected) {
               </button>
             </div>
             {!collapsedSections.tone &&
-              toneSuggestions.map((t, i) => (
+              visibleIssues(toneIssues).map(issue => (
                 <div
-                  key={`tone-${i}-${t.current}`}
+                  key={issue.id}
                   className="suggestion-card warning-card"
                   style={{ position: 'relative' }}
-                  onMouseEnter={() => handleHighlight(t.current, '#fef3c7', t.position)}
+                  onMouseEnter={() => handleHighlight(issue)}
                 >
                   <button
-                    onClick={() => dismissSuggestion('tone', t.current)}
+                    onClick={() => dismissIssue(issue)}
                     className="dismiss-btn"
                     title="বাদ দিন"
                   >
                     ✕
                   </button>
-                  <div className="wrong-word" style={{ color: '#b45309' }}>💡 {t.current}</div>
-                  {t.reason && <div className="reason">{t.reason}</div>}
+                  <div className="wrong-word" style={{ color: '#b45309' }}>💡 {issue.original} {renderBadges(issue)}</div>
+                  {issue.explanation && <div className="reason">{issue.explanation}</div>}
                   <button
-                    onClick={() => handleReplace(t.current, t.suggestion, t.position)}
+                    onClick={() => handleReplace(issue, issue.replacements[0])}
                     className="suggestion-btn warning-btn"
                   >
-                    ✨ {t.suggestion}
+                    ✨ {issue.replacements[0]}
                   </button>
                 </div>
               ))}
+            {!collapsedSections.tone && renderLowConfidenceToggle('tone', toneIssues)}
           </>
         )}
 
         {/* Style Suggestions */}
-        {styleSuggestions.length > 0 && shouldShowSection('style') && (
+        {styleIssues.length > 0 && shouldShowSection('style') && (
           <>
             <div className="section-header">
               <h3>📝 ভাষারীতি</h3>
@@ -780,18 +1491,18 @@ if (result.languageStyleMixing?.detected) {
               </button>
             </div>
             {!collapsedSections.style &&
-              styleSuggestions.map((s, i) => (
+              visibleIssues(styleIssues).map(issue => (
                 <div
-                  key={`style-${i}-${s.current}`}
+                  key={issue.id}
                   className="suggestion-card info-card"
                   style={{
                     borderColor: selectedStyle === 'sadhu' ? '#fbbf24' : '#5eead4',
                     position: 'relative'
                   }}
-                  onMouseEnter={() => handleHighlight(s.current, '#ccfbf1', s.position)}
+                  onMouseEnter={() => handleHighlight(issue)}
                 >
                   <button
-                    onClick={() => dismissSuggestion('style', s.current)}
+                    onClick={() => dismissIssue(issue)}
                     className="dismiss-btn"
                     title="বাদ দিন"
                   >
@@ -805,9 +1516,9 @@ if (result.languageStyleMixing?.detected) {
                         color: selectedStyle === 'sadhu' ? '#92400e' : '#0f766e'
                       }}
                     >
-                      🔄 {s.current}
+                      🔄 {issue.original}
                     </span>
-                    {s.type && (
+                    {issue.label && (
                       <span
                         style={{
                           fontSize: '9px',
@@ -816,12 +1527,13 @@ if (result.languageStyleMixing?.detected) {
                           borderRadius: '10px'
                         }}
                       >
-                        {s.type}
+                        {issue.label}
                       </span>
                     )}
+                    {renderBadges(issue)}
                   </div>
                   <button
-                    onClick={() => handleReplace(s.current, s.suggestion, s.position)}
+                    onClick={() => handleReplace(issue, issue.replacements[0])}
                     className="suggestion-btn"
                     style={{
                       background:
@@ -832,10 +1544,11 @@ if (result.languageStyleMixing?.detected) {
                       color: selectedStyle === 'sadhu' ? '#92400e' : '#0f766e'
                     }}
                   >
-                    ➜ {s.suggestion}
+                    ➜ {issue.replacements[0]}
                   </button>
                 </div>
               ))}
+            {!collapsedSections.style && renderLowConfidenceToggle('style', styleIssues)}
           </>
         )}
 
@@ -863,16 +1576,24 @@ if (result.languageStyleMixing?.detected) {
                   <div style={{ fontSize: '10px', color: '#6b7280', marginTop: '4px' }}>
                     {languageStyleMixing.reason}
                   </div>
+                  <button
+                    onClick={() => convertPassage(languageStyleMixing.recommendedStyle === 'সাধু' ? 'sadhu' : 'cholito')}
+                    className="suggestion-btn purple-btn"
+                    style={{ marginTop: '8px' }}
+                    title="শব্দতালিকা দিয়ে রূপান্তর - API request লাগে না"
+                  >
+                    ⚡ পুরো লেখা {languageStyleMixing.recommendedStyle === 'সাধু' ? 'সাধু' : 'চলিত'} রীতিতে
+                  </button>
                 </div>
-                {languageStyleMixing.corrections?.map((c, i) => (
+                {visibleIssues(mixingIssues).map(issue => (
                   <div
-                    key={`mix-${i}-${c.current}`}
+                    key={issue.id}
                     className="suggestion-card purple-card-light"
                     style={{ position: 'relative' }}
-                    onMouseEnter={() => handleHighlight(c.current, '#e9d5ff', c.position)}
+                    onMouseEnter={() => handleHighlight(issue)}
                   >
                     <button
-                      onClick={() => dismissSuggestion('mixing', c.current)}
+                      onClick={() => dismissIssue(issue)}
                       className="dismiss-btn"
                       title="বাদ দিন"
                     >
@@ -880,7 +1601,7 @@ if (result.languageStyleMixing?.detected) {
                     </button>
                     <div style={{ display: 'flex', gap: '6px', alignItems: 'center', marginBottom: '4px' }}>
                       <span style={{ fontSize: '13px', fontWeight: 600, color: '#7c3aed' }}>
-                        🔄 {c.current}
+                        🔄 {issue.original}
                       </span>
                       <span
                         style={{
@@ -891,17 +1612,19 @@ if (result.languageStyleMixing?.detected) {
                           borderRadius: '10px'
                         }}
                       >
-                        {c.type}
+                        {issue.label}
                       </span>
+                      {renderBadges(issue)}
                     </div>
                     <button
-                      onClick={() => handleReplace(c.current, c.suggestion, c.position)}
+                      onClick={() => handleReplace(issue, issue.replacements[0])}
                       className="suggestion-btn purple-btn"
                     >
-                      ➜ {c.suggestion}
+                      ➜ {issue.replacements[0]}
                     </button>
                   </div>
                 ))}
+                {renderLowConfidenceToggle('mixing', mixingIssues)}
               </>
             )}
           </>
@@ -920,66 +1643,67 @@ if (result.languageStyleMixing?.detected) {
               </button>
             </div>
             {!collapsedSections.punctuation &&
-              punctuationIssues.map((p, i) => (
+              visibleIssues(punctuationIssues).map(issue => (
                 <div
-                  key={`punct-${i}`}
+                  key={issue.id}
                   className="suggestion-card orange-card"
                   style={{ position: 'relative' }}
-                  onMouseEnter={() => handleHighlight(p.currentSentence, '#ffedd5')}
+                  onMouseEnter={() => handleHighlight(issue)}
                 >
                   <button
-                    onClick={() => dismissSuggestion('punct', p.currentSentence)}
+                    onClick={() => dismissIssue(issue)}
                     className="dismiss-btn"
                     title="বাদ দিন"
                   >
                     ✕
                   </button>
-                  <div className="wrong-word" style={{ color: '#ea580c' }}>⚠️ {p.issue}</div>
-                  <div className="reason">{p.explanation}</div>
+                  <div className="wrong-word" style={{ color: '#ea580c' }}>⚠️ {issue.label} {renderBadges(issue)}</div>
+                  <div className="reason">{issue.explanation}</div>
                   <button
-                    onClick={() => handleReplace(p.currentSentence, p.correctedSentence)}
+                    onClick={() => handleReplace(issue, issue.replacements[0])}
                     className="suggestion-btn orange-btn"
                   >
-                    ✓ {p.correctedSentence}
+                    ✓ {issue.replacements[0]}
                   </button>
                 </div>
               ))}
+            {!collapsedSections.punctuation && renderLowConfidenceToggle('punctuation', punctuationIssues)}
           </>
         )}
 
         {/* Euphony */}
-        {euphonyImprovements.length > 0 && shouldShowSection('euphony') && (
+        {euphonyIssues.length > 0 && shouldShowSection('euphony') && (
           <>
             <div className="section-header">
               <h3>🎵 শ্রুতিমধুরতা</h3>
               <span className="section-badge" style={{ background: '#fce7f3', color: '#be185d' }}>
-                {euphonyImprovements.length}টি
+                {euphonyIssues.length}টি
               </span>
               <button className="collapse-btn" onClick={() => toggleSection('euphony')}>
                 {collapsedSections.euphony ? '➕' : '➖'}
               </button>
             </div>
             {!collapsedSections.euphony &&
-              euphonyImprovements.map((e, i) => (
+              visibleIssues(euphonyIssues).map(issue => (
                 <div
-                  key={`euph-${i}-${e.current}`}
+                  key={issue.id}
                   className="suggestion-card"
                   style={{ borderLeft: '4px solid #db2777', position: 'relative' }}
-                  onMouseEnter={() => handleHighlight(e.current, '#fce7f3', e.position)}
+                  onMouseEnter={() => handleHighlight(issue)}
                 >
                   <button
-                    onClick={() => dismissSuggestion('euphony', e.current)}
+                    onClick={() => dismissIssue(issue)}
                     className="dismiss-btn"
                     title="বাদ দিন"
                   >
                     ✕
                   </button>
-                  <div className="wrong-word" style={{ color: '#db2777' }}>🎵 {e.current}</div>
-                  <div className="reason">{e.reason}</div>
-                  {e.suggestions.map((s, j) => (
+                  <div className="wrong-word" style={{ color: '#db2777' }}>🎵 {issue.original} {renderBadges(issue)}</div>
+                  <div className="reason">{issue.explanation}</div>
+                  {issue.replacements.map((s, j) => (
                     <button
                       key={j}
-                      onClick={() => handleReplace(e.current, s, e.position)}
+                      onClick={() => handleReplace(issue, s)}
                       className="suggestion-btn"
                       style={{ background: '#fce7f3', borderColor: '#f9a8d4', color: '#9f1239' }}
                     >
@@ -988,6 +1712,7 @@ if (result.languageStyleMixing?.detected) {
                   ))}
                 </div>
               ))}
+            {!collapsedSections.euphony && renderLowConfidenceToggle('euphony', euphonyIssues)}
           </>
         )}
       </div>
@@ -1051,6 +1776,24 @@ if (result.languageStyleMixing?.detected) {
                 </div>
               </div>
 
+              <div className="option-item" onClick={() => setActiveModal('usage')}>
+                <div className="opt-icon">📊</div>
+                <div style={{ flex: 1 }}>
+                  <div className="opt-title">ব্যবহার ড্যাশবোর্ড</div>
+                  <div className="opt-desc">মডেল অনুযায়ী request, token, সময় ও ব্যর্থতা</div>
+                </div>
+              </div>
+
+              {devMode && (
+                <div className="option-item" onClick={() => setActiveModal('developer')}>
+                  <div className="opt-icon">🛠️</div>
+                  <div style={{ flex: 1 }}>
+                    <div className="opt-title">ডেভেলপার প্যানেল</div>
+                    <div className="opt-desc">prompt, কাঁচা উত্তর, parse warning ও লগ</div>
+                  </div>
+                </div>
+              )}
+
               <div className="option-item" onClick={() => setActiveModal('instructions')}>
                 <div className="opt-icon">❓</div>
                 <div style={{ flex: 1 }}>
@@ -1072,81 +1815,502 @@ if (result.languageStyleMixing?.detected) {
               <button onClick={() => setActiveModal('none')}>✕</button>
             </div>
             <div className="modal-body">
-              {/* API Key */}
-              <label>🔑 Google Gemini API Key</label>
-              <input
-                type="password"
-                value={apiKey}
-                onChange={e => setApiKey(e.target.value)}
-                placeholder="আপনার API Key এখানে দিন"
-              />
-              <p style={{ fontSize: '10px', color: '#6b7280', marginTop: '2px', marginBottom: '12px' }}>
-                <a 
-                  href="https://aistudio.google.com/app/apikey" 
-                  target="_blank" 
-                  rel="noopener noreferrer"
-                  style={{ color: '#667eea' }}
-                >
-                  API Key তৈরি করুন →
-                </a>
-              </p>
+              {/* Provider Selection */}
+              <label>🌐 AI Provider</label>
+              <div style={{ display: 'flex', gap: '6px', marginBottom: '16px' }}>
+                {PROVIDER_OPTIONS.map(opt => (
+                  <div
+                    key={opt.id}
+                    onClick={() => selectProvider(opt.id)}
+                    title={opt.desc}
+                    style={{
+                      flex: 1,
+                      padding: '8px 6px',
+                      textAlign: 'center',
+                      border: providerId === opt.id ? '2px solid #667eea' : '1px solid #e5e7eb',
+                      borderRadius: '8px',
+                      cursor: 'pointer',
+                      background: providerId === opt.id ? '#eef2ff' : 'white',
+                      transition: 'all 0.2s'
+                    }}
+                  >
+                    <div style={{ fontSize: '16px' }}>{opt.icon}</div>
+                    <div style={{ fontWeight: 600, fontSize: '11px' }}>{opt.name}</div>
+                  </div>
+                ))}
+              </div>
 
-              {/* Model Selection with Dynamic Info */}
-              <label>🤖 AI Model</label>
-              <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', marginBottom: '12px' }}>
-                {MODEL_OPTIONS.map(opt => {
-                  const modelInfo = getRateLimitInfo(opt.id);
-                  const safeLimit = getSafeLimit(opt.id);
-                  return (
-                    <div
-                      key={opt.id}
-                      onClick={() => setSelectedModel(opt.id)}
-                      style={{
-                        padding: '10px 12px',
-                        border: selectedModel === opt.id ? '2px solid #667eea' : '1px solid #e5e7eb',
-                        borderRadius: '8px',
-                        cursor: 'pointer',
-                        background: selectedModel === opt.id ? '#eef2ff' : 'white',
-                        transition: 'all 0.2s'
-                      }}
-                    >
-                      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
-                        <div>
-                          <div style={{ fontWeight: 600, fontSize: '13px' }}>
-                            {opt.name}
-                            {opt.badge && (
-                              <span style={{ 
-                                marginLeft: '6px', 
-                                fontSize: '10px', 
-                                background: '#fef3c7', 
-                                padding: '2px 6px', 
-                                borderRadius: '4px' 
-                              }}>
-                                {opt.badge}
+              {/* API Key */}
+              {providerId === 'gemini' ? (
+                <>
+                  <label>🔑 Google Gemini API Keys</label>
+                  {keysLocked && unlockForm}
+                  {!keysLocked && (
+                  <>
+                  <div style={{ display: 'flex', flexDirection: 'column', gap: '6px', marginBottom: '6px' }}>
+                    {apiKeys.map(k => {
+                      const keyInfo = getKeyRateLimitInfo(selectedModel, k.id);
+                      return (
+                        <div key={k.id} className={`key-row ${k.invalid ? 'invalid' : ''}`}>
+                          <div style={{ display: 'flex', gap: '6px', alignItems: 'center' }}>
+                            <input
+                              type="text"
+                              value={k.name}
+                              onChange={e => updateApiKey(k.id, { name: e.target.value })}
+                              placeholder="নাম"
+                              style={{ width: '35%', margin: 0 }}
+                            />
+                            <input
+                              type="password"
+                              value={k.key}
+                              onChange={e => updateApiKey(k.id, { key: e.target.value, invalid: false, invalidReason: undefined })}
+                              placeholder="API Key"
+                              style={{ flex: 1, margin: 0 }}
+                            />
+                            <button
+                              onClick={() => verifyApiKey(k)}
+                              disabled={verifyingKeyId !== null}
+                              className="order-btn"
+                              title="যাচাই করুন ও মডেল তালিকা আনুন"
+                            >
+                              {verifyingKeyId === k.id ? '…' : '✓'}
+                            </button>
+                            <button onClick={() => removeApiKey(k.id)} className="order-btn" title="মুছুন">
+                              ✕
+                            </button>
+                          </div>
+                          <div className="key-meta">
+                            <span>{k.key ? maskKey(k.key) : 'খালি'}</span>
+                            {k.invalid ? (
+                              <span style={{ color: '#dc2626' }}>
+                                ⚠️ বাদ দেওয়া হয়েছে{k.invalidReason ? `: ${k.invalidReason}` : ''}{' '}
+                                <a
+                                  href="#"
+                                  onClick={e => {
+                                    e.preventDefault();
+                                    updateApiKey(k.id, { invalid: false, invalidReason: undefined });
+                                  }}
+                                  style={{ color: '#667eea' }}
+                                >
+                                  আবার চালু
+                                </a>
+                              </span>
+                            ) : (
+                              <span style={{ color: keyInfo.isLimited ? '#dc2626' : '#16a34a' }}>
+                                আজ {keyInfo.count}/{keyInfo.limit}
                               </span>
                             )}
                           </div>
-                          <div style={{ fontSize: '10px', color: '#6b7280', marginTop: '2px' }}>
-                            {opt.desc} • দৈনিক {opt.rpd}টি
-                          </div>
                         </div>
-                        <div style={{ textAlign: 'right' }}>
-                          <div style={{ 
-                            fontSize: '11px', 
-                            fontWeight: 600,
-                            color: modelInfo.isLimited ? '#dc2626' : '#16a34a'
-                          }}>
-                            {modelInfo.remaining}/{safeLimit}
-                          </div>
-                          <div style={{ fontSize: '9px', color: '#6b7280' }}>
-                            বাকি
+                      );
+                    })}
+                  </div>
+                  <button onClick={addApiKey} className="btn-add-key">
+                    + আরেকটি Key যোগ করুন
+                  </button>
+                  {apiKeys.length > 1 && (
+                    <>
+                      <label>🔄 Key বাছাইয়ের নিয়ম</label>
+                      <select
+                        value={keyRotation}
+                        onChange={e => setKeyRotationState(e.target.value as KeyRotation)}
+                      >
+                        <option value="round-robin">পালাক্রমে (round-robin)</option>
+                        <option value="least-used">সবচেয়ে কম ব্যবহৃত</option>
+                      </select>
+                    </>
+                  )}
+                  <p style={{ fontSize: '10px', color: '#6b7280', marginTop: '2px', marginBottom: '12px' }}>
+                    একটি Key-এর কোটা শেষ বা অবৈধ হলে পরেরটি ব্যবহার হয়।{' '}
+                    <a 
+                      href="https://aistudio.google.com/app/apikey" 
+                      target="_blank" 
+                      rel="noopener noreferrer"
+                      style={{ color: '#667eea' }}
+                    >
+                      API Key তৈরি করুন →
+                    </a>
+                  </p>
+                  </>
+                  )}
+                </>
+              ) : (
+                <>
+                  <label>
+                    🔑 {providerOption.name} API Key
+                    {!provider.requiresApiKey && (
+                      <span style={{ fontWeight: 400, fontSize: '10px', color: '#6b7280' }}> (ঐচ্ছিক)</span>
+                    )}
+                  </label>
+                  {keysLocked ? unlockForm : (
+                    <input
+                      type="password"
+                      value={apiKey}
+                      onChange={e => setApiKey(e.target.value)}
+                      placeholder="আপনার API Key এখানে দিন"
+                    />
+                  )}
+                </>
+              )}
+
+              {/* Custom endpoint (non-Gemini providers) */}
+              {providerId !== 'gemini' && (
+                <>
+                  <label>🔗 Base URL</label>
+                  <input
+                    type="text"
+                    value={providerBaseUrl}
+                    onChange={e => setProviderBaseUrl(e.target.value)}
+                    placeholder={providerOption.defaultBaseUrl}
+                  />
+                  <label>🤖 মডেলের নাম</label>
+                  <input
+                    type="text"
+                    value={customModel}
+                    onChange={e => setCustomModel(e.target.value)}
+                    placeholder={providerOption.defaultModel}
+                  />
+                </>
+              )}
+
+              {/* Model Selection with Dynamic Info */}
+              {providerId === 'gemini' && (
+                <>
+                  <label>🤖 AI Model</label>
+                  <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', marginBottom: '12px' }}>
+                    {availableModels.map(opt => {
+                      const modelInfo = getRateLimitInfo(opt.id);
+                      return (
+                        <div
+                          key={opt.id}
+                          onClick={() => setSelectedModel(opt.id)}
+                          style={{
+                            padding: '10px 12px',
+                            border: selectedModel === opt.id ? '2px solid #667eea' : '1px solid #e5e7eb',
+                            borderRadius: '8px',
+                            cursor: 'pointer',
+                            background: selectedModel === opt.id ? '#eef2ff' : 'white',
+                            transition: 'all 0.2s'
+                          }}
+                        >
+                          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                            <div>
+                              <div style={{ fontWeight: 600, fontSize: '13px' }}>
+                                {opt.name}
+                                {opt.badge && (
+                                  <span style={{ 
+                                    marginLeft: '6px', 
+                                    fontSize: '10px', 
+                                    background: '#fef3c7', 
+                                    padding: '2px 6px', 
+                                    borderRadius: '4px' 
+                                  }}>
+                                    {opt.badge}
+                                  </span>
+                                )}
+                              </div>
+                              <div style={{ fontSize: '10px', color: '#6b7280', marginTop: '2px' }}>
+                                {opt.desc} • দৈনিক {opt.rpd}টি
+                              </div>
+                            </div>
+                            <div style={{ textAlign: 'right' }}>
+                              <div style={{ 
+                                fontSize: '11px', 
+                                fontWeight: 600,
+                                color: modelInfo.isLimited ? '#dc2626' : '#16a34a'
+                              }}>
+                                {modelInfo.remaining}/{modelInfo.limit}
+                              </div>
+                              <div style={{ fontSize: '9px', color: '#6b7280' }}>
+                                বাকি
+                              </div>
+                            </div>
                           </div>
                         </div>
-                      </div>
+                      );
+                    })}
+                  </div>
+
+                  <p style={{ fontSize: '10px', color: '#6b7280', marginTop: '-6px', marginBottom: '12px' }}>
+                    {modelDiscovery ? (
+                      <>
+                        🔎 Key যাচাই করে পাওয়া তালিকা ({new Date(modelDiscovery.verifiedAt).toLocaleDateString()}){' '}
+                        <a
+                          href="#"
+                          onClick={e => {
+                            e.preventDefault();
+                            resetModelDiscovery();
+                          }}
+                          style={{ color: '#667eea' }}
+                        >
+                          ডিফল্ট তালিকা
+                        </a>
+                      </>
+                    ) : (
+                      'Key-এর পাশে ✓ চাপলে আপনার Key যে মডেলগুলো ব্যবহার করতে পারে সেই তালিকা আসবে।'
+                    )}
+                  </p>
+
+                  {/* Fallback chain */}
+                  <label style={{ display: 'flex', alignItems: 'center', gap: '8px', cursor: 'pointer' }}>
+                    <input
+                      type="checkbox"
+                      checked={fallbackEnabled}
+                      onChange={e => setFallbackEnabled(e.target.checked)}
+                      style={{ width: 'auto', margin: 0 }}
+                    />
+                    🔁 কোটা শেষ হলে পরের মডেলে চালান
+                  </label>
+                  {fallbackEnabled && (
+                    <div style={{ display: 'flex', flexDirection: 'column', gap: '4px', marginBottom: '12px' }}>
+                      {orderedFallback.map((id, i) => (
+                        <div
+                          key={id}
+                          style={{
+                            display: 'flex',
+                            alignItems: 'center',
+                            gap: '6px',
+                            padding: '6px 10px',
+                            border: '1px solid #e5e7eb',
+                            borderRadius: '8px',
+                            fontSize: '12px',
+                            opacity: id === selectedModel ? 0.5 : 1
+                          }}
+                        >
+                          <span style={{ flex: 1 }}>
+                            {i + 1}. {getModelName(id)}
+                            {id === selectedModel && ' (নির্বাচিত)'}
+                          </span>
+                          <button
+                            onClick={() => moveFallbackModel(i, -1)}
+                            disabled={i === 0}
+                            className="order-btn"
+                          >
+                            ↑
+                          </button>
+                          <button
+                            onClick={() => moveFallbackModel(i, 1)}
+                            disabled={i === orderedFallback.length - 1}
+                            className="order-btn"
+                          >
+                            ↓
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </>
+              )}
+              {/* Output format */}
+              <label>📦 উত্তরের ফরম্যাট</label>
+              <div style={{ display: 'flex', gap: '6px', marginBottom: '12px' }}>
+                {OUTPUT_MODE_OPTIONS.map(opt => (
+                  <div
+                    key={opt.id}
+                    onClick={() => setOutputMode(opt.id)}
+                    style={{
+                      flex: 1,
+                      padding: '8px 6px',
+                      textAlign: 'center',
+                      border: outputMode === opt.id ? '2px solid #667eea' : '1px solid #e5e7eb',
+                      borderRadius: '8px',
+                      cursor: 'pointer',
+                      background: outputMode === opt.id ? '#eef2ff' : 'white',
+                      transition: 'all 0.2s'
+                    }}
+                  >
+                    <div style={{ fontWeight: 600, fontSize: '12px' }}>{opt.icon} {opt.title}</div>
+                    <div style={{ fontSize: '10px', color: '#6b7280' }}>{opt.desc}</div>
+                  </div>
+                ))}
+              </div>
+
+              {/* Confidence thresholds */}
+              <label>🎯 ন্যূনতম আস্থা</label>
+              <p style={{ fontSize: '10px', color: '#6b7280', marginTop: 0, marginBottom: '6px' }}>
+                এর কম আস্থার সাজেশন লুকানো থাকে - প্রতিটি বিভাগের নিচে "আরও দেখুন" চাপলে দেখা যাবে।
+              </p>
+              <div className="confidence-grid">
+                {CONFIDENCE_SECTIONS.map(section => {
+                  const category = SECTION_CATEGORY[section]!;
+                  return (
+                    <div key={section} className="confidence-row">
+                      <span>{SECTION_LABELS[section]}</span>
+                      <input
+                        type="range"
+                        min={0}
+                        max={100}
+                        step={5}
+                        value={confidenceThresholds[category]}
+                        onChange={e =>
+                          setConfidenceThresholds(prev => ({ ...prev, [category]: Number(e.target.value) }))
+                        }
+                      />
+                      <span className="confidence-value">{confidenceThresholds[category]}%</span>
                     </div>
                   );
                 })}
               </div>
+
+              {/* Self-verification */}
+              <label style={{ display: 'flex', alignItems: 'center', gap: '8px', cursor: 'pointer' }}>
+                <input
+                  type="checkbox"
+                  checked={verifyEnabled}
+                  onChange={e => setVerifyEnabledState(e.target.checked)}
+                  style={{ width: 'auto', margin: 0 }}
+                />
+                ✅ বানান ও শ্রুতিমধুরতা দ্বিতীয়বার যাচাই
+              </label>
+              <p style={{ fontSize: '10px', color: '#6b7280', marginTop: 0, marginBottom: '12px' }}>
+                শুধু সাজেশনগুলো বাক্যসহ আরেকটি ছোট request-এ পাঠিয়ে ভুল "সংশোধন" বাদ দেওয়া হয়। প্রতি বিশ্লেষণে একটি অতিরিক্ত request লাগে।
+              </p>
+
+              {/* Bangla Unicode normalization in the document */}
+              <label style={{ display: 'flex', alignItems: 'center', gap: '8px', cursor: 'pointer' }}>
+                <input
+                  type="checkbox"
+                  checked={unicodeFixEnabled}
+                  onChange={e => setUnicodeFixEnabledState(e.target.checked)}
+                  style={{ width: 'auto', margin: 0 }}
+                />
+                🔤 পরীক্ষার আগে ডকুমেন্টের ইউনিকোড ঠিক করা
+              </label>
+              <p style={{ fontSize: '10px', color: '#6b7280', marginTop: 0, marginBottom: '12px' }}>
+                য়/ড়/ঢ়-এর একক ও নুক্তাযুক্ত রূপ, ে+া → ো, ত্‍ → ৎ ও অপ্রয়োজনীয় ZWJ/ZWNJ এক মানক রূপে লেখা হয়। দেখতে একই থাকে; খোঁজা ও তুলনা এমনিতেই সব রূপ মেলায়।
+              </p>
+
+              {/* Multi-sample consensus */}
+              <label>🤝 সম্মতি মোড</label>
+              <div style={{ display: 'flex', gap: '8px' }}>
+                <select
+                  value={consensus.samples}
+                  onChange={e => {
+                    const samples = Number(e.target.value);
+                    setConsensus({ samples, minAgree: majorityOf(samples) });
+                  }}
+                  style={{ flex: 1 }}
+                >
+                  {CONSENSUS_SAMPLE_OPTIONS.map(n => (
+                    <option key={n} value={n}>{n === 1 ? 'বন্ধ' : `${n}টি নমুনা`}</option>
+                  ))}
+                </select>
+                {consensus.samples > 1 && (
+                  <select
+                    value={consensus.minAgree}
+                    onChange={e => setConsensus(prev => ({ ...prev, minAgree: Number(e.target.value) }))}
+                    style={{ flex: 1 }}
+                  >
+                    {Array.from({ length: consensus.samples - 1 }, (_, i) => i + 2).map(n => (
+                      <option key={n} value={n}>কমপক্ষে {n}টিতে মিল</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+              <p style={{ fontSize: '10px', color: '#6b7280', marginTop: '2px', marginBottom: '12px' }}>
+                দাপ্তরিক চিঠির মতো গুরুত্বপূর্ণ লেখার জন্য: একই টেক্সট কয়েকবার বিশ্লেষণ করে শুধু বেশিরভাগ নমুনায় আসা সাজেশন দেখানো হয়। প্রতি নমুনায় একটি request লাগে।
+              </p>
+
+              {/* Key encryption */}
+              <label>🔒 Key সুরক্ষা</label>
+              {!isVaultSupported() ? (
+                <p style={{ fontSize: '10px', color: '#6b7280', marginTop: 0, marginBottom: '12px' }}>
+                  এই Office সংস্করণে এনক্রিপশন (WebCrypto) সমর্থিত নয়।
+                </p>
+              ) : vaultEnabled && keysLocked ? (
+                <p style={{ fontSize: '10px', color: '#6b7280', marginTop: 0, marginBottom: '12px' }}>
+                  Key এনক্রিপ্ট করা ও লক করা আছে - উপরে পাসফ্রেজ দিয়ে খুলুন।
+                </p>
+              ) : (
+                <div className="vault-box">
+                  <div style={{ fontSize: '11px', color: '#4b5563', marginBottom: '8px' }}>
+                    {vaultEnabled ? (
+                      <>
+                        ✅ Key পাসফ্রেজ দিয়ে এনক্রিপ্ট করা, এই সেশনে খোলা।{' '}
+                        <a
+                          href="#"
+                          onClick={e => {
+                            e.preventDefault();
+                            lockKeys();
+                          }}
+                          style={{ color: '#667eea' }}
+                        >
+                          এখনই লক করুন
+                        </a>
+                        {' • '}
+                        <a
+                          href="#"
+                          onClick={e => {
+                            e.preventDefault();
+                            disableKeyEncryption();
+                          }}
+                          style={{ color: '#dc2626' }}
+                        >
+                          এনক্রিপশন বন্ধ
+                        </a>
+                      </>
+                    ) : (
+                      'Key এখন সাধারণ localStorage-এ আছে। শেয়ার করা কম্পিউটারে পাসফ্রেজ দিয়ে এনক্রিপ্ট করুন - প্রতি সেশনে একবার খুলতে হবে।'
+                    )}
+                  </div>
+                  <div style={{ display: 'flex', gap: '6px' }}>
+                    <input
+                      type="password"
+                      value={passphrase}
+                      onChange={e => setPassphrase(e.target.value)}
+                      placeholder={vaultEnabled ? 'নতুন পাসফ্রেজ' : 'পাসফ্রেজ'}
+                      style={{ flex: 1, margin: 0 }}
+                    />
+                    <input
+                      type="password"
+                      value={passphraseConfirm}
+                      onChange={e => setPassphraseConfirm(e.target.value)}
+                      placeholder="আবার লিখুন"
+                      style={{ flex: 1, margin: 0 }}
+                    />
+                  </div>
+                  <button
+                    onClick={encryptKeys}
+                    disabled={vaultBusy || !passphrase}
+                    className="btn-vault"
+                    style={{ width: '100%', marginTop: '6px' }}
+                  >
+                    {vaultBusy ? '…' : vaultEnabled ? '🔁 পাসফ্রেজ বদলান' : '🔒 এনক্রিপ্ট করুন'}
+                  </button>
+                </div>
+              )}
+
+              {/* Roaming sync */}
+              <label style={{ display: 'flex', alignItems: 'center', gap: '8px', cursor: isRoamingAvailable() ? 'pointer' : 'not-allowed' }}>
+                <input
+                  type="checkbox"
+                  checked={roamingEnabled && isRoamingAvailable()}
+                  disabled={!isRoamingAvailable()}
+                  onChange={e => setRoamingEnabledState(e.target.checked)}
+                  style={{ width: 'auto', margin: 0 }}
+                />
+                💾 সেটিংস ডকুমেন্টে সংরক্ষণ
+              </label>
+              <p style={{ fontSize: '10px', color: '#6b7280', marginTop: 0, marginBottom: '12px' }}>
+                {isRoamingAvailable()
+                  ? 'মডেল ও ফরম্যাট এই ডকুমেন্টের ভেতরে সংরক্ষিত হয় (ব্যবহারকারী অনুযায়ী নয়) - ডকুমেন্টটি যে খোলে সেই সেটিংস তার কাছে আসে। Provider, সার্ভারের ঠিকানা ও API Key কখনো ডকুমেন্টে যায় না।'
+                  : 'এই Office অ্যাপে ডকুমেন্টের settings নেই - সেটিংস শুধু এই কম্পিউটারে থাকে।'}
+              </p>
+
+              <p style={{ fontSize: '10px', color: '#6b7280', marginTop: '4px' }}>
+                একই টেক্সট আবার পরীক্ষা করলে আগের ফলাফল ক্যাশ থেকে দেখানো হয়।{' '}
+                <a
+                  href="#"
+                  onClick={async e => {
+                    e.preventDefault();
+                    await clearAnalysisCache();
+                    showMessage('ক্যাশ মুছে ফেলা হয়েছে ✓', 'success');
+                  }}
+                  style={{ color: '#667eea' }}
+                >
+                  ক্যাশ মুছুন
+                </a>
+              </p>
               <div style={{ display: 'flex', gap: '10px', marginTop: '16px' }}>
                 <button onClick={saveSettings} className="btn-primary-full">
                   ✓ সংরক্ষণ
@@ -1170,6 +2334,269 @@ if (result.languageStyleMixing?.detected) {
         </div>
       )}
 
+      {/* Unlock Modal - এনক্রিপ্ট করা key থাকলে সেশনের শুরুতে */}
+      {activeModal === 'unlock' && (
+        <div className="modal-overlay" onClick={() => setActiveModal('none')}>
+          <div className="modal-content" onClick={e => e.stopPropagation()}>
+            <div className="modal-header settings-header">
+              <h3>🔒 Key খুলুন</h3>
+              <button onClick={() => setActiveModal('none')}>✕</button>
+            </div>
+            <div className="modal-body">
+              {unlockForm}
+              <p style={{ fontSize: '10px', color: '#6b7280', marginTop: '8px' }}>
+                খোলা Key শুধু এই taskpane-এর মেমরিতে থাকে, বন্ধ করলে আবার পাসফ্রেজ লাগবে।
+                পাসফ্রেজ ভুলে গেলে সেটিংস থেকে Key আবার দিতে হবে।
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Usage Dashboard Modal */}
+      {activeModal === 'usage' && usageSummary && (
+        <div className="modal-overlay" onClick={() => setActiveModal('none')}>
+          <div className="modal-content" onClick={e => e.stopPropagation()}>
+            <div className="modal-header usage-header">
+              <h3>📊 ব্যবহার ড্যাশবোর্ড</h3>
+              <button onClick={() => setActiveModal('none')}>✕</button>
+            </div>
+            <div className="modal-body">
+              {usageSummary.requests === 0 ? (
+                <div className="empty-state" style={{ padding: '24px 8px' }}>
+                  গত {usageSummary.days.length} দিনে কোনো request হয়নি
+                </div>
+              ) : (
+                <>
+                  <div className="stats-grid">
+                    <div className="stat-card">
+                      <div className="val" style={{ color: '#667eea' }}>{usageSummary.requests}</div>
+                      <div className="lbl">request ({usageSummary.days.length} দিন)</div>
+                    </div>
+                    <div className="stat-card">
+                      <div className="val" style={{ color: '#dc2626' }}>
+                        {Math.round(usageSummary.failureRate * 100)}%
+                      </div>
+                      <div className="lbl">ব্যর্থতার হার</div>
+                    </div>
+                    <div className="stat-card">
+                      <div className="val" style={{ color: '#16a34a' }}>
+                        {(usageSummary.avgLatencyMs / 1000).toFixed(1)}s
+                      </div>
+                      <div className="lbl">গড় সময়</div>
+                    </div>
+                  </div>
+
+                  {/* Per-day chart */}
+                  <label>📅 দিন অনুযায়ী</label>
+                  {(() => {
+                    const maxRequests = Math.max(1, ...usageSummary.days.map(d => d.requests));
+                    return (
+                      <div className="usage-chart">
+                        {usageSummary.days.map(day => (
+                          <div
+                            key={day.date}
+                            className="usage-day"
+                            title={`${day.date}: ${day.requests}টি request, ${day.failures}টি ব্যর্থ, ${day.inputTokens + day.outputTokens} token`}
+                          >
+                            <div className="usage-bar-wrap">
+                              <div className="usage-bar" style={{ height: `${(day.requests / maxRequests) * 100}%` }}>
+                                <div
+                                  className="usage-bar-fail"
+                                  style={{ height: day.requests > 0 ? `${(day.failures / day.requests) * 100}%` : 0 }}
+                                />
+                              </div>
+                            </div>
+                            <div className="usage-day-label">{Number(day.date.slice(-2))}</div>
+                          </div>
+                        ))}
+                      </div>
+                    );
+                  })()}
+                  <div className="usage-legend">
+                    <span><i style={{ background: '#818cf8' }} /> সফল</span>
+                    <span><i style={{ background: '#f87171' }} /> ব্যর্থ</span>
+                  </div>
+
+                  {/* Per-model stats */}
+                  <label>🤖 মডেল অনুযায়ী</label>
+                  {(() => {
+                    const maxRequests = Math.max(1, ...usageSummary.models.map(m => m.requests));
+                    return usageSummary.models.map(m => (
+                      <div key={m.model} className="usage-model">
+                        <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '12px', fontWeight: 600 }}>
+                          <span>{getModelName(m.model)}</span>
+                          <span>{m.requests}টি</span>
+                        </div>
+                        <div className="usage-model-track">
+                          <div className="usage-model-fill" style={{ width: `${(m.requests / maxRequests) * 100}%` }} />
+                        </div>
+                        <div className="usage-model-meta">
+                          <span>⏱️ {(m.avgLatencyMs / 1000).toFixed(1)}s</span>
+                          <span style={{ color: m.failureRate > 0.2 ? '#dc2626' : undefined }}>
+                            ❌ {Math.round(m.failureRate * 100)}%
+                          </span>
+                          <span>🔤 {m.inputTokens.toLocaleString()} / {m.outputTokens.toLocaleString()} token</span>
+                        </div>
+                      </div>
+                    ));
+                  })()}
+                </>
+              )}
+
+              <p style={{ fontSize: '10px', color: '#6b7280', marginTop: '12px' }}>
+                লগ শুধু এই কম্পিউটারে থাকে (সর্বোচ্চ ৯০ দিন)। retry-র প্রতিটি চেষ্টা আলাদা request হিসেবে গোনা হয়।{' '}
+                <a
+                  href="#"
+                  onClick={e => {
+                    e.preventDefault();
+                    clearUsageLog();
+                    setUsageLogVersion(v => v + 1);
+                  }}
+                  style={{ color: '#667eea' }}
+                >
+                  লগ মুছুন
+                </a>
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Developer Panel Modal */}
+      {activeModal === 'developer' && (
+        <div className="modal-overlay" onClick={() => setActiveModal('none')}>
+          <div className="modal-content" onClick={e => e.stopPropagation()}>
+            <div className="modal-header dev-header">
+              <h3>🛠️ ডেভেলপার প্যানেল</h3>
+              <button onClick={() => setActiveModal('none')}>✕</button>
+            </div>
+            <div className="modal-body">
+              <div style={{ display: 'flex', gap: '8px', marginBottom: '16px' }}>
+                <button className="btn-vault" onClick={copyDebugBundle}>📋 Debug bundle কপি</button>
+                <select
+                  value={logLevel}
+                  onChange={e => {
+                    const level = e.target.value as LogLevel;
+                    setLogLevel(level);
+                    setLogLevelState(level);
+                  }}
+                  title="Console-এ কোন স্তর থেকে লগ দেখানো হবে"
+                  style={{ flex: 1, padding: '6px', fontSize: '12px', borderRadius: '8px', border: '1px solid #e5e7eb' }}
+                >
+                  {LOG_LEVELS.map(level => (
+                    <option key={level} value={level}>console: {level}</option>
+                  ))}
+                </select>
+              </div>
+
+              {!debugRun ? (
+                <div className="empty-state" style={{ padding: '24px 8px' }}>
+                  এই সেশনে এখনো কোনো বিশ্লেষণ হয়নি
+                </div>
+              ) : (
+                <>
+                  <label>⏱️ শেষ বিশ্লেষণ</label>
+                  <div className="dev-meta">
+                    <span>{new Date(debugRun.t).toLocaleTimeString()}</span>
+                    <span>{debugRun.wordCount} শব্দ</span>
+                    <span>{debugRun.requests.length}টি request</span>
+                    <span>মোট {(debugRun.totalMs / 1000).toFixed(1)}s</span>
+                  </div>
+                  {debugRun.error && <div className="dev-error">❌ {debugRun.error}</div>}
+
+                  {debugRun.requests.map((req, i) => (
+                    <div key={i} className="dev-request">
+                      <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '12px', fontWeight: 600 }}>
+                        <span>
+                          #{i + 1} {getModelName(req.model)} · {req.kind === 'verification' ? 'যাচাই' : req.outputMode.toUpperCase()}
+                          {req.sample && ` · নমুনা ${req.sample}`}
+                        </span>
+                        <span className={`dev-status dev-status-${req.status}`}>
+                          {req.status}{req.httpStatus ? ` ${req.httpStatus}` : ''}
+                        </span>
+                      </div>
+                      <div className="dev-meta">
+                        <span>অপেক্ষা {req.timing.waitMs}ms</span>
+                        <span>প্রথম টেক্সট {req.timing.firstChunkMs ?? '-'}ms</span>
+                        <span>মোট {req.timing.totalMs}ms</span>
+                        <span>parse {req.timing.parseMs}ms</span>
+                      </div>
+                      <div className="dev-meta">
+                        {Object.entries(req.sectionCounts).map(([section, count]) => (
+                          <span key={section}>{section}: {count}</span>
+                        ))}
+                      </div>
+                      {req.warnings.length > 0 && (
+                        <ul className="dev-list">
+                          {req.warnings.map((w, j) => (
+                            <li key={j}>line {w.line}{w.section ? ` [${w.section}]` : ''}: {w.reason}</li>
+                          ))}
+                        </ul>
+                      )}
+                      {req.diagnostics.length > 0 && (
+                        <ul className="dev-list">
+                          {req.diagnostics.map((d, j) => (
+                            <li key={j}>{d.path}: {d.reason}</li>
+                          ))}
+                        </ul>
+                      )}
+                      {req.prompt && (
+                        <details>
+                          <summary>Prompt ({req.prompt.length} অক্ষর)</summary>
+                          <pre className="dev-pre">{req.prompt}</pre>
+                        </details>
+                      )}
+                      {req.rawResponse && (
+                        <details>
+                          <summary>কাঁচা উত্তর ({req.rawResponse.length} অক্ষর)</summary>
+                          <pre className="dev-pre">{req.rawResponse}</pre>
+                        </details>
+                      )}
+                    </div>
+                  ))}
+
+                  {debugRun.dropped.length > 0 && (
+                    <>
+                      <label>🗑️ বাদ পড়া সাজেশন ({debugRun.dropped.length})</label>
+                      <ul className="dev-list">
+                        {debugRun.dropped.map((d, i) => (
+                          <li key={i}>[{d.section}] "{d.text}" - {d.reason}</li>
+                        ))}
+                      </ul>
+                    </>
+                  )}
+                </>
+              )}
+
+              <label style={{ marginTop: '16px' }}>📜 লগ (শেষ {devLogs.length}টি)</label>
+              <div className="dev-log">
+                {devLogs.map((entry, i) => (
+                  <div key={i} className={`dev-log-${entry.level}`}>
+                    {new Date(entry.t).toLocaleTimeString()} [{entry.scope}] {entry.message}
+                    {entry.data && <span className="dev-log-data"> {entry.data}</span>}
+                  </div>
+                ))}
+              </div>
+              <p style={{ fontSize: '10px', color: '#6b7280', marginTop: '8px' }}>
+                Bundle-এ prompt ও ডকুমেন্টের টেক্সট থাকে, API Key থাকে না।{' '}
+                <a
+                  href="#"
+                  onClick={e => {
+                    e.preventDefault();
+                    clearLogEntries();
+                    setDevLogVersion(v => v + 1);
+                  }}
+                  style={{ color: '#667eea' }}
+                >
+                  লগ মুছুন
+                </a>
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Instructions Modal */}
       {activeModal === 'instructions' && (
         <div className="modal-overlay" onClick={() => setActiveModal('none')}>
@@ -1261,6 +2688,13 @@ if (result.languageStyleMixing?.detected) {
                   {selectedStyle === opt.id && <div className="check-mark">✓</div>}
                 </div>
               ))}
+              <p style={{ fontSize: '10px', color: '#6b7280', marginTop: '12px', marginBottom: '6px' }}>
+                ⚡ API ছাড়াই এখনই রূপান্তর (চেনা ক্রিয়া ও সর্বনাম):
+              </p>
+              <div style={{ display: 'flex', gap: '8px' }}>
+                <button className="suggestion-btn" onClick={() => convertPassage('sadhu')}>📜 সাধু রীতিতে</button>
+                <button className="suggestion-btn" onClick={() => convertPassage('cholito')}>💬 চলিত রীতিতে</button>
+              </div>
             </div>
           </div>
         </div>
@@ -2,9 +2,13 @@
 import ReactDOM from 'react-dom/client';
 import App from './App';
 import './index.css';
+import { pullRoamingSettings } from './utils/roaming';
 
 // Office Add-in ইনিশিয়ালাইজেশন
 Office.onReady(() => {
+  // ডকুমেন্টে সংরক্ষিত সেটিংস (চালু থাকলে) - App-এর state তৈরির আগে
+  pullRoamingSettings();
+
   const rootElement = document.getElementById('root');
   if (rootElement) {
     const root = ReactDOM.createRoot(rootElement);
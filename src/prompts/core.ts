@@ -85,7 +85,7 @@ export const getToneName = (tone: string): string => {
 };
 
 /**
- * Model Options with limits info
+ * Model Options with limits info (Free Tier)
  */
 export interface ModelOption {
   id: string;
@@ -93,9 +93,15 @@ export interface ModelOption {
   desc: string;
   rpm: number;
   rpd: number;
+  tpm: number;
   badge: string;
 }
 
+/**
+ * অজানা (API থেকে পাওয়া নতুন) মডেলের জন্য নিরাপদ ধরে নেওয়া limit
+ */
+export const DEFAULT_MODEL_LIMITS = { rpm: 5, rpd: 20, tpm: 250000 };
+
 export const MODEL_OPTIONS: ModelOption[] = [
   { 
     id: 'gemini-2.5-flash', 
@@ -103,6 +109,7 @@ export const MODEL_OPTIONS: ModelOption[] = [
     desc: 'সেরা মান',
     rpm: 5,
     rpd: 20,
+    tpm: 250000,
     badge: '⭐ প্রস্তাবিত'
   },
   { 
@@ -111,6 +118,7 @@ export const MODEL_OPTIONS: ModelOption[] = [
     desc: 'দ্রুত',
     rpm: 10,
     rpd: 20,
+    tpm: 250000,
     badge: '⚡ দ্রুত'
   },
   { 
@@ -119,10 +127,79 @@ export const MODEL_OPTIONS: ModelOption[] = [
     desc: 'বেশি limit',
     rpm: 15,
     rpd: 1500,
+    tpm: 1000000,
     badge: '🔓 1500/day'
   }
 ];
 
+/**
+ * কোটা শেষ হলে কোন ক্রমে অন্য মডেলে যাবে (ডিফল্ট)
+ */
+export const DEFAULT_FALLBACK_ORDER: string[] = MODEL_OPTIONS.map(m => m.id);
+
+/**
+ * LLM Provider টাইপ
+ */
+export type ProviderId = 'gemini' | 'openai' | 'local';
+
+/**
+ * Provider Options (সেটিংসে মডেলের পাশে দেখানো হয়)
+ */
+export interface ProviderOption {
+  id: ProviderId;
+  icon: string;
+  name: string;
+  desc: string;
+  defaultBaseUrl: string;
+  defaultModel: string;
+}
+
+export const PROVIDER_OPTIONS: ProviderOption[] = [
+  {
+    id: 'gemini',
+    icon: '✨',
+    name: 'Google Gemini',
+    desc: 'ডিফল্ট - ফ্রি টিয়ার',
+    defaultBaseUrl: 'https://generativelanguage.googleapis.com/v1beta',
+    defaultModel: 'gemini-2.5-flash'
+  },
+  {
+    id: 'openai',
+    icon: '🔌',
+    name: 'OpenAI-compatible',
+    desc: 'OpenAI, OpenRouter, llama.cpp server (/v1)',
+    defaultBaseUrl: 'https://api.openai.com/v1',
+    defaultModel: 'gpt-4o-mini'
+  },
+  {
+    id: 'local',
+    icon: '🖥️',
+    name: 'লোকাল সার্ভার',
+    desc: 'Ollama-style /api/generate',
+    defaultBaseUrl: 'http://localhost:11434',
+    defaultModel: 'llama3.1'
+  }
+];
+
+/**
+ * মডেলের উত্তরের ফরম্যাট
+ * - toon: নিজস্ব @SECTION টেক্সট (streaming-এ section ধরে ফলাফল দেখায়)
+ * - json: schema-নির্দিষ্ট JSON (provider-এর structured output, যাচাইসহ)
+ */
+export type OutputMode = 'toon' | 'json';
+
+export interface OutputModeOption {
+  id: OutputMode;
+  icon: string;
+  title: string;
+  desc: string;
+}
+
+export const OUTPUT_MODE_OPTIONS: OutputModeOption[] = [
+  { id: 'toon', icon: '📄', title: 'TOON', desc: 'দ্রুত, section ধরে ফলাফল' },
+  { id: 'json', icon: '🧩', title: 'JSON', desc: 'Schema দিয়ে যাচাই করা' }
+];
+
 /**
  * Tone Options
  */
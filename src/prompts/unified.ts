@@ -1,14 +1,22 @@
 // src/prompts/unified.ts
 
-import { DocType, DOC_TYPE_CONFIG } from './core';
+import { DocType, DOC_TYPE_CONFIG, OutputMode } from './core';
 
 export interface UnifiedPromptOptions {
   text: string;
   docType: DocType;
   style?: 'sadhu' | 'cholito' | 'none' | '';
   tone?: string;
+  /** উত্তরের ফরম্যাট (ডিফল্ট TOON) */
+  outputMode?: OutputMode;
 }
 
+/**
+ * Prompt-এর সংস্করণ - prompt বা parser-এর ফরম্যাট বদলালে বাড়াতে হবে
+ * (ক্যাশ করা পুরনো ফলাফল তখন আর ব্যবহার হয় না)
+ */
+export const PROMPT_VERSION = 'unified-v5';
+
 const toneDescriptions: Record<string, string> = {
   'formal': 'আনুষ্ঠানিক - আপনি/আপনার ব্যবহার করুন',
   'informal': 'অনানুষ্ঠানিক - তুমি/তোমার ব্যবহার করুন',
@@ -24,6 +32,10 @@ const toneDescriptions: Record<string, string> = {
  * সব কিছু একটি prompt-এ - একটি মাত্র API call
  */
 export const buildUnifiedPrompt = (options: UnifiedPromptOptions): string => {
+  if (options.outputMode === 'json') {
+    return buildUnifiedJsonPrompt(options);
+  }
+
   const { text, docType, style, tone } = options;
   const docCfg = DOC_TYPE_CONFIG[docType];
 
@@ -38,8 +50,8 @@ export const buildUnifiedPrompt = (options: UnifiedPromptOptions): string => {
     styleSection = `
 @STYLE
 ${styleDesc}
-করিয়াছি|করেছি|ক্রিয়াপদ|5
-তাহার|তার|সর্বনাম|10`;
+করিয়াছি|করেছি|ক্রিয়াপদ|95|5
+তাহার|তার|সর্বনাম|90|10`;
   }
 
   let toneSection = '';
@@ -47,7 +59,7 @@ ${styleDesc}
     toneSection = `
 @TONE
 ${toneDescriptions[tone]}
-তুমি|আপনি|সম্মানসূচক|0`;
+তুমি|আপনি|সম্মানসূচক|85|0`;
   }
 
   return `আপনি একজন দক্ষ বাংলা ভাষা বিশেষজ্ঞ এবং প্রুফরিডার।
@@ -66,14 +78,34 @@ ${text}
 ═══════════════════════════════════════════════════════════
 শুধু নিশ্চিত বানান ভুল খুঁজুন (সর্বোচ্চ ${maxSpellingErrors}টি)
 
-ফরম্যাট: ভুল_শব্দ|সঠিক১,সঠিক২|position
+ফরম্যাট: ভুল_শব্দ|সঠিক১,সঠিক২|আস্থা|position
 
 উদাহরণ:
-ব্যাথা|ব্যথা|15
-কারনে|কারণে|23
+ব্যাথা|ব্যথা|98|15
+কারনে|কারণে|95|23
 
 ═══════════════════════════════════════════════════════════
-📋 SECTION 2: @PUNCTUATION (বিরাম চিহ্ন) ⚠️ অবশ্যই পূরণ করুন
+📋 SECTION 2: @GRAMMAR (ব্যাকরণ)
+═══════════════════════════════════════════════════════════
+বানান ঠিক থাকলেও ব্যাকরণগত ভুল খুঁজুন:
+
+১. কর্তা-ক্রিয়া অসঙ্গতি (যেমন: "আমি যাবে" → "আমি যাব")
+২. ভুল বিভক্তি (যেমন: "তাকে বই দিলাম" বনাম "তার বই দিলাম" - অর্থ অনুযায়ী)
+৩. একই বাক্যে কালের অসঙ্গতি (যেমন: "সে গতকাল আসবে")
+৪. বাহুল্য বা দ্বিরুক্তি (যেমন: "সকল ছাত্রগণ" → "সকল ছাত্র" বা "ছাত্রগণ")
+
+ফরম্যাট: ভুল_অংশ|সংশোধিত_অংশ|ধরন|ব্যাখ্যা|আস্থা|position
+(ধরন: কর্তা-ক্রিয়া / বিভক্তি / কাল / বাহুল্য)
+
+উদাহরণ:
+আমি যাবে|আমি যাব|কর্তা-ক্রিয়া|উত্তম পুরুষের সাথে "যাব"|95|4
+সকল ছাত্রগণ|সকল ছাত্র|বাহুল্য|"সকল" ও "গণ" একসাথে বাহুল্য|90|12
+গতকাল আসবে|গতকাল এসেছিল|কাল|অতীতের সময়ে ভবিষ্যৎ কাল|85|20
+
+⚠️ শুধু ব্যাকরণ - বানান ভুল @SPELLING-এ, বিরাম চিহ্ন @PUNCTUATION-এ দিন
+
+═══════════════════════════════════════════════════════════
+📋 SECTION 3: @PUNCTUATION (বিরাম চিহ্ন) ⚠️ অবশ্যই পূরণ করুন
 ═══════════════════════════════════════════════════════════
 প্রতিটি বাক্য পরীক্ষা করুন:
 
@@ -88,6 +120,7 @@ issue:সমস্যার বর্ণনা
 cur:বর্তমান বাক্য (হুবহু টেক্সট থেকে)
 fix:সংশোধিত বাক্য
 exp:কেন এটি প্রয়োজন
+conf:আস্থা
 pos:বাক্যের প্রথম শব্দের position
 ---
 
@@ -96,18 +129,21 @@ issue:বাক্যের শেষে দাঁড়ি নেই
 cur:আমি বাজারে গিয়েছি
 fix:আমি বাজারে গিয়েছি।
 exp:পূর্ণ বাক্যের শেষে দাঁড়ি আবশ্যক
+conf:95
 pos:0
 ---
 issue:প্রশ্নবোধক চিহ্ন নেই
 cur:তুমি কোথায় যাচ্ছ
 fix:তুমি কোথায় যাচ্ছ?
 exp:প্রশ্নবাচক বাক্যে প্রশ্নচিহ্ন প্রয়োজন
+conf:90
 pos:8
 ---
 issue:তালিকায় কমা নেই
 cur:আম জাম কাঁঠাল লিচু
 fix:আম, জাম, কাঁঠাল, লিচু
 exp:তালিকার প্রতিটি আইটেমের পরে কমা দিতে হয়
+conf:80
 pos:15
 
 ⚠️ গুরুত্বপূর্ণ: 
@@ -116,7 +152,7 @@ pos:15
 - কমপক্ষে ৩-৫টি সমস্যা খুঁজুন (যদি থাকে)
 
 ═══════════════════════════════════════════════════════════
-📋 SECTION 3: @EUPHONY (শ্রুতিমধুরতা) ⚠️ অবশ্যই পূরণ করুন
+📋 SECTION 4: @EUPHONY (শ্রুতিমধুরতা) ⚠️ অবশ্যই পূরণ করুন
 ═══════════════════════════════════════════════════════════
 খুঁজুন:
 ১. একই শব্দ পুনরাবৃত্তি (যেমন: "অনেক অনেক", "সব সব")
@@ -124,18 +160,18 @@ pos:15
 ৩. দীর্ঘ জটিল বাক্য
 ৪. একই বাক্যে একই শব্দ বারবার
 
-ফরম্যাট: শব্দ/বাক্যাংশ|বিকল্প১,বিকল্প২|কারণ|position
+ফরম্যাট: শব্দ/বাক্যাংশ|বিকল্প১,বিকল্প২|কারণ|আস্থা|position
 
 উদাহরণ:
-অনেক অনেক|অনেক,খুব|শব্দ পুনরাবৃত্তি এড়ান|5
-অত্যধিক|খুব,বেশি,অনেক|সহজ শব্দ বেশি বোধগম্য|12
-সব সব|সব,সমস্ত|অপ্রয়োজনীয় পুনরাবৃত্তি|20
-বারবার|পুনরায়,আবার|একই শব্দ এড়ান|25
+অনেক অনেক|অনেক,খুব|শব্দ পুনরাবৃত্তি এড়ান|90|5
+অত্যধিক|খুব,বেশি,অনেক|সহজ শব্দ বেশি বোধগম্য|60|12
+সব সব|সব,সমস্ত|অপ্রয়োজনীয় পুনরাবৃত্তি|85|20
+বারবার|পুনরায়,আবার|একই শব্দ এড়ান|50|25
 
 ⚠️ কমপক্ষে ৩-৫টি শ্রুতিমধুরতা উন্নতির সাজেশন দিন (যদি থাকে)
 
 ═══════════════════════════════════════════════════════════
-📋 SECTION 4: @MIXING (ভাষারীতি মিশ্রণ)
+📋 SECTION 5: @MIXING (ভাষারীতি মিশ্রণ)
 ═══════════════════════════════════════════════════════════
 সাধু ও চলিত মিশ্রিত আছে কিনা দেখুন
 
@@ -143,11 +179,11 @@ detected:true/false
 style:চলিত/সাধু
 reason:কারণ
 @CORRECTIONS
-গিয়াছিলাম|গিয়েছিলাম|সাধু→চলিত|3
-বলিলেন|বললেন|সাধু→চলিত|10
+গিয়াছিলাম|গিয়েছিলাম|সাধু→চলিত|95|3
+বলিলেন|বললেন|সাধু→চলিত|95|10
 
 ═══════════════════════════════════════════════════════════
-📋 SECTION 5: @CONTENT (কনটেন্ট বিশ্লেষণ) ⚠️ বাধ্যতামূলক
+📋 SECTION 6: @CONTENT (কনটেন্ট বিশ্লেষণ) ⚠️ বাধ্যতামূলক
 ═══════════════════════════════════════════════════════════
 ${docCfg.contentHint}
 
@@ -174,6 +210,9 @@ ${toneSection}
 @SPELLING
 [বানান ভুল এখানে - না থাকলে খালি]
 
+@GRAMMAR
+[ব্যাকরণগত ভুল এখানে - না থাকলে খালি]
+
 @PUNCTUATION
 [বিরাম চিহ্ন সমস্যা এখানে - প্রতিটি --- দিয়ে আলাদা]
 
@@ -198,6 +237,52 @@ tips:
 5. প্রতিটি section এর হেডার (@SECTION) অবশ্যই দিন
 6. pos = 0-based word index (প্রথম শব্দ = 0)
 7. শব্দ হুবহু টেক্সট থেকে কপি করুন
+8. ফিল্ডের ভেতরে | লিখতে \\|, key-এর মানে : লিখতে \\:, তালিকার একটি আইটেমে কমা লিখতে \\, দিন
+9. লাইন @ দিয়ে শুরু হলে (হেডার নয়) \\@ লিখুন
+10. আস্থা = 0-100 পূর্ণসংখ্যা - আপনি কতটা নিশ্চিত যে এটি সত্যিই ভুল/উন্নতি (নিশ্চিত ভুল 90+, রুচির ব্যাপার 50-এর নিচে)
 
 এখন শুরু করুন - সব sections পূরণ করুন:`;
 };
+
+/**
+ * JSON মোডের prompt - ফরম্যাট request-এর schema থেকে আসে, তাই এখানে শুধু কাজের বিবরণ
+ */
+const buildUnifiedJsonPrompt = (options: UnifiedPromptOptions): string => {
+  const { text, docType, style, tone } = options;
+  const docCfg = DOC_TYPE_CONFIG[docType];
+
+  const wordCount = text.trim().split(/\s+/).filter(Boolean).length;
+  const maxSpellingErrors = Math.min(50, Math.ceil(wordCount * 0.3));
+
+  const styleTask = style && style !== 'none'
+    ? `- styleConversions: ${style === 'sadhu' ? 'সাধু' : 'চলিত'} রীতিতে রূপান্তরের জন্য শব্দ (type: ক্রিয়াপদ/সর্বনাম/অব্যয়)`
+    : '- styleConversions: খালি অ্যারে []';
+  const toneTask = tone && toneDescriptions[tone]
+    ? `- toneConversions: ${toneDescriptions[tone]} (reason: কেন পরিবর্তন)`
+    : '- toneConversions: খালি অ্যারে []';
+
+  return `আপনি একজন দক্ষ বাংলা ভাষা বিশেষজ্ঞ এবং প্রুফরিডার।
+${docCfg.mainHint}
+
+📝 বিশ্লেষণের জন্য টেক্সট (${wordCount} শব্দ):
+═══════════════════════════════════════════════════════════
+${text}
+═══════════════════════════════════════════════════════════
+
+🎯 দেওয়া JSON schema অনুযায়ী উত্তর দিন - প্রতিটি ফিল্ড:
+- spellingErrors: শুধু নিশ্চিত বানান ভুল (সর্বোচ্চ ${maxSpellingErrors}টি), suggestions-এ সঠিক বানান
+- grammarIssues: কর্তা-ক্রিয়া অসঙ্গতি, ভুল বিভক্তি, কালের অসঙ্গতি, বাহুল্য (যেমন "সকল ছাত্রগণ") - current টেক্সট থেকে হুবহু, correction সংশোধিত অংশ, type: কর্তা-ক্রিয়া/বিভক্তি/কাল/বাহুল্য
+- punctuationIssues: দাঁড়ি, প্রশ্নচিহ্ন, বিস্ময়চিহ্ন, কমার সমস্যা - currentSentence টেক্সট থেকে হুবহু, correctedSentence সংশোধিত
+- euphonyImprovements: শব্দ পুনরাবৃত্তি, কঠিন/ভারী শব্দ, দীর্ঘ জটিল বাক্য - suggestions-এ সহজ বিকল্প
+- languageStyleMixing: সাধু ও চলিত মিশ্রিত হলে detected=true, recommendedStyle, reason ও corrections (type: সাধু→চলিত বা চলিত→সাধু)
+${styleTask}
+${toneTask}
+- contentAnalysis: ${docCfg.contentHint} (contentType, description, missingElements, suggestions)
+
+⚠️ নিয়ম:
+1. শব্দ ও বাক্য হুবহু টেক্সট থেকে কপি করুন
+2. position = 0-based word index (প্রথম শব্দ = 0)
+3. কিছু না পেলে খালি অ্যারে [] দিন, কিন্তু কোনো ফিল্ড বাদ দেবেন না
+4. প্রতিটি সাজেশনে confidence = 0-100 পূর্ণসংখ্যা - কতটা নিশ্চিত (নিশ্চিত ভুল 90+, রুচির ব্যাপার 50-এর নিচে)
+5. শুধু JSON দিন, অন্য কোনো লেখা নয়`;
+};
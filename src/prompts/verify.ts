@@ -0,0 +1,46 @@
+// src/prompts/verify.ts
+
+/**
+ * যাচাইয়ের জন্য একটি সাজেশন - বাক্যসহ
+ */
+export interface VerificationCandidate {
+  /** 1 থেকে ক্রমিক নম্বর - উত্তরে এটি দিয়েই রায় মেলানো হয় */
+  id: number;
+  category: 'spelling' | 'euphony';
+  original: string;
+  replacements: string[];
+  /** যে বাক্যে শব্দটি আছে */
+  context: string;
+}
+
+/**
+ * দ্বিতীয় (ছোট) call-এর prompt - পুরো টেক্সট নয়, শুধু সন্দেহভাজন সাজেশন ও তাদের বাক্য
+ */
+export const buildVerificationPrompt = (candidates: VerificationCandidate[]): string => {
+  const rows = candidates
+    .map(c =>
+      `${c.id}. [${c.category === 'spelling' ? 'বানান' : 'শ্রুতিমধুরতা'}] "${c.original}" → ${c.replacements.map(r => `"${r}"`).join(' / ')}\n   বাক্য: ${c.context}`
+    )
+    .join('\n');
+
+  return `আপনি একজন কঠোর বাংলা প্রুফরিডার। আরেকটি মডেল নিচের সংশোধনগুলো প্রস্তাব করেছে।
+প্রতিটি যাচাই করুন - মূল শব্দটি কি সত্যিই ভুল (বানান) বা উন্নতিযোগ্য (শ্রুতিমধুরতা), এবং প্রস্তাবটি কি সঠিক?
+
+═══════════════════════════════════════════════════════════
+${rows}
+═══════════════════════════════════════════════════════════
+
+নিয়ম:
+1. মূল শব্দটি প্রচলিত ও শুদ্ধ বানান হলে (যেমন অভিধানে আছে, বা নাম/বিদেশি শব্দ) → না
+2. প্রস্তাবিত শব্দটি নিজেই ভুল বা অর্থ বদলে দেয় → না
+3. নিশ্চিত না হলে → না
+4. বাকি সব → হ্যাঁ
+
+ফরম্যাট (প্রতিটি সংশোধনের জন্য এক লাইন, অন্য কিছু নয়):
+নম্বর|হ্যাঁ
+নম্বর|না|সংক্ষিপ্ত কারণ
+
+উদাহরণ:
+1|হ্যাঁ
+2|না|মূল বানানটিই শুদ্ধ`;
+};
@@ -1,70 +1,86 @@
 // src/types.ts
 
-export type DocType = 'generic' | 'academic' | 'official' | 'marketing' | 'social';
+import type { TextAnchor } from './utils/anchoring';
 
-export interface Correction {
-  wrong: string;
-  suggestions: string[];
-  position?: number;
-}
+/**
+ * সাজেশনের বিভাগ - UI-এর section ও Word-এর হাইলাইট রং এটি দিয়েই ঠিক হয়
+ */
+export type IssueCategory = 'spelling' | 'grammar' | 'punctuation' | 'euphony' | 'style' | 'tone' | 'mixing';
 
-export interface ToneSuggestion {
-  current: string;
-  suggestion: string;
-  reason: string;
-  position?: number;
-}
+/**
+ * - error: নিশ্চিত ভুল (বানান)
+ * - warning: সম্ভাব্য ভুল (ব্যাকরণ, বিরাম চিহ্ন, রীতি মিশ্রণ)
+ * - suggestion: ঐচ্ছিক উন্নতি (শ্রুতিমধুরতা, রীতি/টোন রূপান্তর)
+ */
+export type IssueSeverity = 'error' | 'warning' | 'suggestion';
 
-export interface StyleSuggestion {
-  current: string;
-  suggestion: string;
-  type: string;
+/**
+ * সাজেশনটি কোথা থেকে এসেছে
+ * - model: AI মডেলের উত্তর
+ * - rules: স্থানীয় নিয়ম (সাধু/চলিত শব্দতালিকা)
+ */
+export type IssueSource = 'model' | 'rules';
+
+/**
+ * Parser-এর দেওয়া সাজেশন - টেক্সটে ঠিক অবস্থান তখনো অজানা
+ */
+export interface ParsedIssue {
+  category: IssueCategory;
+  /** টেক্সটে যা লেখা আছে */
+  original: string;
+  /** প্রস্তাবিত বিকল্প (প্রথমটি প্রধান) */
+  replacements: string[];
+  explanation: string;
+  /** ছোট শিরোনাম - বিরাম চিহ্নের সমস্যা, রূপান্তরের ধরন (যেমন সাধু→চলিত) */
+  label?: string;
+  severity: IssueSeverity;
+  source: IssueSource;
+  /** 0-based শব্দের index - মডেলের দেওয়া ইঙ্গিত, anchor করার পর আসল index */
   position?: number;
+  /** মডেলের আস্থা (0-100) - না দিলে অজানা */
+  confidence?: number;
+  /** সম্মতি মোডে কয়টি নমুনার মধ্যে কয়টিতে এসেছে (answered: যে কয়টি নমুনা আসলে উত্তর দিয়েছে) */
+  agreement?: { votes: number; samples: number; answered: number };
 }
 
-export interface StyleMixingCorrection {
-  current: string;
-  suggestion: string;
-  type: string;
-  position?: number;
+/**
+ * টেক্সটে anchor করা সাজেশন - UI ও Word-এর প্রতিটি কাজ id দিয়ে ঠিক একটি সাজেশনকে লক্ষ্য করে
+ */
+export interface Issue extends ParsedIssue {
+  /** বিভাগ ও প্রথম পাওয়া অবস্থান থেকে তৈরি - প্রতিস্থাপনে span সরে গেলেও বদলায় না */
+  id: string;
+  /** বিশ্লেষিত টেক্সটে অবস্থান */
+  span: TextAnchor;
 }
 
 export interface StyleMixing {
   detected: boolean;
   recommendedStyle?: string;
   reason?: string;
-  corrections?: StyleMixingCorrection[];
 }
 
-export interface PunctuationIssue {
-  issue: string;
-  currentSentence: string;
-  correctedSentence: string;
-  explanation: string;
-  position?: number;
+export interface ContentAnalysis {
+  contentType: string;
+  description?: string;
+  missingElements?: string[];
+  suggestions?: string[];
 }
 
-export interface EuphonyImprovement {
-  current: string;
-  suggestions: string[];
-  reason: string;
-  position?: number;
-}
-
-export interface DocTypeConfig {
-  label: string;
-  description: string;
-  defaultTone: string;
-  mainHint: string;
-  contentHint: string;
+/**
+ * একটি বিশ্লেষণের ফলাফল
+ * parser, ক্যাশ ও অংশ জোড়া লাগানো ParsedIssue নিয়ে কাজ করে; anchor করার পর Issue
+ */
+export interface UnifiedResponse<T extends ParsedIssue = ParsedIssue> {
+  issues: T[];
+  languageStyleMixing: StyleMixing;
+  contentAnalysis: ContentAnalysis | null;
+  /** মডেলের উত্তর token সীমায় কেটে গেছে - শেষের section অনুপস্থিত বা আংশিক হতে পারে */
+  incomplete?: boolean;
+  /** সম্মতি মোডে চাওয়া ও উত্তর পাওয়া নমুনা - কম উত্তর এলে ফলাফল ক্যাশ হয় না */
+  consensus?: { samples: number; answered: number };
 }
 
-// Result Object Structure from ParseToon
-export interface AnalysisResult {
-  spellingErrors: Correction[];
-  languageStyleMixing: StyleMixing;
-  punctuationIssues: PunctuationIssue[];
-  euphonyImprovements: EuphonyImprovement[];
-  toneConversions: ToneSuggestion[];
-  styleConversions: StyleSuggestion[];
-}
\ No newline at end of file
+/**
+ * anchor করা ফলাফল - UI ও Word এটিই পায়
+ */
+export type AnalysisResult = UnifiedResponse<Issue>;
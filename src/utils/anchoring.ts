@@ -0,0 +1,164 @@
+// src/utils/anchoring.ts
+
+import type { AnalysisResult, Issue, UnifiedResponse } from '../types';
+import type { DroppedItem } from './debugTrace';
+import { makeIssueId } from './issues';
+import { mapToMatchForm, toMatchForm } from './normalize';
+
+/**
+ * বিশ্লেষিত টেক্সটে একটি সাজেশনের সঠিক অবস্থান
+ * - start/end: টেক্সটের character offset (end বাদে)
+ * - occurrence: একই টেক্সটের কততম মিল (0 থেকে) - Word-এর search ফলাফলের index
+ */
+export interface TextAnchor {
+  start: number;
+  end: number;
+  occurrence: number;
+}
+
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+const WORD_CHAR = /[\p{L}\p{M}\p{N}]/u;
+
+const isWordChar = (ch: string | undefined): boolean => !!ch && WORD_CHAR.test(ch);
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * টেক্সটে needle-এর সব মিল - Word-এর search-এর মতো
+ * (case উপেক্ষা, এক শব্দ হলে পুরো শব্দ মিলতে হবে, ফাঁকা জায়গার পরিমাণ উপেক্ষা)
+ * বাংলার বিকল্প এনকোডিং (য়/য+়, ো/ে+া, ৎ/ত্‍) একই ধরা হয় - span মূল টেক্সটের offset-এ
+ */
+export const findOccurrences = (text: string, needle: string): TextSpan[] => {
+  const clean = toMatchForm(needle.trim());
+  if (!clean) return [];
+
+  const { text: haystack, sourceOffset } = mapToMatchForm(text);
+  const wholeWord = !/\s/.test(clean);
+  const regex = new RegExp(clean.split(/\s+/).map(escapeRegExp).join('\\s+'), 'giu');
+  const spans: TextSpan[] = [];
+
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(haystack)) !== null) {
+    const start = match.index;
+    const end = start + match[0].length;
+    if (wholeWord && (isWordChar(haystack[start - 1]) || isWordChar(haystack[end]))) continue;
+    spans.push({ start: sourceOffset(start), end: sourceOffset(end) });
+  }
+  return spans;
+};
+
+/**
+ * প্রত্যাশিত offset-এর সবচেয়ে কাছের মিলের index (কোনো মিল না থাকলে -1)
+ */
+export const nearestOccurrence = (spans: TextSpan[], expectedStart: number): number => {
+  let best = -1;
+  for (let i = 0; i < spans.length; i++) {
+    if (best < 0 || Math.abs(spans[i].start - expectedStart) < Math.abs(spans[best].start - expectedStart)) {
+      best = i;
+    }
+  }
+  return best;
+};
+
+/**
+ * প্রতিটি শব্দের শুরুর offset (position → offset রূপান্তরে)
+ */
+export const getWordStarts = (text: string): number[] => {
+  const starts: number[] = [];
+  const regex = /\S+/g;
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(text)) !== null) {
+    starts.push(match.index);
+  }
+  return starts;
+};
+
+/**
+ * offset যে শব্দে পড়ে তার 0-based index
+ */
+const wordIndexAt = (wordStarts: number[], offset: number): number => {
+  let lo = 0;
+  let hi = wordStarts.length - 1;
+  let found = 0;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (wordStarts[mid] <= offset) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+};
+
+/**
+ * ফলাফলের প্রতিটি সাজেশন টেক্সটে খুঁজে anchor বসানো
+ * - মডেলের position (শব্দের index) শুধু ইঙ্গিত: একাধিক মিল থাকলে তার সবচেয়ে কাছেরটি
+ * - position ঠিক শব্দের index-এ ও টেক্সট ডকুমেন্টের হুবহু রূপে (case/ফাঁকা/এনকোডিং) বদলানো হয় -
+ *   Word-এর search তখন ডকুমেন্টে যেভাবে লেখা সেভাবেই খোঁজে
+ * - টেক্সটে একেবারেই নেই এমন সাজেশন (মডেলের বানানো) বাদ
+ */
+export const anchorResponse = (
+  result: UnifiedResponse,
+  text: string
+): { result: AnalysisResult; dropped: DroppedItem[] } => {
+  const wordStarts = getWordStarts(text);
+  const occurrenceCache = new Map<string, TextSpan[]>();
+  const dropped: DroppedItem[] = [];
+  const issues: Issue[] = [];
+
+  for (const item of result.issues) {
+    const needle = item.original.trim();
+    if (!occurrenceCache.has(needle)) {
+      occurrenceCache.set(needle, findOccurrences(text, needle));
+    }
+    const spans = occurrenceCache.get(needle)!;
+    if (spans.length === 0) {
+      dropped.push({ section: item.category, text: needle, reason: 'টেক্সটে পাওয়া যায়নি' });
+      continue;
+    }
+
+    const hint = wordStarts[Math.min(Math.max(item.position ?? 0, 0), wordStarts.length - 1)] ?? 0;
+    const occurrence = nearestOccurrence(spans, hint);
+    const { start, end } = spans[occurrence];
+    const span = { start, end, occurrence };
+    issues.push({
+      ...item,
+      id: makeIssueId(item.category, span),
+      span,
+      original: text.slice(start, end),
+      position: wordIndexAt(wordStarts, start)
+    });
+  }
+
+  return { result: { ...result, issues }, dropped };
+};
+
+/**
+ * একটি সাজেশন প্রতিস্থাপনের পর বাকি anchor সরানো
+ * প্রতিস্থাপিত অংশের পরের anchor নতুন দৈর্ঘ্য অনুযায়ী সরে, একই টেক্সটের পরের মিলের occurrence এক কমে
+ */
+export const shiftAnchor = (
+  anchor: TextAnchor | undefined,
+  replaced: TextAnchor,
+  sameText: boolean,
+  delta: number
+): TextAnchor | undefined => {
+  if (!anchor || anchor.start < replaced.end) return anchor;
+  return {
+    start: anchor.start + delta,
+    end: anchor.end + delta,
+    occurrence: sameText && anchor.occurrence > replaced.occurrence ? anchor.occurrence - 1 : anchor.occurrence
+  };
+};
+
+/**
+ * দুই anchor-এর অংশ একে অপরের উপর পড়ে কিনা
+ */
+export const anchorsOverlap = (a: TextAnchor | undefined, b: TextAnchor): boolean =>
+  !!a && a.start < b.end && b.start < a.end;
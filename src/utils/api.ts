@@ -1,23 +1,61 @@
 // src/utils/api.ts
 
-import { parseAIResponse, extractTextFromGeminiResponse, UnifiedResponse } from './toonParser';
+import { createToonStreamParser, createJsonStreamParser, ToonSection, SECTION_CATEGORY } from './toonParser';
+import type { AnalysisResult, UnifiedResponse } from '../types';
+import { issuesOf } from './issues';
+import type { ToonParseWarning } from './toonGrammar';
+import { UNIFIED_RESPONSE_SCHEMA, SchemaDiagnostic } from './schema';
 import { buildUnifiedPrompt, UnifiedPromptOptions } from '../prompts/unified';
+import { buildVerificationPrompt } from '../prompts/verify';
+import { MODEL_OPTIONS, DEFAULT_MODEL_LIMITS } from '../prompts/core';
+import {
+  getProvider,
+  resolveBaseUrl,
+  ProviderSettings,
+  DEFAULT_PROVIDER_SETTINGS,
+  TokenUsage
+} from './providers';
+import { readEventStream } from './stream';
+import { splitIntoChunks, mergeResponses } from './chunking';
+import { anchorResponse } from './anchoring';
+import { estimateTokens, estimateOutputTokens, getOutputBudget, getTokenLimits } from './tokens';
+import { logUsage, UsageStatus } from './usageLog';
+import { createLogger } from './logger';
+import { RequestTrace, DroppedItem, countSections } from './debugTrace';
+import { acquireSlot, recordTokenUsage } from './rateLimiter';
+import {
+  parseQuotaError,
+  parseRetryAfter,
+  getBackoffDelay,
+  RETRYABLE_STATUSES,
+  MAX_RETRIES
+} from './retry';
+import { buildCacheKey, getCachedAnalysis, setCachedAnalysis, hasCachedAnalysis } from './cache';
+import { ApiKeyEntry, LEGACY_KEY_ID, getUsableApiKeys, pickApiKey, markKeyInvalid } from './apiKeys';
+import { VERIFIED_CATEGORIES, selectVerificationCandidates, parseVerdicts, applyVerdicts } from './verify';
+import { ConsensusSettings, isConsensusEnabled, isConsensusShort, sampleTemperature, buildConsensus } from './consensus';
+
+const log = createLogger('api');
 
 /**
- * মডেল অনুযায়ী Rate Limits (Free Tier)
+ * মডেল অনুযায়ী Rate Limits (Free Tier) - MODEL_OPTIONS থেকে
  */
 export const MODEL_LIMITS: Record<string, { rpm: number; rpd: number; tpm: number }> = {
-  'gemini-2.5-flash': { rpm: 5, rpd: 20, tpm: 250000 },
-  'gemini-2.5-flash-lite': { rpm: 10, rpd: 20, tpm: 250000 },
-  'gemini-2.0-flash': { rpm: 15, rpd: 1500, tpm: 1000000 },
-  'default': { rpm: 5, rpd: 20, tpm: 250000 }
+  ...Object.fromEntries(MODEL_OPTIONS.map(m => [m.id, { rpm: m.rpm, rpd: m.rpd, tpm: m.tpm }])),
+  'default': DEFAULT_MODEL_LIMITS
 };
 
+/**
+ * মডেলের limit (অজানা বা API থেকে পাওয়া নতুন মডেলে ডিফল্ট)
+ */
+export const getModelLimits = (model: string): { rpm: number; rpd: number; tpm: number } =>
+  MODEL_LIMITS[model] || MODEL_LIMITS['default'];
+
 /**
  * Safe limit (90% of actual to avoid hitting exact limit)
  */
 export const getSafeLimit = (model: string): number => {
-  const limits = MODEL_LIMITS[model] || MODEL_LIMITS['default'];
+  const limits = getModelLimits(model);
   return Math.floor(limits.rpd * 0.9);
 };
 
@@ -34,11 +72,19 @@ export interface RateLimitInfo {
 }
 
 /**
- * Get rate limit info for a specific model
+ * প্রতিটি key-এর আলাদা দৈনিক counter (পুরনো একক key আগের storage key-ই ব্যবহার করে)
  */
-export const getRateLimitInfo = (model: string): RateLimitInfo => {
+const requestsStorageKey = (model: string, keyId?: string): string =>
+  keyId && keyId !== LEGACY_KEY_ID
+    ? `bhasha_mitra_requests_${model}_${keyId}`
+    : `bhasha_mitra_requests_${model}`;
+
+/**
+ * Get rate limit info for one API key of a model
+ */
+export const getKeyRateLimitInfo = (model: string, keyId?: string): RateLimitInfo => {
   const today = new Date().toDateString();
-  const storageKey = `bhasha_mitra_requests_${model}`;
+  const storageKey = requestsStorageKey(model, keyId);
   const limit = getSafeLimit(model);
   
   let count = 0;
@@ -66,16 +112,38 @@ export const getRateLimitInfo = (model: string): RateLimitInfo => {
 };
 
 /**
- * Increment request count for a model
+ * Get rate limit info for a specific model
+ * একাধিক key থাকলে সব ব্যবহারযোগ্য key-এর মোট কোটা
+ */
+export const getRateLimitInfo = (model: string): RateLimitInfo => {
+  const keys = getUsableApiKeys();
+  if (keys.length <= 1) {
+    return getKeyRateLimitInfo(model, keys[0]?.id);
+  }
+
+  const infos = keys.map(k => getKeyRateLimitInfo(model, k.id));
+  const remaining = infos.reduce((sum, info) => sum + info.remaining, 0);
+
+  return {
+    model,
+    count: infos.reduce((sum, info) => sum + info.count, 0),
+    date: infos[0].date,
+    limit: infos.reduce((sum, info) => sum + info.limit, 0),
+    remaining,
+    isLimited: remaining === 0
+  };
+};
+
+/**
+ * Increment request count for a model (and key)
  */
-export const incrementRequestCount = (model: string): RateLimitInfo => {
+export const incrementRequestCount = (model: string, keyId?: string): RateLimitInfo => {
   const today = new Date().toDateString();
-  const storageKey = `bhasha_mitra_requests_${model}`;
-  const current = getRateLimitInfo(model);
+  const current = getKeyRateLimitInfo(model, keyId);
   
   const newCount = current.date === today ? current.count + 1 : 1;
   
-  localStorage.setItem(storageKey, JSON.stringify({
+  localStorage.setItem(requestsStorageKey(model, keyId), JSON.stringify({
     date: today,
     count: newCount
   }));
@@ -93,104 +161,908 @@ export const incrementRequestCount = (model: string): RateLimitInfo => {
 };
 
 /**
- * একটি মাত্র API call - সব বিশ্লেষণ একসাথে
+ * Google দৈনিক কোটা শেষ জানালে এই key-কে আজকের জন্য এই মডেলে লক
+ */
+const lockKeyForToday = (model: string, keyId?: string): void => {
+  localStorage.setItem(requestsStorageKey(model, keyId), JSON.stringify({
+    date: new Date().toDateString(),
+    count: getSafeLimit(model)
+  }));
+};
+
+/**
+ * মডেলের দৈনিক কোটা শেষ - fallback chain পরের মডেলে যেতে পারে
+ */
+export class QuotaExhaustedError extends Error {
+  constructor(public model: string, message: string) {
+    super(message);
+    this.name = 'QuotaExhaustedError';
+  }
+}
+
+/**
+ * ব্যবহারকারী বিশ্লেষণ বাতিল করেছেন - request গণনা হয় না, ক্যাশেও রাখা হয় না
+ */
+export class AnalysisCancelledError extends Error {
+  constructor() {
+    super('বিশ্লেষণ বাতিল করা হয়েছে।');
+    this.name = 'AnalysisCancelledError';
+  }
+}
+
+/**
+ * বাতিলযোগ্য অপেক্ষা (retry backoff-এর জন্য)
+ */
+const delayUnlessCancelled = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AnalysisCancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AnalysisCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * analyzeDocument-এর অতিরিক্ত অপশন
+ */
+export interface AnalyzeOptions {
+  /** প্রতিটি section সম্পূর্ণ হলে এখন পর্যন্ত পাওয়া ফলাফল (anchor করা) */
+  onPartial?: (section: ToonSection, partial: AnalysisResult) => void;
+  /** বড় ডকুমেন্টে কতটি অংশ শেষ হয়েছে */
+  onProgress?: (done: number, total: number) => void;
+  /** rpm/tpm পূর্ণ - পরবর্তী slot কত সেকেন্ড পরে */
+  onWait?: (seconds: number) => void;
+  /** সাময়িক ত্রুটির পর আবার চেষ্টা (কততম চেষ্টা, কত সেকেন্ড পরে) */
+  onRetry?: (attempt: number, seconds: number) => void;
+  /** ক্যাশ উপেক্ষা করে নতুন করে বিশ্লেষণ */
+  forceRefresh?: boolean;
+  /** ফলাফল ক্যাশ থেকে এসেছে */
+  onCacheHit?: () => void;
+  /** JSON মোডে schema যাচাইয়ে বাদ পড়া item/ফিল্ড */
+  onDiagnostics?: (diagnostics: SchemaDiagnostic[]) => void;
+  /** TOON মোডে বাদ পড়া বা মেরামত করা লাইন */
+  onParseWarnings?: (warnings: ToonParseWarning[]) => void;
+  /** প্রতিটি request-এর prompt, কাঁচা উত্তর ও সময় (ডেভেলপার প্যানেল) */
+  onTrace?: (trace: RequestTrace) => void;
+  /** টেক্সটে খুঁজে না পাওয়া বা অবৈধ বলে বাদ পড়া সাজেশন */
+  onDropped?: (items: DroppedItem[]) => void;
+  /** বানান ও শ্রুতিমধুরতার সাজেশন দ্বিতীয় একটি call-এ যাচাই */
+  verify?: boolean;
+  /** যাচাইয়ের call শুরু হচ্ছে (কয়টি সাজেশন) */
+  onVerifying?: (count: number) => void;
+  /** সম্মতি মোড: কয়েকটি নমুনা নিয়ে শুধু সংখ্যাগরিষ্ঠের সাজেশন (samples 1 = বন্ধ) */
+  consensus?: ConsensusSettings;
+  /** সম্মতি মোডে কততম নমুনার request শুরু হচ্ছে */
+  onSample?: (index: number, total: number) => void;
+  /** বাতিল করলে চলমান request থামে, AnalysisCancelledError ছোড়া হয় */
+  signal?: AbortSignal;
+}
+
+/**
+ * analyzeText-এর অপশন - এখানে আংশিক ফলাফল তখনো anchor করা নয়
+ */
+export type TextAnalyzeOptions = Omit<AnalyzeOptions, 'onPartial'> & {
+  onPartial?: (section: ToonSection, partial: UnifiedResponse) => void;
+};
+
+/**
+ * একটি বিশ্লেষণ call-এর key, মডেল ও limiter - পরের যাচাইয়ের call-এর জন্য
+ */
+interface ModelRequest {
+  apiKey: string;
+  keyId?: string;
+  model: string;
+  limiterId: string;
+  providerSettings: ProviderSettings;
+  wordCount: number;
+}
+
+/** ক্যাশ key-তে সম্মতি মোডের অংশ (বন্ধ থাকলে ফাঁকা) */
+const consensusKey = (settings?: ConsensusSettings): string =>
+  isConsensusEnabled(settings) ? `${settings.minAgree}/${settings.samples}` : '';
+
+/**
+ * বিশ্লেষণ - ক্যাশ থেকে, অথবা একটি call বা সম্মতি মোডে কয়েকটি নমুনা; চালু থাকলে শেষে দ্বিতীয় যাচাই
  */
 export const analyzeText = async (
   options: UnifiedPromptOptions,
   apiKey: string,
-  selectedModel: string
+  selectedModel: string,
+  providerSettings: ProviderSettings = DEFAULT_PROVIDER_SETTINGS,
+  analyzeOptions: TextAnalyzeOptions = {}
 ): Promise<UnifiedResponse | null> => {
+  const provider = getProvider(providerSettings.id);
+  const { signal } = analyzeOptions;
+  const throwIfCancelled = () => {
+    if (signal?.aborted) throw new AnalysisCancelledError();
+  };
+  throwIfCancelled();
+
+  // Unchanged text + options: serve from cache without spending quota
+  const verify = !!analyzeOptions.verify;
+  const cacheKey = await buildCacheKey(
+    options,
+    selectedModel,
+    provider.id,
+    verify,
+    consensusKey(analyzeOptions.consensus)
+  ).catch(() => null);
+  if (cacheKey && !analyzeOptions.forceRefresh) {
+    const cached = await getCachedAnalysis(cacheKey);
+    if (cached) {
+      log.info(`Cache hit: ${cacheKey.substring(0, 12)}`);
+      analyzeOptions.onCacheHit?.();
+      analyzeOptions.onTrace?.({
+        t: Date.now(),
+        model: selectedModel,
+        provider: provider.id,
+        kind: 'analysis',
+        outputMode: options.outputMode === 'json' ? 'json' : 'toon',
+        prompt: '',
+        rawResponse: '',
+        status: 'cached',
+        timing: { waitMs: 0, firstChunkMs: null, totalMs: 0, parseMs: 0 },
+        sectionCounts: countSections(cached),
+        warnings: [],
+        diagnostics: []
+      });
+      return cached;
+    }
+  }
+
+  const consensus = isConsensusEnabled(analyzeOptions.consensus) ? analyzeOptions.consensus : null;
+  const { result, request } = consensus
+    ? await analyzeByConsensus(options, apiKey, selectedModel, providerSettings, analyzeOptions, consensus)
+    : await streamAnalysis(options, apiKey, selectedModel, providerSettings, analyzeOptions, { temperature: 0.1 });
+
+  if (result && verify) {
+    await verifyResult(result, options.text, request, analyzeOptions);
+  }
+
+  if (result && cacheKey && !result.incomplete && !isConsensusShort(result)) {
+    await setCachedAnalysis(cacheKey, result);
+  }
+  
+  return result;
+};
+
+/**
+ * একটি মাত্র API call - সব বিশ্লেষণ একসাথে (streaming)
+ * ক্যাশ, সম্মতি ও যাচাই analyzeText-এ; যাচাইয়ের call একই key ও limiter ব্যবহার করে বলে সেগুলোও ফেরত দেয়
+ */
+const streamAnalysis = async (
+  options: UnifiedPromptOptions,
+  apiKey: string,
+  selectedModel: string,
+  providerSettings: ProviderSettings,
+  analyzeOptions: TextAnalyzeOptions,
+  sample: { temperature: number; index?: number }
+): Promise<{ result: UnifiedResponse | null; request: ModelRequest }> => {
+  const provider = getProvider(providerSettings.id);
+  const { signal } = analyzeOptions;
+  const throwIfCancelled = () => {
+    if (signal?.aborted) throw new AnalysisCancelledError();
+  };
+  const verify = !!analyzeOptions.verify;
+
   // Pre-check rate limit
-  const rateLimitInfo = getRateLimitInfo(selectedModel);
-  if (rateLimitInfo.isLimited) {
-    throw new Error(`দৈনিক সীমা (${rateLimitInfo.limit}টি) শেষ। কাল আবার চেষ্টা করুন বা অন্য মডেল ব্যবহার করুন।`);
+  if (provider.tracksQuota) {
+    const rateLimitInfo = getRateLimitInfo(selectedModel);
+    if (rateLimitInfo.isLimited) {
+      throw new QuotaExhaustedError(selectedModel, `দৈনিক সীমা (${rateLimitInfo.limit}টি) শেষ। কাল আবার চেষ্টা করুন বা অন্য মডেল ব্যবহার করুন।`);
+    }
   }
 
   // Count words for validation
   const wordCount = options.text.trim().split(/\s+/).filter(Boolean).length;
 
   const prompt = buildUnifiedPrompt(options);
-  const url = `https://generativelanguage.googleapis.com/v1beta/models/${selectedModel}:generateContent?key=${apiKey}`;
+  const jsonMode = options.outputMode === 'json';
+  const generation = {
+    temperature: sample.temperature, // নমুনা ছাড়া 0.1 - বেশি স্থির উত্তর
+    maxOutputTokens: getOutputBudget(estimateTokens(options.text), selectedModel),
+    ...(jsonMode ? { responseSchema: UNIFIED_RESPONSE_SCHEMA } : {})
+  };
 
-  let response: Response;
+  const messages = provider.errorMessages(selectedModel);
+  const limits = getModelLimits(selectedModel);
+  const dailyLimitMessage = 'Rate limit! Google এর দৈনিক সীমা শেষ। কাল আবার চেষ্টা করুন বা অন্য মডেল ব্যবহার করুন।';
 
-  // Timeout for request (60 seconds)
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), 60000);
+  // Key pool: rotation অনুযায়ী key, ব্যর্থ key বাদ দিয়ে পরেরটি (পুল খালি হলে দেওয়া key)
+  const usePool = provider.tracksQuota && getUsableApiKeys().length > 0;
+  const failedKeys: string[] = [];
+  const pickKey = () => pickApiKey(id => getKeyRateLimitInfo(selectedModel, id).remaining, failedKeys);
+  let keyEntry: ApiKeyEntry | null = usePool ? pickKey() : null;
+  if (usePool && !keyEntry) {
+    throw new QuotaExhaustedError(selectedModel, dailyLimitMessage);
+  }
 
+  let response: Response;
+  let slotId: string | null = null;
+  let limiterId = selectedModel;
+  const requestInfo = (): ModelRequest => ({
+    apiKey: keyEntry?.key ?? apiKey,
+    keyId: keyEntry?.id,
+    model: selectedModel,
+    limiterId,
+    providerSettings,
+    wordCount
+  });
+
+  // Idle timeout (60 seconds) - প্রতিটি chunk এলে আবার শুরু হয়
+  let controller = new AbortController();
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  const resetTimeout = () => {
+    clearTimeout(timeoutId);
+    timeoutId = setTimeout(() => controller.abort(), 60000);
+  };
+  // ব্যবহারকারী বাতিল করলে চলমান fetch/stream থামানো - signal পুরো বিশ্লেষণের, তাই শেষে listener সরানো
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
   try {
-    response = await fetch(url, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        contents: [{ parts: [{ text: prompt }] }],
-        generationConfig: {
-          responseMimeType: 'text/plain',
-          temperature: 0.1, // Lower temperature for more consistent output
-          maxOutputTokens: 4096
+    // প্রতিটি চেষ্টা ব্যবহার-লগে (ড্যাশবোর্ডের জন্য) ও ডেভেলপার প্যানেলের trace-এ
+    let startedAt = 0;
+    let waitMs = 0;
+    let firstChunkAt: number | null = null;
+    let rawResponse = '';
+    let usage: TokenUsage | null = null;
+    const parseWarnings: ToonParseWarning[] = [];
+    const parseDiagnostics: SchemaDiagnostic[] = [];
+    const emitTrace = (
+      status: RequestTrace['status'],
+      httpStatus?: number,
+      result: UnifiedResponse | null = null,
+      parseMs = 0
+    ) => {
+      analyzeOptions.onTrace?.({
+        t: startedAt,
+        model: selectedModel,
+        provider: provider.id,
+        kind: 'analysis',
+        sample: sample.index,
+        outputMode: jsonMode ? 'json' : 'toon',
+        prompt,
+        rawResponse,
+        status,
+        httpStatus,
+        timing: {
+          waitMs,
+          firstChunkMs: firstChunkAt === null ? null : firstChunkAt - startedAt,
+          totalMs: Date.now() - startedAt,
+          parseMs
+        },
+        sectionCounts: countSections(result),
+        warnings: [...parseWarnings],
+        diagnostics: [...parseDiagnostics]
+      });
+    };
+    const logAttempt = (status: UsageStatus, httpStatus?: number) => {
+      if (status !== 'success' && status !== 'truncated') {
+        emitTrace(status, httpStatus);
+      }
+      logUsage({
+        t: startedAt,
+        model: selectedModel,
+        provider: provider.id,
+        inputTokens: usage?.inputTokens ?? 0,
+        outputTokens: usage?.outputTokens ?? 0,
+        latencyMs: Date.now() - startedAt,
+        status,
+        httpStatus,
+        wordCount
+      });
+    };
+
+    // Transient 429/500/503: retry with exponential backoff + jitter
+    // key বদলানো retry হিসেবে গণ্য হয় না
+    let retries = 0;
+    for (;;) {
+      limiterId = keyEntry ? `${selectedModel}_${keyEntry.id}` : selectedModel;
+      const { url, init } = provider.buildRequest(
+        prompt,
+        keyEntry?.key ?? apiKey,
+        selectedModel,
+        resolveBaseUrl(providerSettings),
+        generation,
+        true
+      );
+
+      // Per-minute limits: wait in queue for a free rpm/tpm slot
+      const waitStart = Date.now();
+      if (provider.tracksQuota) {
+        slotId = await acquireSlot(
+          limiterId,
+          limits,
+          estimateTokens(prompt) + Math.round(generation.maxOutputTokens / 2),
+          analyzeOptions.onWait,
+          signal
+        ).catch(err => {
+          throwIfCancelled();
+          throw err;
+        });
+      }
+
+      waitMs = Date.now() - waitStart;
+      rawResponse = '';
+
+      controller = new AbortController();
+      resetTimeout();
+      startedAt = Date.now();
+
+      try {
+        response = await fetch(url, { ...init, signal: controller.signal });
+      } catch (err: any) {
+        clearTimeout(timeoutId);
+        logAttempt(signal?.aborted ? 'cancelled' : 'error');
+        throwIfCancelled();
+      
+        if (err.name === 'AbortError') {
+          throw new Error('অনুরোধ সময়সীমা অতিক্রম করেছে। আবার চেষ্টা করুন বা ছোট টেক্সট ব্যবহার করুন।');
         }
-      }),
-      signal: controller.signal
+      
+        log.error('Network error', err);
+        throw new Error(
+          provider.id === 'local'
+            ? 'লোকাল সার্ভারে সংযোগ করা যায়নি। সার্ভার চালু আছে কিনা ও Base URL চেক করুন।'
+            : 'ইন্টারনেট সংযোগে সমস্যা। নেটওয়ার্ক চেক করুন।'
+        );
+      }
+
+      clearTimeout(timeoutId);
+
+      if (response.ok) break;
+
+      const status = response.status;
+      const bodyText = await response.text().catch(() => '');
+      log.error(`API Error: ${status}`, bodyText);
+      rawResponse = bodyText;
+      logAttempt('error', status);
+
+      // অবৈধ key (Gemini ভুল key-তে 400 API_KEY_INVALID দেয়) - বাদ দিয়ে পরের key
+      const invalidKey = status === 401 || status === 403 || (status === 400 && bodyText.includes('API_KEY_INVALID'));
+      if (invalidKey && keyEntry) {
+        log.warn(`Key "${keyEntry.name}" disabled (status ${status})`);
+        markKeyInvalid(keyEntry.id, messages[status === 400 ? 401 : status]);
+        failedKeys.push(keyEntry.id);
+        keyEntry = pickKey();
+        if (keyEntry) continue;
+        throw new Error(messages[status === 400 ? 401 : status]);
+      }
+
+      // 429 = Rate limited by API - দৈনিক নাকি মিনিটের কোটা?
+      const quota = status === 429 ? parseQuotaError(bodyText) : null;
+
+      if (quota?.scope === 'day' && provider.tracksQuota) {
+        // দৈনিক কোটা সত্যিই শেষ - শুধু তখনই এই key আজকের জন্য লক, অন্য key থাকলে সেটিতে
+        lockKeyForToday(selectedModel, keyEntry?.id);
+        if (keyEntry) {
+          failedKeys.push(keyEntry.id);
+          keyEntry = pickKey();
+          if (keyEntry) continue;
+        }
+      
+        throw new QuotaExhaustedError(selectedModel, dailyLimitMessage);
+      }
+
+      if (RETRYABLE_STATUSES.includes(status) && retries < MAX_RETRIES) {
+        const wait = getBackoffDelay(
+          retries,
+          quota?.retryDelayMs ?? parseRetryAfter(response.headers.get('Retry-After'))
+        );
+        retries++;
+        log.warn(`Retrying after ${wait}ms (attempt ${retries}/${MAX_RETRIES}, status ${status})`);
+        analyzeOptions.onRetry?.(retries, Math.ceil(wait / 1000));
+        await delayUnlessCancelled(wait, signal);
+        continue;
+      }
+
+      if (status === 429) {
+        throw new Error('Rate limit! প্রতি মিনিটের সীমা অতিক্রম হয়েছে। এক মিনিট পর আবার চেষ্টা করুন।');
+      }
+    
+      throw new Error(messages[status] || `API ত্রুটি (স্ট্যাটাস: ${status})`);
+    }
+
+    // Pass wordCount for validation
+    const parser = jsonMode
+      ? createJsonStreamParser(wordCount, items => {
+          parseDiagnostics.push(...items);
+          analyzeOptions.onDiagnostics?.(items);
+        })
+      : createToonStreamParser(
+          (section, partial) => {
+            // যাচাই চালু থাকলে বানান/শ্রুতিমধুরতা যাচাইয়ের পরে একবারে আসে
+            const category = SECTION_CATEGORY[section];
+            if (!verify) {
+              analyzeOptions.onPartial?.(section, partial);
+            } else if (!category || !VERIFIED_CATEGORIES.includes(category)) {
+              analyzeOptions.onPartial?.(section, {
+                ...partial,
+                issues: partial.issues.filter(issue => !VERIFIED_CATEGORIES.includes(issue.category))
+              });
+            }
+          },
+          wordCount,
+          items => {
+            parseWarnings.push(...items);
+            analyzeOptions.onParseWarnings?.(items);
+          }
+        );
+    let receivedText = false;
+    let truncated = false;
+
+    resetTimeout();
+    try {
+      await readEventStream(response, provider.streamFormat, event => {
+        resetTimeout();
+        const eventUsage = provider.extractUsage(event);
+        if (eventUsage) {
+          usage = eventUsage;
+          if (slotId) {
+            recordTokenUsage(limiterId, slotId, eventUsage.inputTokens + eventUsage.outputTokens);
+          }
+        }
+        if (provider.isTruncated(event)) {
+          truncated = true;
+        }
+        const chunk = provider.extractStreamText(event);
+        if (chunk) {
+          receivedText = true;
+          firstChunkAt ??= Date.now();
+          rawResponse += chunk;
+          parser.push(chunk);
+        }
+      });
+    } catch (err: any) {
+      logAttempt(signal?.aborted ? 'cancelled' : 'error');
+      throwIfCancelled();
+      if (err.name === 'AbortError') {
+        throw new Error('অনুরোধ সময়সীমা অতিক্রম করেছে। আবার চেষ্টা করুন বা ছোট টেক্সট ব্যবহার করুন।');
+      }
+      log.error('Stream error', err);
+      throw new Error('ইন্টারনেট সংযোগে সমস্যা। নেটওয়ার্ক চেক করুন।');
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    const attemptStatus: UsageStatus = truncated ? 'truncated' : 'success';
+    logAttempt(attemptStatus, response.status);
+
+    // Count the request once the model has answered (বাতিল হলে নয়)
+    throwIfCancelled();
+    if (provider.tracksQuota) {
+      incrementRequestCount(selectedModel, keyEntry?.id);
+    }
+  
+    if (!receivedText) {
+      log.warn(`Empty response from ${provider.id}`);
+      emitTrace(attemptStatus, response.status);
+      return { result: null, request: requestInfo() };
+    }
+  
+    const parseStart = Date.now();
+    const result = parser.finish();
+    emitTrace(attemptStatus, response.status, result, Date.now() - parseStart);
+
+    // token সীমায় কেটে যাওয়া উত্তর - সম্পূর্ণ ফলাফল হিসেবে দেখানো বা ক্যাশ করা যাবে না
+    if (truncated) {
+      log.warn(`Response truncated at maxOutputTokens (${generation.maxOutputTokens})`);
+      if (!result) {
+        throw new Error('মডেলের উত্তর token সীমায় কেটে গেছে, ফলাফল পড়া যায়নি। টেক্সটের ছোট অংশ সিলেক্ট করে চেষ্টা করুন।');
+      }
+      result.incomplete = true;
+    }
+  
+    // Final validation: if spelling errors exceed word count, something is wrong
+    const spelling = result ? issuesOf(result.issues, 'spelling') : [];
+    if (result && spelling.length > wordCount) {
+      log.warn(`Invalid result: ${spelling.length} errors for ${wordCount} words`);
+      const excess = spelling.slice(Math.ceil(wordCount * 0.3));
+      analyzeOptions.onDropped?.(excess.map(e => ({
+        section: 'spelling',
+        text: e.original,
+        reason: `শব্দসংখ্যার তুলনায় অস্বাভাবিক বেশি বানান ভুল - প্রথম ${spelling.length - excess.length}টি রাখা হয়েছে`
+      })));
+      result.issues = result.issues.filter(issue => !excess.includes(issue));
+    }
+
+    return { result, request: requestInfo() };
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+/**
+ * সম্মতি মোড: একই টেক্সট কয়েকবার (ক্রমান্বয়ে, বাড়তে থাকা temperature-এ), তারপর শুধু সংখ্যাগরিষ্ঠের সাজেশন
+ * কোনো নমুনার আংশিক ফলাফল দেখানো হয় না - সেই সাজেশন পরে বাদ পড়তে পারে
+ * কোনো নমুনা ব্যর্থ হলে (নেটওয়ার্ক, retry শেষ) বাকিগুলো দিয়েই সম্মতি, তবে ফলাফল ক্যাশ হয় না -
+ * সব ব্যর্থ হলে শেষ ত্রুটি; কোটা শেষ হলে সাথে সাথে (fallback মডেল)
+ */
+const analyzeByConsensus = async (
+  options: UnifiedPromptOptions,
+  apiKey: string,
+  selectedModel: string,
+  providerSettings: ProviderSettings,
+  analyzeOptions: TextAnalyzeOptions,
+  consensus: ConsensusSettings
+): Promise<{ result: UnifiedResponse | null; request: ModelRequest }> => {
+  const provider = getProvider(providerSettings.id);
+  if (provider.tracksQuota) {
+    const rateLimitInfo = getRateLimitInfo(selectedModel);
+    if (rateLimitInfo.remaining < consensus.samples) {
+      throw new QuotaExhaustedError(selectedModel, `সম্মতি মোডে ${consensus.samples}টি request লাগবে, কিন্তু আজ বাকি আছে ${rateLimitInfo.remaining}টি। নমুনা কমান বা মোডটি বন্ধ করুন।`);
+    }
+  }
+
+  const sampleOptions: TextAnalyzeOptions = { ...analyzeOptions, onPartial: undefined };
+  const samples: UnifiedResponse[] = [];
+  let request: ModelRequest | null = null;
+  let lastError: unknown = null;
+  for (let i = 0; i < consensus.samples; i++) {
+    analyzeOptions.onSample?.(i + 1, consensus.samples);
+    try {
+      const run = await streamAnalysis(options, apiKey, selectedModel, providerSettings, sampleOptions, {
+        temperature: sampleTemperature(i, consensus.samples),
+        index: i + 1
+      });
+      request = run.request;
+      if (run.result) samples.push(run.result);
+    } catch (error) {
+      // ব্যর্থ নমুনা কোনো সাজেশনে ভোট দেয় না - আগের নমুনাগুলো রাখা হয়
+      // বাতিল করলে পুরোটাই থামে; কোটা শেষ হলে fallback মডেলে যাওয়ার জন্য ত্রুটি উপরে যায়
+      if (error instanceof AnalysisCancelledError || error instanceof QuotaExhaustedError) throw error;
+      log.warn(`Consensus sample ${i + 1}/${consensus.samples} failed`, error);
+      lastError = error;
+    }
+  }
+
+  // একটি নমুনাও উত্তর দেয়নি - শেষ ত্রুটিটিই দেখানো হয়
+  if (!request) throw lastError;
+  if (samples.length === 0) {
+    return { result: null, request };
+  }
+
+  const { result, dropped } = buildConsensus(samples, options.text, consensus);
+  log.info(`Consensus: ${result.issues.length} kept, ${dropped.length} below ${consensus.minAgree}/${consensus.samples} (${samples.length} answered)`);
+  if (dropped.length > 0) {
+    analyzeOptions.onDropped?.(dropped);
+  }
+  return { result, request };
+};
+
+/**
+ * দ্বিতীয় যাচাইয়ের call - মূল বিশ্লেষণের একই key ও মডেলে, streaming ছাড়া
+ * ব্যর্থ হলে (নেটওয়ার্ক, কোটা, অচেনা উত্তর) সাজেশন যাচাই ছাড়াই থাকে; শুধু বাতিল করলে থামে
+ */
+const verifyResult = async (
+  result: UnifiedResponse,
+  text: string,
+  request: ModelRequest,
+  analyzeOptions: TextAnalyzeOptions
+): Promise<void> => {
+  const pairs = selectVerificationCandidates(result, text);
+  if (pairs.length === 0) return;
+
+  const provider = getProvider(request.providerSettings.id);
+  const { model } = request;
+  const { signal } = analyzeOptions;
+  if (provider.tracksQuota && getKeyRateLimitInfo(model, request.keyId).isLimited) {
+    log.warn('Verification skipped: daily quota exhausted');
+    return;
+  }
+
+  analyzeOptions.onVerifying?.(pairs.length);
+  const prompt = buildVerificationPrompt(pairs.map(pair => pair.candidate));
+  const generation = { temperature: 0, maxOutputTokens: 64 + pairs.length * 48 };
+  const { url, init } = provider.buildRequest(
+    prompt,
+    request.apiKey,
+    model,
+    resolveBaseUrl(request.providerSettings),
+    generation,
+    false
+  );
+
+  let slotId: string | null = null;
+  const waitStart = Date.now();
+  if (provider.tracksQuota) {
+    slotId = await acquireSlot(
+      request.limiterId,
+      getModelLimits(model),
+      estimateTokens(prompt) + generation.maxOutputTokens,
+      analyzeOptions.onWait,
+      signal
+    ).catch(err => {
+      if (signal?.aborted) throw new AnalysisCancelledError();
+      throw err;
     });
-  } catch (err: any) {
+  }
+
+  const startedAt = Date.now();
+  let rawResponse = '';
+  let usage: TokenUsage | null = null;
+  const finish = (status: UsageStatus, httpStatus?: number, counts: Record<string, number> = {}) => {
+    logUsage({
+      t: startedAt,
+      model,
+      provider: provider.id,
+      inputTokens: usage?.inputTokens ?? 0,
+      outputTokens: usage?.outputTokens ?? 0,
+      latencyMs: Date.now() - startedAt,
+      status,
+      httpStatus,
+      wordCount: request.wordCount
+    });
+    analyzeOptions.onTrace?.({
+      t: startedAt,
+      model,
+      provider: provider.id,
+      kind: 'verification',
+      outputMode: 'toon',
+      prompt,
+      rawResponse,
+      status,
+      httpStatus,
+      timing: { waitMs: startedAt - waitStart, firstChunkMs: null, totalMs: Date.now() - startedAt, parseMs: 0 },
+      sectionCounts: counts,
+      warnings: [],
+      diagnostics: []
+    });
+  };
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), 30000);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  let response: Response;
+  let data: any;
+  try {
+    response = await fetch(url, { ...init, signal: controller.signal });
+    if (!response.ok) {
+      rawResponse = await response.text().catch(() => '');
+      log.warn(`Verification failed: ${response.status}`, rawResponse);
+      finish('error', response.status);
+      return;
+    }
+    data = await response.json();
+  } catch (err) {
+    finish(signal?.aborted ? 'cancelled' : 'error');
+    if (signal?.aborted) throw new AnalysisCancelledError();
+    log.warn('Verification request error', err);
+    return;
+  } finally {
     clearTimeout(timeoutId);
-    
-    if (err.name === 'AbortError') {
-      throw new Error('অনুরোধ সময়সীমা অতিক্রম করেছে। আবার চেষ্টা করুন বা ছোট টেক্সট ব্যবহার করুন।');
+    signal?.removeEventListener('abort', onAbort);
+  }
+
+  usage = provider.extractUsage(data);
+  if (usage && slotId) {
+    recordTokenUsage(request.limiterId, slotId, usage.inputTokens + usage.outputTokens);
+  }
+  if (provider.tracksQuota) {
+    incrementRequestCount(model, request.keyId);
+  }
+
+  rawResponse = provider.extractText(data) ?? '';
+  const verdicts = parseVerdicts(rawResponse);
+  const rejected = applyVerdicts(result, pairs, verdicts);
+  const unanswered = pairs.filter(pair => !verdicts.has(pair.candidate.id)).length;
+  finish(provider.isTruncated(data) ? 'truncated' : 'success', response.status, {
+    candidates: pairs.length,
+    confirmed: pairs.length - rejected.length - unanswered,
+    rejected: rejected.length,
+    unanswered
+  });
+
+  log.info(`Verification: ${rejected.length}/${pairs.length} rejected, ${unanswered} unanswered`);
+  if (rejected.length > 0) {
+    analyzeOptions.onDropped?.(rejected);
+  }
+};
+
+/**
+ * Request পাঠানোর আগে আনুমানিক token হিসাব ও সতর্কতা
+ */
+export interface PreflightReport {
+  chunks: number;
+  /** সব অংশের prompt মিলিয়ে */
+  inputTokens: number;
+  /** সব অংশের maxOutputTokens মিলিয়ে */
+  outputTokens: number;
+  warnings: string[];
+}
+
+export const preflightAnalysis = (
+  options: UnifiedPromptOptions,
+  model: string,
+  providerSettings: ProviderSettings = DEFAULT_PROVIDER_SETTINGS
+): PreflightReport => {
+  const provider = getProvider(providerSettings.id);
+  const tokenLimits = getTokenLimits(model);
+  const chunks = splitIntoChunks(options.text);
+  const warnings: string[] = [];
+
+  let inputTokens = 0;
+  let outputTokens = 0;
+  let overContext = false;
+  let overOutput = false;
+
+  for (const chunk of chunks) {
+    const promptTokens = estimateTokens(buildUnifiedPrompt({ ...options, text: chunk.text }));
+    const textTokens = estimateTokens(chunk.text);
+    const budget = getOutputBudget(textTokens, model);
+
+    inputTokens += promptTokens;
+    outputTokens += budget;
+    if (promptTokens + budget > tokenLimits.input) overContext = true;
+    if (estimateOutputTokens(textTokens) > tokenLimits.output) overOutput = true;
+  }
+
+  if (overContext) {
+    warnings.push(`টেক্সট এই মডেলের context সীমার (${tokenLimits.input} token) জন্য অনেক বড়। ছোট অংশ সিলেক্ট করুন।`);
+  }
+  if (overOutput) {
+    warnings.push(`উত্তরের জন্য মডেলের output সীমা (${tokenLimits.output} token) যথেষ্ট নাও হতে পারে - ফলাফল অসম্পূর্ণ হতে পারে।`);
+  }
+  if (provider.tracksQuota) {
+    const limits = getModelLimits(model);
+    if (inputTokens + outputTokens / 2 > limits.tpm) {
+      warnings.push('প্রতি মিনিটের token সীমা ছাড়িয়ে যাবে - অংশগুলোর মাঝে অপেক্ষা করতে হবে।');
     }
-    
-    console.error('Network error:', err);
-    throw new Error('ইন্টারনেট সংযোগে সমস্যা। নেটওয়ার্ক চেক করুন।');
   }
 
-  clearTimeout(timeoutId);
+  return { chunks: chunks.length, inputTokens, outputTokens, warnings };
+};
 
-  if (!response.ok) {
-    const status = response.status;
-    
-    // 429 = Rate limited by API
-    if (status === 429) {
-      const storageKey = `bhasha_mitra_requests_${selectedModel}`;
-      const limit = getSafeLimit(selectedModel);
-      localStorage.setItem(storageKey, JSON.stringify({
-        date: new Date().toDateString(),
-        count: limit
-      }));
-      
-      throw new Error('Rate limit! Google এর দৈনিক সীমা শেষ। কাল আবার চেষ্টা করুন বা অন্য মডেল ব্যবহার করুন।');
+/**
+ * পুরো ডকুমেন্ট বিশ্লেষণ - বড় হলে অনুচ্ছেদ ধরে ভাগ করে একাধিক request
+ * ফলাফলের (আংশিকসহ) প্রতিটি সাজেশন পুরো টেক্সটে anchor করা থাকে
+ */
+export const analyzeDocument = async (
+  options: UnifiedPromptOptions,
+  apiKey: string,
+  selectedModel: string,
+  providerSettings: ProviderSettings = DEFAULT_PROVIDER_SETTINGS,
+  analyzeOptions: AnalyzeOptions = {}
+): Promise<AnalysisResult | null> => {
+  const anchor = (result: UnifiedResponse, isFinal: boolean): AnalysisResult => {
+    const anchored = anchorResponse(result, options.text);
+    if (isFinal && anchored.dropped.length > 0) {
+      log.warn(`টেক্সটে পাওয়া যায়নি, বাদ দেওয়া হয়েছে (${anchored.dropped.length})`, anchored.dropped);
+      analyzeOptions.onDropped?.(anchored.dropped);
     }
-    
-    const messages: Record<number, string> = {
-      400: 'রিকুয়েস্ট ফরম্যাট সঠিক নয় বা টেক্সট অনেক বেশি বড়।',
-      401: 'API Key ভুল বা মেয়াদ উত্তীর্ণ। সেটিংস চেক করুন।',
-      403: 'API অনুমতি নেই। API Key চেক করুন।',
-      404: `মডেল "${selectedModel}" পাওয়া যায়নি। সেটিংস থেকে সঠিক মডেল বেছে নিন।`,
-      500: 'Gemini সার্ভারে সমস্যা। কিছুক্ষণ পর আবার চেষ্টা করুন।',
-      503: 'Gemini সার্ভার ব্যস্ত। কিছুক্ষণ পর চেষ্টা করুন।'
-    };
-    
-    const bodyText = await response.text().catch(() => '');
-    console.error('API Error:', status, bodyText);
-    
-    throw new Error(messages[status] || `API ত্রুটি (স্ট্যাটাস: ${status})`);
+    return anchored.result;
+  };
+
+  const chunks = splitIntoChunks(options.text);
+  analyzeOptions.onProgress?.(0, chunks.length);
+
+  if (chunks.length === 1) {
+    const result = await analyzeText(options, apiKey, selectedModel, providerSettings, {
+      ...analyzeOptions,
+      onPartial: (section, partial) => analyzeOptions.onPartial?.(section, anchor(partial, false))
+    });
+    analyzeOptions.onProgress?.(1, 1);
+    return result && anchor(result, true);
   }
 
-  const data = await response.json();
-  const raw = extractTextFromGeminiResponse(data);
-  
-  if (!raw) {
-    console.warn('Empty response from Gemini');
-    return null;
+  const provider = getProvider(providerSettings.id);
+  if (provider.tracksQuota) {
+    // ক্যাশে থাকা অংশের জন্য request লাগবে না
+    const samples = isConsensusEnabled(analyzeOptions.consensus) ? analyzeOptions.consensus.samples : 1;
+    let needed = chunks.length;
+    if (!analyzeOptions.forceRefresh) {
+      for (const chunk of chunks) {
+        const key = await buildCacheKey(
+          { ...options, text: chunk.text },
+          selectedModel,
+          provider.id,
+          !!analyzeOptions.verify,
+          consensusKey(analyzeOptions.consensus)
+        ).catch(() => null);
+        if (key && await hasCachedAnalysis(key)) needed--;
+      }
+    }
+    needed *= samples;
+
+    const rateLimitInfo = getRateLimitInfo(selectedModel);
+    if (rateLimitInfo.remaining < needed) {
+      throw new QuotaExhaustedError(selectedModel, `এই ডকুমেন্টে ${needed}টি request লাগবে, কিন্তু আজ বাকি আছে ${rateLimitInfo.remaining}টি। টেক্সটের একটি অংশ সিলেক্ট করে চেষ্টা করুন।`);
+    }
   }
-  
-  // Pass wordCount for validation
-  const result = parseAIResponse(raw, wordCount);
-  
-  // Final validation: if spelling errors exceed word count, something is wrong
-  if (result && result.spellingErrors.length > wordCount) {
-    console.warn(`Invalid result: ${result.spellingErrors.length} errors for ${wordCount} words`);
-    result.spellingErrors = result.spellingErrors.slice(0, Math.ceil(wordCount * 0.3));
+
+  // rpm/tpm মেনে চলে analyzeText-এর ভেতরের limiter
+  const parts: Array<{ result: UnifiedResponse; wordOffset: number }> = [];
+
+  for (let i = 0; i < chunks.length; i++) {
+    const chunk = chunks[i];
+    if (analyzeOptions.signal?.aborted) {
+      throw new AnalysisCancelledError();
+    }
+
+    const result = await analyzeText(
+      { ...options, text: chunk.text },
+      apiKey,
+      selectedModel,
+      providerSettings,
+      {
+        onPartial: (section, partial) => analyzeOptions.onPartial?.(
+          section,
+          anchor(mergeResponses([...parts, { result: partial, wordOffset: chunk.wordOffset }]), false)
+        ),
+        onWait: analyzeOptions.onWait,
+        onRetry: analyzeOptions.onRetry,
+        forceRefresh: analyzeOptions.forceRefresh,
+        onCacheHit: analyzeOptions.onCacheHit,
+        onDiagnostics: analyzeOptions.onDiagnostics,
+        onParseWarnings: analyzeOptions.onParseWarnings,
+        onTrace: analyzeOptions.onTrace,
+        onDropped: analyzeOptions.onDropped,
+        verify: analyzeOptions.verify,
+        onVerifying: analyzeOptions.onVerifying,
+        consensus: analyzeOptions.consensus,
+        onSample: analyzeOptions.onSample,
+        signal: analyzeOptions.signal
+      }
+    );
+
+    if (result) {
+      parts.push({ result, wordOffset: chunk.wordOffset });
+    }
+    analyzeOptions.onProgress?.(i + 1, chunks.length);
   }
-  
-  return result;
+
+  return parts.length > 0 ? anchor(mergeResponses(parts), true) : null;
+};
+
+/**
+ * Fallback chain: প্রথম যে মডেলে কোটা বাকি আছে সেটি দিয়ে বিশ্লেষণ
+ * চলাকালীন কোনো মডেলের দৈনিক কোটা শেষ হলে পরের মডেলে আবার চেষ্টা
+ */
+export const analyzeWithFallback = async (
+  options: UnifiedPromptOptions,
+  apiKey: string,
+  models: string[],
+  providerSettings: ProviderSettings = DEFAULT_PROVIDER_SETTINGS,
+  analyzeOptions: AnalyzeOptions & { onModelSwitch?: (model: string) => void } = {}
+): Promise<{ result: AnalysisResult | null; model: string }> => {
+  const provider = getProvider(providerSettings.id);
+  const candidates = provider.tracksQuota
+    ? models.filter(m => !getRateLimitInfo(m).isLimited)
+    : models.slice(0, 1);
+
+  if (candidates.length === 0) {
+    throw new QuotaExhaustedError(
+      models[0],
+      'সব মডেলের দৈনিক সীমা শেষ। কাল আবার চেষ্টা করুন।'
+    );
+  }
+
+  let lastError: unknown = null;
+  for (let i = 0; i < candidates.length; i++) {
+    const model = candidates[i];
+    if (model !== models[0]) {
+      analyzeOptions.onModelSwitch?.(model);
+    }
+
+    try {
+      const result = await analyzeDocument(options, apiKey, model, providerSettings, analyzeOptions);
+      return { result, model };
+    } catch (err) {
+      if (!(err instanceof QuotaExhaustedError)) throw err;
+      log.warn(`Quota exhausted for ${model}, trying next model`);
+      lastError = err;
+    }
+  }
+
+  throw lastError;
 };
@@ -0,0 +1,216 @@
+// src/utils/apiKeys.ts
+
+import { ProviderId, PROVIDER_OPTIONS } from '../prompts/core';
+import { getApiKeyStorageKey } from './providers';
+import {
+  VaultSecrets,
+  isVaultEnabled,
+  isVaultUnlocked,
+  getVaultSecret,
+  getVaultSecrets,
+  updateVaultSecrets,
+  enableVault,
+  disableVault
+} from './keyVault';
+
+/**
+ * একটি নামযুক্ত Gemini API Key
+ */
+export interface ApiKeyEntry {
+  id: string;
+  name: string;
+  key: string;
+  /** 401/403 পেলে স্বয়ংক্রিয়ভাবে বাদ দেওয়া হয় */
+  invalid?: boolean;
+  invalidReason?: string;
+}
+
+/**
+ * Key বাছাইয়ের নিয়ম
+ * - round-robin: পালাক্রমে
+ * - least-used: আজ যে key সবচেয়ে কম ব্যবহার হয়েছে
+ */
+export type KeyRotation = 'round-robin' | 'least-used';
+
+export const KEYS_STORAGE = 'gemini_api_keys';
+export const ROTATION_STORAGE = 'gemini_key_rotation';
+const LAST_USED_STORAGE = 'gemini_key_last_used';
+
+/** পুরনো একক key এই id পায়, যাতে আগের request counter ঠিক থাকে */
+export const LEGACY_KEY_ID = 'default';
+
+export const createKeyId = (): string =>
+  `key_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+const GEMINI_SECRET_PREFIX = 'gemini:';
+const PROVIDER_SECRET_PREFIX = 'provider:';
+
+/**
+ * Key তালিকা লেখা - এনক্রিপশন চালু থাকলে শুধু নাম/অবস্থা, key খালি রেখে
+ */
+const writeEntries = (keys: ApiKeyEntry[]): void => {
+  const entries = isVaultEnabled() ? keys.map(k => ({ ...k, key: '' })) : keys;
+  localStorage.setItem(KEYS_STORAGE, JSON.stringify(entries));
+};
+
+/**
+ * সংরক্ষিত key তালিকা (পুরনো `gemini_api_key` থাকলে একবার তালিকায় আনা হয়)
+ * এনক্রিপশন চালু ও লক থাকলে key খালি আসে
+ */
+export const loadApiKeys = (): ApiKeyEntry[] => {
+  const saved = localStorage.getItem(KEYS_STORAGE);
+  if (saved) {
+    try {
+      const keys: ApiKeyEntry[] = JSON.parse(saved);
+      if (!Array.isArray(keys)) return [];
+      return isVaultEnabled()
+        ? keys.map(k => ({ ...k, key: getVaultSecret(GEMINI_SECRET_PREFIX + k.id) }))
+        : keys;
+    } catch {
+      return [];
+    }
+  }
+
+  const legacy = localStorage.getItem('gemini_api_key');
+  if (legacy) {
+    const keys: ApiKeyEntry[] = [{ id: LEGACY_KEY_ID, name: 'ডিফল্ট', key: legacy }];
+    writeEntries(keys);
+    return keys;
+  }
+
+  return [];
+};
+
+export const saveApiKeys = async (keys: ApiKeyEntry[]): Promise<void> => {
+  const cleaned = keys
+    .map(k => ({ ...k, name: k.name.trim() || 'Key', key: k.key.trim() }))
+    .filter(k => k.key);
+
+  if (isVaultEnabled()) {
+    if (!isVaultUnlocked()) throw new Error('Key লক করা আছে - আগে পাসফ্রেজ দিয়ে খুলুন');
+    await updateVaultSecrets(
+      GEMINI_SECRET_PREFIX,
+      Object.fromEntries(cleaned.map(k => [GEMINI_SECRET_PREFIX + k.id, k.key]))
+    );
+  }
+  writeEntries(cleaned);
+};
+
+/**
+ * অন্য provider-এর (OpenAI-compatible, লোকাল) একক key
+ */
+export const loadProviderApiKey = (id: ProviderId): string =>
+  isVaultEnabled()
+    ? getVaultSecret(PROVIDER_SECRET_PREFIX + id)
+    : localStorage.getItem(getApiKeyStorageKey(id)) || '';
+
+export const saveProviderApiKey = async (id: ProviderId, key: string): Promise<void> => {
+  if (!isVaultEnabled()) {
+    localStorage.setItem(getApiKeyStorageKey(id), key);
+    return;
+  }
+  if (!isVaultUnlocked()) throw new Error('Key লক করা আছে - আগে পাসফ্রেজ দিয়ে খুলুন');
+  await updateVaultSecrets(PROVIDER_SECRET_PREFIX + id, key ? { [PROVIDER_SECRET_PREFIX + id]: key } : {});
+};
+
+/**
+ * এনক্রিপশন চালু থাকলেও এই সেশনে খোলা হয়নি
+ */
+export const areApiKeysLocked = (): boolean => isVaultEnabled() && !isVaultUnlocked();
+
+/**
+ * সব key পাসফ্রেজ দিয়ে এনক্রিপ্ট করে সাধারণ localStorage থেকে মুছে ফেলা
+ */
+export const encryptApiKeys = async (passphrase: string): Promise<void> => {
+  if (isVaultEnabled()) throw new Error('Key আগে থেকেই এনক্রিপ্ট করা');
+
+  const keys = loadApiKeys();
+  const secrets: VaultSecrets = Object.fromEntries(
+    keys.filter(k => k.key).map(k => [GEMINI_SECRET_PREFIX + k.id, k.key])
+  );
+  for (const option of PROVIDER_OPTIONS) {
+    if (option.id === 'gemini') continue;
+    const key = localStorage.getItem(getApiKeyStorageKey(option.id));
+    if (key) secrets[PROVIDER_SECRET_PREFIX + option.id] = key;
+  }
+
+  await enableVault(passphrase, secrets);
+  writeEntries(keys);
+  // Gemini-র পুরনো `gemini_api_key`-ও এর মধ্যে
+  PROVIDER_OPTIONS.forEach(option => localStorage.removeItem(getApiKeyStorageKey(option.id)));
+};
+
+/**
+ * এনক্রিপশন বন্ধ - key আবার সাধারণ localStorage-এ (খোলা অবস্থায় থাকতে হবে)
+ */
+export const decryptApiKeys = (): void => {
+  const keys = loadApiKeys();
+  const secrets = disableVault();
+  writeEntries(keys);
+  for (const [id, key] of Object.entries(secrets)) {
+    if (id.startsWith(PROVIDER_SECRET_PREFIX)) {
+      localStorage.setItem(getApiKeyStorageKey(id.slice(PROVIDER_SECRET_PREFIX.length) as ProviderId), key);
+    }
+  }
+};
+
+/**
+ * পাসফ্রেজ বদল - খোলা secret নতুন salt ও পাসফ্রেজে আবার এনক্রিপ্ট
+ */
+export const changeKeyPassphrase = async (passphrase: string): Promise<void> => {
+  if (!isVaultUnlocked()) throw new Error('আগে পাসফ্রেজ দিয়ে Key খুলুন');
+  await enableVault(passphrase, getVaultSecrets());
+};
+
+export const getKeyRotation = (): KeyRotation =>
+  localStorage.getItem(ROTATION_STORAGE) === 'least-used' ? 'least-used' : 'round-robin';
+
+export const setKeyRotation = (rotation: KeyRotation): void => {
+  localStorage.setItem(ROTATION_STORAGE, rotation);
+};
+
+/**
+ * ব্যবহারযোগ্য key (invalid ও লক থাকা খালি key বাদে)
+ */
+export const getUsableApiKeys = (): ApiKeyEntry[] => loadApiKeys().filter(k => !k.invalid && k.key);
+
+/**
+ * 401/403 পাওয়া key পরের বার থেকে বাদ
+ */
+export const markKeyInvalid = (id: string, reason: string): void => {
+  const keys = loadApiKeys().map(k => (k.id === id ? { ...k, invalid: true, invalidReason: reason } : k));
+  writeEntries(keys);
+};
+
+/**
+ * এই মডেলের জন্য পরের key বাছাই
+ * @param remainingFor - key-এর আজকের বাকি request (api.ts-এর counter থেকে)
+ * @param exclude - এই request-এ আগেই ব্যর্থ হওয়া key
+ */
+export const pickApiKey = (
+  remainingFor: (keyId: string) => number,
+  exclude: string[] = []
+): ApiKeyEntry | null => {
+  const candidates = getUsableApiKeys().filter(k => !exclude.includes(k.id) && remainingFor(k.id) > 0);
+  if (candidates.length === 0) return null;
+
+  let picked: ApiKeyEntry;
+  if (getKeyRotation() === 'least-used') {
+    picked = candidates.reduce((best, k) => (remainingFor(k.id) > remainingFor(best.id) ? k : best));
+  } else {
+    // আগের বার ব্যবহৃত key-এর পরেরটি
+    const all = getUsableApiKeys();
+    const lastIndex = all.findIndex(k => k.id === localStorage.getItem(LAST_USED_STORAGE));
+    const ordered = [...all.slice(lastIndex + 1), ...all.slice(0, lastIndex + 1)];
+    picked = ordered.find(k => candidates.some(c => c.id === k.id)) || candidates[0];
+  }
+
+  localStorage.setItem(LAST_USED_STORAGE, picked.id);
+  return picked;
+};
+
+/**
+ * UI-তে দেখানোর জন্য key-এর শেষ কয়েকটি অক্ষর
+ */
+export const maskKey = (key: string): string =>
+  key.length > 8 ? `${key.slice(0, 4)}…${key.slice(-4)}` : '••••';
@@ -0,0 +1,179 @@
+// src/utils/cache.ts
+
+import type { UnifiedResponse } from '../types';
+import { UnifiedPromptOptions, PROMPT_VERSION } from '../prompts/unified';
+import { ProviderId } from '../prompts/core';
+import { toMatchForm } from './normalize';
+import { createLogger } from './logger';
+
+const log = createLogger('cache');
+
+const DB_NAME = 'bhasha_mitra';
+const DB_VERSION = 1;
+const STORE = 'analysis_cache';
+
+/** এর বেশি পুরনো ফলাফল ব্যবহার হবে না */
+const MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_ENTRIES = 200;
+const MAX_TOTAL_BYTES = 5 * 1024 * 1024;
+
+interface CacheEntry {
+  key: string;
+  result: UnifiedResponse;
+  createdAt: number;
+  lastUsed: number;
+  size: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          db.createObjectStore(STORE, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const sha256 = async (input: string): Promise<string> => {
+  const bytes = new TextEncoder().encode(input);
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+/**
+ * টেক্সট + অপশন + মডেল + prompt সংস্করণের hash
+ * @param verified - দ্বিতীয় যাচাই হওয়া ফলাফল আলাদা রাখা হয়
+ * @param consensus - সম্মতি মোডের সেটিং (যেমন "2/3"), বন্ধ থাকলে ফাঁকা
+ * টেক্সটের বাংলা এনকোডিং আলাদা হলেও একই key - ফলাফল পরে টেক্সটে আবার anchor হয়
+ */
+export const buildCacheKey = async (
+  options: UnifiedPromptOptions,
+  model: string,
+  providerId: ProviderId,
+  verified = false,
+  consensus = ''
+): Promise<string> => {
+  return sha256(JSON.stringify([
+    PROMPT_VERSION,
+    providerId,
+    model,
+    verified,
+    consensus,
+    options.docType,
+    options.style || '',
+    options.tone || '',
+    options.outputMode || 'toon',
+    toMatchForm(options.text)
+  ]));
+};
+
+/**
+ * ক্যাশ থেকে ফলাফল (না থাকলে বা মেয়াদোত্তীর্ণ হলে null)
+ */
+export const getCachedAnalysis = async (key: string): Promise<UnifiedResponse | null> => {
+  try {
+    const db = await openDb();
+    const store = db.transaction(STORE, 'readwrite').objectStore(STORE);
+    const entry = await promisify<CacheEntry | undefined>(store.get(key));
+    if (!entry) return null;
+
+    if (Date.now() - entry.createdAt > MAX_AGE_MS) {
+      await promisify(store.delete(key));
+      return null;
+    }
+
+    entry.lastUsed = Date.now();
+    await promisify(store.put(entry));
+    return entry.result;
+  } catch (error) {
+    log.warn('Cache read error', error);
+    return null;
+  }
+};
+
+/**
+ * ক্যাশে আছে কিনা (lastUsed না বদলে)
+ */
+export const hasCachedAnalysis = async (key: string): Promise<boolean> => {
+  try {
+    const db = await openDb();
+    const store = db.transaction(STORE, 'readonly').objectStore(STORE);
+    const entry = await promisify<CacheEntry | undefined>(store.get(key));
+    return !!entry && Date.now() - entry.createdAt <= MAX_AGE_MS;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * পুরনো ও কম ব্যবহৃত entry মুছে সংখ্যা ও আকার সীমার মধ্যে রাখা
+ */
+const evict = async (db: IDBDatabase): Promise<void> => {
+  const store = db.transaction(STORE, 'readwrite').objectStore(STORE);
+  const entries = await promisify<CacheEntry[]>(store.getAll());
+  const now = Date.now();
+
+  // lastUsed অনুযায়ী নতুন থেকে পুরনো
+  entries.sort((a, b) => b.lastUsed - a.lastUsed);
+
+  let totalBytes = 0;
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    totalBytes += entry.size;
+    const expired = now - entry.createdAt > MAX_AGE_MS;
+    if (expired || i >= MAX_ENTRIES || totalBytes > MAX_TOTAL_BYTES) {
+      store.delete(entry.key);
+    }
+  }
+};
+
+export const setCachedAnalysis = async (key: string, result: UnifiedResponse): Promise<void> => {
+  try {
+    const db = await openDb();
+    const now = Date.now();
+    const entry: CacheEntry = {
+      key,
+      result,
+      createdAt: now,
+      lastUsed: now,
+      size: JSON.stringify(result).length * 2
+    };
+    await promisify(db.transaction(STORE, 'readwrite').objectStore(STORE).put(entry));
+    await evict(db);
+  } catch (error) {
+    log.warn('Cache write error', error);
+  }
+};
+
+/**
+ * সব ক্যাশ মুছে ফেলা
+ */
+export const clearAnalysisCache = async (): Promise<void> => {
+  try {
+    const db = await openDb();
+    await promisify(db.transaction(STORE, 'readwrite').objectStore(STORE).clear());
+  } catch (error) {
+    log.warn('Cache clear error', error);
+  }
+};
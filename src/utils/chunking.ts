@@ -0,0 +1,138 @@
+// src/utils/chunking.ts
+
+import type { UnifiedResponse } from '../types';
+import { emptyResponse } from './issues';
+import { estimateTokens } from './tokens';
+
+/**
+ * প্রতিটি অংশের আনুমানিক সর্বোচ্চ input token
+ * (TOON উত্তর input-এর চেয়ে বড় হয়, তাই maxOutputTokens-এর অনেক নিচে রাখা)
+ */
+export const CHUNK_TOKEN_BUDGET = 1200;
+
+/**
+ * ডকুমেন্টের একটি অংশ - পুরো ডকুমেন্টে এর অবস্থানসহ
+ */
+export interface TextChunk {
+  text: string;
+  /** এই অংশের আগে মোট শব্দ সংখ্যা */
+  wordOffset: number;
+  /** এই অংশের আগে মোট অক্ষর সংখ্যা */
+  charOffset: number;
+}
+
+const countWords = (text: string): number => text.trim().split(/\s+/).filter(Boolean).length;
+
+/**
+ * খুব বড় অনুচ্ছেদকে বাক্যের সীমানায় ভাঙা
+ */
+const splitLongParagraph = (paragraph: string, maxTokens: number): string[] => {
+  const sentences = (paragraph.match(/[^।?!]*(?:[।?!]+\s*|$)/g) || [paragraph]).filter(Boolean);
+  const pieces: string[] = [];
+  let current = '';
+
+  for (const sentence of sentences) {
+    if (current && estimateTokens(current + sentence) > maxTokens) {
+      pieces.push(current);
+      current = '';
+    }
+    current += sentence;
+  }
+  if (current) pieces.push(current);
+
+  return pieces;
+};
+
+/**
+ * টেক্সটকে অনুচ্ছেদের সীমানায় token-budget অনুযায়ী ভাগ করা
+ */
+export const splitIntoChunks = (text: string, maxTokens: number = CHUNK_TOKEN_BUDGET): TextChunk[] => {
+  if (estimateTokens(text) <= maxTokens) {
+    return [{ text, wordOffset: 0, charOffset: 0 }];
+  }
+
+  // অনুচ্ছেদ + তার পরের newline একসাথে রাখা, যাতে offset মিলে যায়
+  const paragraphs = (text.match(/[^\n]*\n*/g) || []).filter(Boolean);
+  const units: string[] = [];
+  for (const paragraph of paragraphs) {
+    if (estimateTokens(paragraph) > maxTokens) {
+      units.push(...splitLongParagraph(paragraph, maxTokens));
+    } else {
+      units.push(paragraph);
+    }
+  }
+
+  const chunks: TextChunk[] = [];
+  let current = '';
+  let wordOffset = 0;
+  let charOffset = 0;
+
+  const pushCurrent = () => {
+    if (current.trim()) {
+      chunks.push({ text: current, wordOffset, charOffset });
+    }
+    wordOffset += countWords(current);
+    charOffset += current.length;
+    current = '';
+  };
+
+  for (const unit of units) {
+    if (current && estimateTokens(current + unit) > maxTokens) {
+      pushCurrent();
+    }
+    current += unit;
+  }
+  pushCurrent();
+
+  return chunks;
+};
+
+const uniqueStrings = (items: string[]): string[] => Array.from(new Set(items.map(s => s.trim()).filter(Boolean)));
+
+/**
+ * প্রতিটি অংশের ফলাফল একত্র করা - position পুরো ডকুমেন্ট অনুযায়ী
+ */
+export const mergeResponses = (
+  parts: Array<{ result: UnifiedResponse; wordOffset: number }>
+): UnifiedResponse => {
+  const merged = emptyResponse();
+
+  for (const { result, wordOffset } of parts) {
+    if (result.incomplete) {
+      merged.incomplete = true;
+    }
+    // সবচেয়ে কম উত্তর পাওয়া অংশটিই পুরো ফলাফলের অবস্থা
+    if (result.consensus && (!merged.consensus || result.consensus.answered < merged.consensus.answered)) {
+      merged.consensus = result.consensus;
+    }
+    merged.issues.push(...result.issues.map(issue => ({ ...issue, position: (issue.position ?? 0) + wordOffset })));
+
+    const mixing = result.languageStyleMixing;
+    if (mixing?.detected) {
+      merged.languageStyleMixing = {
+        detected: true,
+        recommendedStyle: merged.languageStyleMixing.recommendedStyle || mixing.recommendedStyle,
+        reason: merged.languageStyleMixing.reason || mixing.reason
+      };
+    }
+
+    // কনটেন্ট: ধরন/বর্ণনা প্রথম অংশ থেকে, অনুপস্থিত উপাদান ও পরামর্শ সব অংশ থেকে
+    if (result.contentAnalysis) {
+      const prev = merged.contentAnalysis;
+      merged.contentAnalysis = {
+        contentType: prev?.contentType || result.contentAnalysis.contentType,
+        description: prev?.description || result.contentAnalysis.description,
+        missingElements: uniqueStrings([
+          ...(prev?.missingElements || []),
+          ...(result.contentAnalysis.missingElements || [])
+        ]),
+        suggestions: uniqueStrings([
+          ...(prev?.suggestions || []),
+          ...(result.contentAnalysis.suggestions || [])
+        ])
+      };
+    }
+  }
+
+  return merged;
+};
@@ -0,0 +1,49 @@
+// src/utils/confidence.ts
+
+import type { IssueCategory, ParsedIssue } from '../types';
+
+/**
+ * বিভাগ অনুযায়ী ন্যূনতম আস্থা (0-100)
+ * এর নিচের সাজেশন শুরুতে লুকানো থাকে - "আরও দেখুন" চাপলে দেখা যায়
+ */
+export type ConfidenceThresholds = Record<IssueCategory, number>;
+
+export const CONFIDENCE_STORAGE = 'bhasha_mitra_confidence_thresholds';
+
+export const DEFAULT_CONFIDENCE_THRESHOLDS: ConfidenceThresholds = {
+  spelling: 70,
+  grammar: 60,
+  punctuation: 60,
+  euphony: 60,
+  mixing: 50,
+  style: 0,
+  tone: 0
+};
+
+export const clampConfidence = (value: number): number => Math.min(100, Math.max(0, Math.round(value)));
+
+export const loadConfidenceThresholds = (): ConfidenceThresholds => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(CONFIDENCE_STORAGE) || '{}');
+    const thresholds = { ...DEFAULT_CONFIDENCE_THRESHOLDS };
+    for (const category of Object.keys(thresholds) as IssueCategory[]) {
+      if (typeof saved?.[category] === 'number') {
+        thresholds[category] = clampConfidence(saved[category]);
+      }
+    }
+    return thresholds;
+  } catch {
+    return { ...DEFAULT_CONFIDENCE_THRESHOLDS };
+  }
+};
+
+export const saveConfidenceThresholds = (thresholds: ConfidenceThresholds): void => {
+  localStorage.setItem(CONFIDENCE_STORAGE, JSON.stringify(thresholds));
+};
+
+/**
+ * আস্থা সীমার উপরে (মডেল আস্থা না দিলে সবসময় দেখানো হয়)
+ */
+export const meetsThreshold = (issue: ParsedIssue, thresholds: ConfidenceThresholds): boolean =>
+  issue.confidence === undefined || issue.confidence >= thresholds[issue.category];
+
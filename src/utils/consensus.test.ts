@@ -0,0 +1,109 @@
+// src/utils/consensus.test.ts
+
+import { describe, expect, it } from 'vitest';
+import type { ParsedIssue, UnifiedResponse } from '../types';
+import { createParsedIssue, emptyResponse } from './issues';
+import { buildConsensus, isConsensusEnabled, isConsensusShort, majorityOf, sampleTemperature } from './consensus';
+
+const TEXT = 'আমি বাংলাদেস যাব, সেখানে অনেক মানুস থাকে।';
+
+const spelling = (original: string, replacement: string, confidence?: number): ParsedIssue =>
+  createParsedIssue('spelling', { original, replacements: [replacement], confidence });
+
+const sample = (issues: ParsedIssue[], mixing = false): UnifiedResponse => ({
+  ...emptyResponse(),
+  issues,
+  languageStyleMixing: mixing ? { detected: true, recommendedStyle: 'চলিত' } : { detected: false }
+});
+
+describe('buildConsensus', () => {
+  const settings = { samples: 3, minAgree: 2 };
+
+  it('keeps suggestions that reach the majority and drops the rest', () => {
+    const { result, dropped } = buildConsensus([
+      sample([spelling('বাংলাদেস', 'বাংলাদেশ', 90), spelling('মানুস', 'মানুষ')]),
+      sample([spelling('বাংলাদেস', 'বাংলাদেশ', 70)]),
+      sample([])
+    ], TEXT, settings);
+
+    expect(result.issues).toHaveLength(1);
+    expect(result.issues[0]).toMatchObject({
+      original: 'বাংলাদেস',
+      confidence: 80,
+      agreement: { votes: 2, samples: 3, answered: 3 }
+    });
+    expect(dropped).toEqual([
+      { section: 'spelling', text: 'মানুস', reason: '1/3 নমুনায় পাওয়া - সম্মতির জন্য 2টি দরকার' }
+    ]);
+    expect(isConsensusShort(result)).toBe(false);
+  });
+
+  it('orders replacements by how many samples proposed them', () => {
+    const { result } = buildConsensus([
+      sample([createParsedIssue('spelling', { original: 'মানুস', replacements: ['মানুশ', 'মানুষ'] })]),
+      sample([spelling('মানুস', 'মানুষ')]),
+      sample([spelling('মানুস', 'মানুষ')])
+    ], TEXT, settings);
+
+    expect(result.issues[0].replacements).toEqual(['মানুষ', 'মানুশ']);
+    expect(result.issues[0].agreement?.votes).toBe(3);
+  });
+
+  it('counts a sample once even if it repeats a suggestion', () => {
+    const { result } = buildConsensus([
+      sample([spelling('মানুস', 'মানুষ'), spelling('মানুস', 'মানুষ')]),
+      sample([])
+    ], TEXT, settings);
+
+    expect(result.issues).toHaveLength(0);
+  });
+
+  it('treats failed samples as non-votes and marks the result short', () => {
+    // তিনটির একটি ব্যর্থ - বাকি দুটিতে মিল থাকলে সাজেশন থাকে
+    const { result } = buildConsensus([
+      sample([spelling('বাংলাদেস', 'বাংলাদেশ')]),
+      sample([spelling('বাংলাদেস', 'বাংলাদেশ')])
+    ], TEXT, settings);
+
+    expect(result.issues[0].agreement).toEqual({ votes: 2, samples: 3, answered: 2 });
+    expect(result.consensus).toEqual({ samples: 3, answered: 2 });
+    expect(isConsensusShort(result)).toBe(true);
+  });
+
+  it('keeps nothing when too few samples answered to reach the threshold', () => {
+    const { result, dropped } = buildConsensus([sample([spelling('বাংলাদেস', 'বাংলাদেশ')])], TEXT, settings);
+
+    expect(result.issues).toHaveLength(0);
+    expect(dropped[0].reason).toBe('1/3 নমুনায় পাওয়া (উত্তর এসেছে 1টির) - সম্মতির জন্য 2টি দরকার');
+    expect(isConsensusShort(result)).toBe(true);
+  });
+
+  it('detects style mixing only when enough samples do', () => {
+    const two = buildConsensus([sample([], true), sample([], true), sample([])], TEXT, settings);
+    const one = buildConsensus([sample([], true), sample([]), sample([])], TEXT, settings);
+
+    expect(two.result.languageStyleMixing.detected).toBe(true);
+    expect(one.result.languageStyleMixing.detected).toBe(false);
+  });
+
+  it('carries the incomplete flag of any sample', () => {
+    const { result } = buildConsensus([sample([]), { ...sample([]), incomplete: true }, sample([])], TEXT, settings);
+    expect(result.incomplete).toBe(true);
+  });
+});
+
+describe('consensus settings helpers', () => {
+  it('uses a simple majority by default', () => {
+    expect(majorityOf(3)).toBe(2);
+    expect(majorityOf(5)).toBe(3);
+  });
+
+  it('is off for a single sample', () => {
+    expect(isConsensusEnabled({ samples: 1, minAgree: 1 })).toBe(false);
+    expect(isConsensusEnabled({ samples: 3, minAgree: 2 })).toBe(true);
+  });
+
+  it('spreads temperatures from steady to varied', () => {
+    expect([0, 1, 2].map(i => sampleTemperature(i, 3))).toEqual([0.1, 0.5, 0.9]);
+  });
+});
@@ -0,0 +1,151 @@
+// src/utils/consensus.ts
+
+import type { Issue, ParsedIssue, UnifiedResponse } from '../types';
+import type { DroppedItem } from './debugTrace';
+import { anchorResponse } from './anchoring';
+import { emptyResponse } from './issues';
+
+/**
+ * সম্মতি মোড (গুরুত্বপূর্ণ ডকুমেন্টের জন্য)
+ * একই টেক্সট কয়েকবার আলাদা temperature-এ বিশ্লেষণ করে শুধু সেই সাজেশন রাখা হয়
+ * যা অন্তত minAgree-টি নমুনায় একই জায়গায় এসেছে - কোটা বেশি খরচ হয়, ভুল সংশোধন কম দেখায়
+ */
+export interface ConsensusSettings {
+  /** কয়টি নমুনা (1 = বন্ধ) */
+  samples: number;
+  /** কমপক্ষে কয়টি নমুনায় থাকতে হবে */
+  minAgree: number;
+}
+
+export const CONSENSUS_STORAGE = 'bhasha_mitra_consensus';
+
+export const CONSENSUS_SAMPLE_OPTIONS = [1, 3, 5];
+
+/** ডিফল্ট: সংখ্যাগরিষ্ঠতা */
+export const majorityOf = (samples: number): number => Math.floor(samples / 2) + 1;
+
+export const DEFAULT_CONSENSUS: ConsensusSettings = { samples: 1, minAgree: 1 };
+
+const normalizeSettings = (settings: ConsensusSettings): ConsensusSettings => {
+  const samples = CONSENSUS_SAMPLE_OPTIONS.includes(settings.samples) ? settings.samples : 1;
+  const minAgree = Math.min(samples, Math.max(1, Math.round(settings.minAgree) || majorityOf(samples)));
+  return { samples, minAgree };
+};
+
+export const loadConsensusSettings = (): ConsensusSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(CONSENSUS_STORAGE) || 'null');
+    return saved && typeof saved.samples === 'number' ? normalizeSettings(saved) : DEFAULT_CONSENSUS;
+  } catch {
+    return DEFAULT_CONSENSUS;
+  }
+};
+
+export const saveConsensusSettings = (settings: ConsensusSettings): void => {
+  localStorage.setItem(CONSENSUS_STORAGE, JSON.stringify(normalizeSettings(settings)));
+};
+
+export const isConsensusEnabled = (settings?: ConsensusSettings): settings is ConsensusSettings =>
+  !!settings && settings.samples > 1;
+
+/**
+ * নমুনা অনুযায়ী temperature - প্রথমটি সবচেয়ে স্থির (0.1), শেষেরটি সবচেয়ে বৈচিত্র্যময় (0.9)
+ */
+export const sampleTemperature = (index: number, samples: number): number =>
+  samples <= 1 ? 0.1 : Math.round((0.1 + (0.8 * index) / (samples - 1)) * 100) / 100;
+
+interface Votes {
+  issue: Issue;
+  samples: Set<number>;
+  replacements: Map<string, number>;
+  confidences: number[];
+}
+
+/**
+ * নমুনাগুলো মিলিয়ে একটি ফলাফল
+ * - সাজেশন মেলে টেক্সটে একই অবস্থান ও একই বিভাগ দিয়ে (anchor-এর id)
+ * - প্রস্তাবগুলো কয়টি নমুনা দিয়েছে সেই ক্রমে, আস্থা গড়
+ * - ব্যর্থ নমুনাও হিসাবে ধরা হয় (সম্মতি = মোট অনুরোধের মধ্যে কয়টি); samples-এ শুধু উত্তর পাওয়াগুলো
+ */
+export const buildConsensus = (
+  samples: UnifiedResponse[],
+  text: string,
+  settings: ConsensusSettings
+): { result: UnifiedResponse; dropped: DroppedItem[] } => {
+  const votes = new Map<string, Votes>();
+
+  samples.forEach((sample, index) => {
+    for (const issue of anchorResponse(sample, text).result.issues) {
+      let entry = votes.get(issue.id);
+      if (!entry) {
+        entry = { issue, samples: new Set(), replacements: new Map(), confidences: [] };
+        votes.set(issue.id, entry);
+      }
+      if (entry.samples.has(index)) continue;
+
+      entry.samples.add(index);
+      for (const replacement of issue.replacements) {
+        entry.replacements.set(replacement, (entry.replacements.get(replacement) ?? 0) + 1);
+      }
+      if (issue.confidence !== undefined) {
+        entry.confidences.push(issue.confidence);
+      }
+    }
+  });
+
+  const result = emptyResponse();
+  const dropped: DroppedItem[] = [];
+  const ordered = Array.from(votes.values()).sort((a, b) => a.issue.span.start - b.issue.span.start);
+
+  const answered = samples.length;
+  const shortfall = answered < settings.samples ? ` (উত্তর এসেছে ${answered}টির)` : '';
+  for (const entry of ordered) {
+    const agreed = entry.samples.size;
+    const { issue } = entry;
+    if (agreed < settings.minAgree) {
+      dropped.push({
+        section: issue.category,
+        text: issue.original,
+        reason: `${agreed}/${settings.samples} নমুনায় পাওয়া${shortfall} - সম্মতির জন্য ${settings.minAgree}টি দরকার`
+      });
+      continue;
+    }
+
+    const replacements = Array.from(entry.replacements.entries())
+      .sort((a, b) => b[1] - a[1])
+      .map(([replacement]) => replacement);
+    const merged: ParsedIssue = {
+      category: issue.category,
+      original: issue.original,
+      replacements,
+      explanation: issue.explanation,
+      ...(issue.label ? { label: issue.label } : {}),
+      severity: issue.severity,
+      source: issue.source,
+      position: issue.position,
+      agreement: { votes: agreed, samples: settings.samples, answered }
+    };
+    if (entry.confidences.length > 0) {
+      merged.confidence = Math.round(entry.confidences.reduce((sum, c) => sum + c, 0) / entry.confidences.length);
+    }
+    result.issues.push(merged);
+  }
+
+  const detected = samples.filter(sample => sample.languageStyleMixing.detected);
+  if (detected.length >= settings.minAgree) {
+    result.languageStyleMixing = detected[0].languageStyleMixing;
+  }
+  result.contentAnalysis = samples.find(sample => sample.contentAnalysis)?.contentAnalysis ?? null;
+  if (samples.some(sample => sample.incomplete)) {
+    result.incomplete = true;
+  }
+  result.consensus = { samples: settings.samples, answered };
+
+  return { result, dropped };
+};
+
+/**
+ * সম্মতি মোডের কোনো নমুনা উত্তর দেয়নি (ব্যর্থ বা অচেনা উত্তর) - সম্মতি পুরো নয়
+ */
+export const isConsensusShort = (result: UnifiedResponse): boolean =>
+  !!result.consensus && result.consensus.answered < result.consensus.samples;
@@ -0,0 +1,108 @@
+// src/utils/debugTrace.ts
+
+import type { UnifiedResponse } from '../types';
+import type { ToonParseWarning } from './toonGrammar';
+import type { SchemaDiagnostic } from './schema';
+import type { UsageStatus } from './usageLog';
+import type { ProviderId } from '../prompts/core';
+import { PROMPT_VERSION } from '../prompts/unified';
+import { LogEntry } from './logger';
+
+/**
+ * একটি API request-এর পূর্ণ বিবরণ (ডেভেলপার প্যানেলের জন্য)
+ */
+export interface RequestTrace {
+  t: number;
+  model: string;
+  provider: ProviderId;
+  /** মূল বিশ্লেষণ নাকি দ্বিতীয় যাচাইয়ের call */
+  kind: 'analysis' | 'verification';
+  /** সম্মতি মোডে কততম নমুনা (1 থেকে) */
+  sample?: number;
+  outputMode: 'toon' | 'json';
+  /** ঠিক যে prompt পাঠানো হয়েছে */
+  prompt: string;
+  /** মডেলের কাঁচা উত্তর (HTTP ত্রুটিতে সার্ভারের বার্তা) */
+  rawResponse: string;
+  status: UsageStatus | 'cached';
+  httpStatus?: number;
+  timing: {
+    /** rpm/tpm slot-এর জন্য অপেক্ষা */
+    waitMs: number;
+    /** প্রথম টেক্সট আসা পর্যন্ত (না এলে null) */
+    firstChunkMs: number | null;
+    totalMs: number;
+    parseMs: number;
+  };
+  /** section অনুযায়ী parse হওয়া item-এর সংখ্যা */
+  sectionCounts: Record<string, number>;
+  warnings: ToonParseWarning[];
+  diagnostics: SchemaDiagnostic[];
+}
+
+/**
+ * parse-এর পরে বাদ পড়া সাজেশন
+ */
+export interface DroppedItem {
+  section: string;
+  text: string;
+  reason: string;
+}
+
+/**
+ * একবার "পরীক্ষা করুন" চাপার পুরো বিবরণ
+ */
+export interface DebugRun {
+  t: number;
+  wordCount: number;
+  requests: RequestTrace[];
+  dropped: DroppedItem[];
+  totalMs: number;
+  error?: string;
+}
+
+/**
+ * ফলাফলের প্রতিটি বিভাগে কয়টি সাজেশন
+ */
+export const countSections = (result: UnifiedResponse | null): Record<string, number> => {
+  const counts: Record<string, number> = {
+    spelling: 0,
+    grammar: 0,
+    punctuation: 0,
+    euphony: 0,
+    style: 0,
+    tone: 0,
+    mixing: 0
+  };
+  for (const issue of result?.issues ?? []) {
+    counts[issue.category]++;
+  }
+  counts.content = result?.contentAnalysis ? 1 : 0;
+  return counts;
+};
+
+/**
+ * বাগ রিপোর্টের জন্য এক টুকরো JSON - API key বা URL কখনো থাকে না
+ */
+export const buildDebugBundle = (
+  run: DebugRun | null,
+  logs: LogEntry[],
+  settings: Record<string, string>
+): string => {
+  const office = typeof Office !== 'undefined' ? Office.context : undefined;
+  return JSON.stringify(
+    {
+      createdAt: new Date().toISOString(),
+      promptVersion: PROMPT_VERSION,
+      host: office?.diagnostics
+        ? `${office.diagnostics.host} ${office.diagnostics.platform} ${office.diagnostics.version}`
+        : 'unknown',
+      userAgent: navigator.userAgent,
+      settings,
+      run,
+      logs
+    },
+    null,
+    2
+  );
+};
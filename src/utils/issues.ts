@@ -0,0 +1,72 @@
+// src/utils/issues.ts
+
+import type {
+  Issue,
+  IssueCategory,
+  IssueSeverity,
+  ParsedIssue,
+  UnifiedResponse
+} from '../types';
+import type { TextAnchor } from './anchoring';
+import { clampConfidence } from './confidence';
+import { canonicalizeBangla } from './normalize';
+
+/**
+ * বিভাগ অনুযায়ী ডিফল্ট গুরুত্ব
+ */
+export const CATEGORY_SEVERITY: Record<IssueCategory, IssueSeverity> = {
+  spelling: 'error',
+  grammar: 'warning',
+  punctuation: 'warning',
+  mixing: 'warning',
+  euphony: 'suggestion',
+  style: 'suggestion',
+  tone: 'suggestion'
+};
+
+/**
+ * মডেলের উত্তর (বা স্থানীয় নিয়ম) থেকে একটি সাজেশন (গুরুত্ব বিভাগ অনুযায়ী)
+ * প্রস্তাবগুলো বাংলার মানক এনকোডিংয়ে - ডকুমেন্টে সেভাবেই বসে ও একই প্রস্তাব একবার গোনা হয়
+ */
+export const createParsedIssue = (
+  category: IssueCategory,
+  fields: Pick<ParsedIssue, 'original' | 'replacements'> & Partial<Pick<ParsedIssue, 'explanation' | 'label' | 'position' | 'confidence' | 'source'>>
+): ParsedIssue => ({
+  category,
+  original: fields.original,
+  replacements: fields.replacements.map(canonicalizeBangla),
+  explanation: fields.explanation ?? '',
+  ...(fields.label ? { label: fields.label } : {}),
+  severity: CATEGORY_SEVERITY[category],
+  source: fields.source ?? 'model',
+  position: fields.position,
+  ...(fields.confidence !== undefined ? { confidence: clampConfidence(fields.confidence) } : {})
+});
+
+/**
+ * anchor থেকে স্থির id - একই জায়গার একই বিভাগের সাজেশন সবসময় একই id পায়
+ */
+export const makeIssueId = (category: IssueCategory, span: TextAnchor): string =>
+  `${category}-${span.start}-${span.end}`;
+
+export const emptyResponse = <T extends ParsedIssue = ParsedIssue>(): UnifiedResponse<T> => ({
+  issues: [],
+  languageStyleMixing: { detected: false },
+  contentAnalysis: null
+});
+
+export const issuesOf = <T extends ParsedIssue>(issues: T[], category: IssueCategory): T[] =>
+  issues.filter(issue => issue.category === category);
+
+/**
+ * একই id-র সাজেশন একবার (প্রথমটি থাকে), টেক্সটের ক্রমে সাজানো
+ */
+export const dedupeIssues = (issues: Issue[]): Issue[] => {
+  const seen = new Map<string, Issue>();
+  for (const issue of issues) {
+    if (!seen.has(issue.id)) {
+      seen.set(issue.id, issue);
+    }
+  }
+  return Array.from(seen.values()).sort((a, b) => a.span.start - b.span.start);
+};
@@ -0,0 +1,159 @@
+// src/utils/keyVault.ts
+
+/**
+ * পাসফ্রেজ দিয়ে এনক্রিপ্ট করা API Key ভাণ্ডার (WebCrypto: PBKDF2 + AES-GCM)
+ * - localStorage-এ শুধু এনক্রিপ্ট করা blob থাকে
+ * - খোলা (decrypt করা) key শুধু এই সেশনের মেমরিতে - taskpane বন্ধ করলেই মুছে যায়
+ */
+interface VaultBlob {
+  v: 1;
+  salt: string;
+  iv: string;
+  data: string;
+}
+
+/** Secret-এর id → key (যেমন `gemini:key_xxx`, `provider:openai`) */
+export type VaultSecrets = Record<string, string>;
+
+export const VAULT_STORAGE = 'bhasha_mitra_key_vault';
+
+const PBKDF2_ITERATIONS = 250000;
+
+// এই সেশনের খোলা অবস্থা
+let sessionKey: CryptoKey | null = null;
+let sessionSalt: Uint8Array<ArrayBuffer> | null = null;
+let sessionSecrets: VaultSecrets | null = null;
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string): Uint8Array<ArrayBuffer> =>
+  Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const loadBlob = (): VaultBlob | null => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(VAULT_STORAGE) || 'null');
+    return saved && saved.v === 1 && saved.salt && saved.iv && saved.data ? saved : null;
+  } catch {
+    return null;
+  }
+};
+
+const deriveKey = async (passphrase: string, salt: Uint8Array<ArrayBuffer>): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+/**
+ * সেশনের key দিয়ে নতুন IV-তে এনক্রিপ্ট করে সংরক্ষণ
+ */
+const writeBlob = async (key: CryptoKey, salt: Uint8Array<ArrayBuffer>, secrets: VaultSecrets): Promise<void> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(JSON.stringify(secrets))
+  );
+  const blob: VaultBlob = { v: 1, salt: toBase64(salt), iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+  localStorage.setItem(VAULT_STORAGE, JSON.stringify(blob));
+};
+
+/**
+ * WebCrypto আছে কিনা (পুরনো IE-ভিত্তিক Office webview-এ নেই)
+ */
+export const isVaultSupported = (): boolean =>
+  typeof crypto !== 'undefined' && !!crypto.subtle;
+
+export const isVaultEnabled = (): boolean => loadBlob() !== null;
+
+export const isVaultUnlocked = (): boolean => sessionSecrets !== null;
+
+/**
+ * পাসফ্রেজ দিয়ে খোলা - ভুল হলে Bangla বার্তাসহ Error
+ */
+export const unlockVault = async (passphrase: string): Promise<void> => {
+  const blob = loadBlob();
+  if (!blob) throw new Error('এনক্রিপ্ট করা কোনো Key নেই');
+
+  const salt = fromBase64(blob.salt);
+  const key = await deriveKey(passphrase, salt);
+  let plain: ArrayBuffer;
+  try {
+    plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(blob.iv) }, key, fromBase64(blob.data));
+  } catch {
+    // AES-GCM-এর authentication tag না মিললে - ভুল পাসফ্রেজ
+    throw new Error('পাসফ্রেজ ভুল হয়েছে');
+  }
+
+  sessionKey = key;
+  sessionSalt = salt;
+  sessionSecrets = JSON.parse(new TextDecoder().decode(plain));
+};
+
+/**
+ * প্রথমবার এনক্রিপশন চালু (বা পাসফ্রেজ বদল) - নতুন salt দিয়ে
+ */
+export const enableVault = async (passphrase: string, secrets: VaultSecrets): Promise<void> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt);
+  await writeBlob(key, salt, secrets);
+
+  sessionKey = key;
+  sessionSalt = salt;
+  sessionSecrets = { ...secrets };
+};
+
+/**
+ * এনক্রিপশন বন্ধ - খোলা secret ফেরত দেয় যাতে caller আবার সাধারণভাবে রাখতে পারে
+ */
+export const disableVault = (): VaultSecrets => {
+  if (!sessionSecrets) throw new Error('আগে পাসফ্রেজ দিয়ে Key খুলুন');
+  const secrets = sessionSecrets;
+  localStorage.removeItem(VAULT_STORAGE);
+  lockVault();
+  return secrets;
+};
+
+/**
+ * এই সেশনে আবার লক (মেমরি থেকে key মুছে ফেলা)
+ */
+export const lockVault = (): void => {
+  sessionKey = null;
+  sessionSalt = null;
+  sessionSecrets = null;
+};
+
+/**
+ * খোলা অবস্থায় একটি secret (লক থাকলে খালি)
+ */
+export const getVaultSecret = (id: string): string => sessionSecrets?.[id] || '';
+
+export const getVaultSecrets = (): VaultSecrets => ({ ...(sessionSecrets || {}) });
+
+/**
+ * Secret হালনাগাদ করে আবার এনক্রিপ্ট
+ * @param prefix - এই prefix-এর পুরনো secret বাদ দিয়ে নতুনগুলো বসানো হয় (যেমন `gemini:`)
+ */
+export const updateVaultSecrets = async (prefix: string, secrets: VaultSecrets): Promise<void> => {
+  if (!sessionKey || !sessionSalt || !sessionSecrets) throw new Error('আগে পাসফ্রেজ দিয়ে Key খুলুন');
+
+  const kept = Object.fromEntries(Object.entries(sessionSecrets).filter(([id]) => !id.startsWith(prefix)));
+  const next = { ...kept, ...secrets };
+  await writeBlob(sessionKey, sessionSalt, next);
+  sessionSecrets = next;
+};
@@ -0,0 +1,90 @@
+// src/utils/logger.ts
+
+/**
+ * স্তরভিত্তিক লগার
+ * - console-এ শুধু নির্বাচিত স্তর ও তার উপরের বার্তা (Word taskpane-এ console দেখা যায় না)
+ * - সব স্তরের শেষ কিছু বার্তা মেমরিতে থাকে - ডেভেলপার প্যানেল ও debug bundle-এর জন্য
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LogEntry {
+  t: number;
+  level: LogLevel;
+  /** কোন মডিউল থেকে (যেমন `api`, `toon`) */
+  scope: string;
+  message: string;
+  /** অতিরিক্ত তথ্য - JSON টেক্সটে রূপান্তরিত */
+  data?: string;
+}
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+const LEVEL_STORAGE = 'bhasha_mitra_log_level';
+const DEFAULT_LEVEL: LogLevel = 'warn';
+const MAX_ENTRIES = 500;
+const MAX_DATA_LENGTH = 2000;
+
+const entries: LogEntry[] = [];
+
+export const getLogLevel = (): LogLevel => {
+  const saved = localStorage.getItem(LEVEL_STORAGE) as LogLevel | null;
+  return saved && LOG_LEVELS.includes(saved) ? saved : DEFAULT_LEVEL;
+};
+
+export const setLogLevel = (level: LogLevel): void => {
+  localStorage.setItem(LEVEL_STORAGE, level);
+};
+
+const serialize = (data: unknown): string | undefined => {
+  if (data === undefined) return undefined;
+  let text: string;
+  if (data instanceof Error) {
+    text = `${data.name}: ${data.message}`;
+  } else if (typeof data === 'string') {
+    text = data;
+  } else {
+    try {
+      text = JSON.stringify(data);
+    } catch {
+      text = String(data);
+    }
+  }
+  return text.length > MAX_DATA_LENGTH ? `${text.substring(0, MAX_DATA_LENGTH)}…` : text;
+};
+
+const write = (level: LogLevel, scope: string, message: string, data?: unknown): void => {
+  entries.push({ t: Date.now(), level, scope, message, data: serialize(data) });
+  if (entries.length > MAX_ENTRIES) {
+    entries.splice(0, entries.length - MAX_ENTRIES);
+  }
+
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(getLogLevel())) return;
+  const line = `[${scope}] ${message}`;
+  const args = data === undefined ? [line] : [line, data];
+  if (level === 'error') console.error(...args);
+  else if (level === 'warn') console.warn(...args);
+  else console.log(...args);
+};
+
+export interface Logger {
+  debug: (message: string, data?: unknown) => void;
+  info: (message: string, data?: unknown) => void;
+  warn: (message: string, data?: unknown) => void;
+  error: (message: string, data?: unknown) => void;
+}
+
+/**
+ * একটি মডিউলের লগার
+ */
+export const createLogger = (scope: string): Logger => ({
+  debug: (message, data) => write('debug', scope, message, data),
+  info: (message, data) => write('info', scope, message, data),
+  warn: (message, data) => write('warn', scope, message, data),
+  error: (message, data) => write('error', scope, message, data)
+});
+
+export const getLogEntries = (): LogEntry[] => [...entries];
+
+export const clearLogEntries = (): void => {
+  entries.length = 0;
+};
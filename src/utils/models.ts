@@ -0,0 +1,131 @@
+// src/utils/models.ts
+
+import { MODEL_OPTIONS, DEFAULT_MODEL_LIMITS, ModelOption } from '../prompts/core';
+
+/**
+ * API Key যাচাই করে পাওয়া একটি মডেল
+ */
+export interface DiscoveredModel {
+  id: string;
+  name: string;
+  inputTokenLimit?: number;
+  outputTokenLimit?: number;
+}
+
+export interface ModelDiscovery {
+  models: DiscoveredModel[];
+  /** কখন যাচাই করা হয়েছে (ms) */
+  verifiedAt: number;
+}
+
+const DISCOVERY_STORAGE = 'gemini_discovered_models';
+
+// বানান পরীক্ষার কাজে লাগে না এমন মডেল (embedding, ছবি, অডিও ...)
+const NON_TEXT_MODEL = /embedding|aqa|imagen|image|tts|audio|live|veo|robotics/i;
+
+export const loadModelDiscovery = (): ModelDiscovery | null => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(DISCOVERY_STORAGE) || 'null');
+    return saved && Array.isArray(saved.models) ? saved : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveModelDiscovery = (models: DiscoveredModel[]): ModelDiscovery => {
+  const discovery: ModelDiscovery = { models, verifiedAt: Date.now() };
+  localStorage.setItem(DISCOVERY_STORAGE, JSON.stringify(discovery));
+  return discovery;
+};
+
+export const clearModelDiscovery = (): void => {
+  localStorage.removeItem(DISCOVERY_STORAGE);
+};
+
+/**
+ * Key দিয়ে Gemini-র models.list - যে মডেলগুলো generateContent সমর্থন করে
+ * ভুল key হলে Bangla বার্তাসহ Error
+ */
+export const discoverGeminiModels = async (apiKey: string, baseUrl: string): Promise<DiscoveredModel[]> => {
+  const models: DiscoveredModel[] = [];
+  let pageToken = '';
+
+  do {
+    const url = `${baseUrl.replace(/\/+$/, '')}/models?pageSize=100&key=${encodeURIComponent(apiKey)}` +
+      (pageToken ? `&pageToken=${encodeURIComponent(pageToken)}` : '');
+
+    let response: Response;
+    try {
+      response = await fetch(url);
+    } catch {
+      throw new Error('ইন্টারনেট সংযোগে সমস্যা। নেটওয়ার্ক চেক করুন।');
+    }
+
+    if (!response.ok) {
+      const bodyText = await response.text().catch(() => '');
+      if (response.status === 401 || response.status === 403 || bodyText.includes('API_KEY_INVALID')) {
+        throw new Error('API Key ভুল বা মেয়াদ উত্তীর্ণ।');
+      }
+      throw new Error(`মডেল তালিকা পাওয়া যায়নি (স্ট্যাটাস: ${response.status})`);
+    }
+
+    const data = await response.json();
+    for (const m of Array.isArray(data?.models) ? data.models : []) {
+      const id = String(m?.name || '').replace(/^models\//, '');
+      const methods: string[] = Array.isArray(m?.supportedGenerationMethods) ? m.supportedGenerationMethods : [];
+      if (!id.startsWith('gemini') || !methods.includes('generateContent') || NON_TEXT_MODEL.test(id)) continue;
+
+      models.push({
+        id,
+        name: m.displayName || id,
+        inputTokenLimit: typeof m.inputTokenLimit === 'number' ? m.inputTokenLimit : undefined,
+        outputTokenLimit: typeof m.outputTokenLimit === 'number' ? m.outputTokenLimit : undefined
+      });
+    }
+    pageToken = data?.nextPageToken || '';
+  } while (pageToken);
+
+  return models;
+};
+
+/**
+ * মডেল পিকারের তালিকা
+ * - যাচাই করা না থাকলে জানা মডেলগুলো
+ * - থাকলে: জানা মডেলের মধ্যে যেগুলো key ব্যবহার করতে পারে (limit সহ), তারপর নতুন মডেলগুলো ডিফল্ট limit-এ
+ */
+export const getAvailableModels = (discovery: ModelDiscovery | null = loadModelDiscovery()): ModelOption[] => {
+  if (!discovery || discovery.models.length === 0) return MODEL_OPTIONS;
+
+  const discoveredIds = discovery.models.map(m => m.id);
+  const known = MODEL_OPTIONS.filter(opt => discoveredIds.includes(opt.id));
+  const extra: ModelOption[] = discovery.models
+    .filter(m => !MODEL_OPTIONS.some(opt => opt.id === m.id))
+    .sort((a, b) => b.id.localeCompare(a.id))
+    .map(m => ({
+      id: m.id,
+      name: m.name,
+      desc: 'API থেকে পাওয়া',
+      ...DEFAULT_MODEL_LIMITS,
+      badge: ''
+    }));
+
+  return [...known, ...extra];
+};
+
+/**
+ * মডেলের নাম পেতে
+ */
+export const getModelName = (id: string): string =>
+  MODEL_OPTIONS.find(m => m.id === id)?.name ||
+  loadModelDiscovery()?.models.find(m => m.id === id)?.name ||
+  id;
+
+/**
+ * API থেকে পাওয়া token সীমা (না থাকলে undefined)
+ */
+export const getDiscoveredTokenLimits = (id: string): { input: number; output: number } | undefined => {
+  const model = loadModelDiscovery()?.models.find(m => m.id === id);
+  return model?.inputTokenLimit && model.outputTokenLimit
+    ? { input: model.inputTokenLimit, output: model.outputTokenLimit }
+    : undefined;
+};
@@ -0,0 +1,85 @@
+// src/utils/normalize.test.ts
+
+import { describe, expect, it } from 'vitest';
+import {
+  canonicalizeBangla,
+  findNonCanonicalWords,
+  mapToMatchForm,
+  normalize,
+  toMatchForm
+} from './normalize';
+
+// দেখতে একই অক্ষরের এনকোডিং আলাদা - তাই সব escape করে লেখা
+const YA = '\u09DF';
+const YA_NUKTA = '\u09AF\u09BC';
+const RRA = '\u09DC';
+const RRA_NUKTA = '\u09A1\u09BC';
+const RHA = '\u09DD';
+const RHA_NUKTA = '\u09A2\u09BC';
+const O_KAR = '\u09CB';
+const O_KAR_PARTS = '\u09C7\u09BE';
+const AU_KAR = '\u09CC';
+const AU_KAR_PARTS = '\u09C7\u09D7';
+const KHANDA_TA = '\u09CE';
+const TA_HASANTA = '\u09A4\u09CD';
+const HASANTA = '\u09CD';
+const ZWNJ = '\u200C';
+const ZWJ = '\u200D';
+
+const BARI = `বা${RRA}ি`;
+const BARI_NUKTA = `বা${RRA_NUKTA}ি`;
+
+describe('canonicalizeBangla', () => {
+  it('leaves already-standard text unchanged', () => {
+    const text = `${BARI} ${YA}ে গা${RHA} ক${O_KAR}থা উ${KHANDA_TA}স ক${HASANTA}${ZWNJ}ষ র${ZWJ}${HASANTA}য`;
+    expect(canonicalizeBangla(text)).toBe(text);
+    expect(findNonCanonicalWords(text)).toEqual([]);
+  });
+
+  it('recomposes nukta letters instead of decomposing them', () => {
+    expect(canonicalizeBangla(YA_NUKTA)).toBe(YA);
+    expect(canonicalizeBangla(RRA_NUKTA)).toBe(RRA);
+    expect(canonicalizeBangla(RHA_NUKTA)).toBe(RHA);
+    expect(canonicalizeBangla(`\u09AF${HASANTA}\u09BC`)).toBe(`${YA}${HASANTA}`);
+  });
+
+  it('composes two-part vowel signs', () => {
+    expect(canonicalizeBangla(`ক${O_KAR_PARTS}`)).toBe(`ক${O_KAR}`);
+    expect(canonicalizeBangla(`ক${AU_KAR_PARTS}`)).toBe(`ক${AU_KAR}`);
+  });
+
+  it('replaces legacy khanda ta and drops stray joiners', () => {
+    expect(canonicalizeBangla(`উ${TA_HASANTA}${ZWJ}স`)).toBe(`উ${KHANDA_TA}স`);
+    expect(canonicalizeBangla(`উ${TA_HASANTA}${ZWNJ}স`)).toBe(`উ${KHANDA_TA}স`);
+    expect(canonicalizeBangla(`কথা${ZWNJ}${ZWJ}`)).toBe('কথা');
+  });
+});
+
+describe('toMatchForm / normalize', () => {
+  it('treats every encoding of a word as equal', () => {
+    expect(normalize(BARI_NUKTA)).toBe(normalize(BARI));
+    expect(toMatchForm(`ক${HASANTA}${ZWNJ}ষ`)).toBe(`ক${HASANTA}ষ`);
+  });
+});
+
+describe('mapToMatchForm', () => {
+  it('maps offsets back to the source text', () => {
+    const source = `${BARI_NUKTA} ও ${BARI}`;
+    const { text, sourceOffset } = mapToMatchForm(source);
+    expect(text).toBe(`${BARI} ও ${BARI}`);
+    expect(sourceOffset(text.lastIndexOf(BARI))).toBe(source.lastIndexOf(BARI));
+    expect(sourceOffset(text.indexOf(' '))).toBe(source.indexOf(' '));
+    expect(sourceOffset(text.length)).toBe(source.length);
+  });
+});
+
+describe('findNonCanonicalWords', () => {
+  it('returns only the words that need rewriting', () => {
+    const text = `${BARI} ও ${BARI_NUKTA}, ${BARI_NUKTA}`;
+    const first = text.indexOf(BARI_NUKTA);
+    expect(findNonCanonicalWords(text)).toEqual([
+      { start: first, original: BARI_NUKTA, canonical: BARI, occurrence: 0 },
+      { start: text.indexOf(BARI_NUKTA, first + 1), original: BARI_NUKTA, canonical: BARI, occurrence: 1 }
+    ]);
+  });
+});
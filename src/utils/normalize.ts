@@ -1,16 +1,144 @@
+/* -------------------------------------------------------------------------- */
+/*                        BANGLA UNICODE                                      */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * একই বাংলা লেখার একাধিক এনকোডিং (পুরনো কিবোর্ড/ফন্ট কনভার্টার থেকে আসে) - মানক রূপ:
+ * - য় / ড় / ঢ়: একক অক্ষর (U+09DF / 09DC / 09DD) - মূল অক্ষর + নুক্তা (়) নয়
+ * - ো / ৌ: একক কারচিহ্ন (U+09CB / 09CC) - ে + া / ে + ৗ নয়
+ * - ৎ: একক অক্ষর (U+09CE) - ত + ্ + ZWJ/ZWNJ নয়
+ * - ZWJ/ZWNJ শুধু হসন্তের পাশে (যুক্তাক্ষরের রূপ ঠিক করে), বাকিগুলো বাদ
+ * সাধারণ কিবোর্ডের লেখা আগে থেকেই এই রূপে, তাই বেশিরভাগ টেক্সট হুবহু থাকে
+ * NFC ব্যবহার হয় না - সেটি উল্টো একক য়/ড়/ঢ়-কে নুক্তায় ভাঙে
+ * Word-এর search হুবহু মেলায়, তাই তুলনার আগে সব রূপ একটিতে আনা হয়
+ */
+const JOINERS = /[\u200C\u200D]/g;
+
+/** একটি মূল অক্ষর ও তার পরের সব চিহ্ন (কার, হসন্ত, নুক্তা, joiner) - কোনো নিয়ম এর বাইরে যায় না */
+const CLUSTER_PATTERN = /[^\p{M}\u200C\u200D][\p{M}\u200C\u200D]*|[\p{M}\u200C\u200D]+/gsu;
+
+/** মানক নয় এমন কিছু আছে কিনা - না থাকলে টেক্সট যেমন আছে তেমনই মানক */
+const NON_CANONICAL = /[\u200C\u200D]|[\u09A1\u09A2\u09AF\u09CD]\u09BC|\u09C7[\u09BE\u09D7]/;
+
+const CLUSTER_RULES: Array<[RegExp, string]> = [
+  // হসন্তের পরে লেখা নুক্তা মূল অক্ষরের পাশে আনা (য + ্ + ় → য + ় + ্)
+  [/\u09CD\u09BC/g, '\u09BC\u09CD'],
+  [/\u09A1\u09BC/g, '\u09DC'],
+  [/\u09A2\u09BC/g, '\u09DD'],
+  [/\u09AF\u09BC/g, '\u09DF'],
+  [/\u09C7\u09BE/g, '\u09CB'],
+  [/\u09C7\u09D7/g, '\u09CC'],
+  [/\u09A4\u09CD[\u200C\u200D]/g, '\u09CE'],
+  // হসন্তের আগে বা পরের joiner যুক্তাক্ষরের রূপ ঠিক করে (ক্‌ষ, র‍্য) - বাকিগুলো অর্থহীন
+  [/(?<!\u09CD)[\u200C\u200D](?!\u09CD)/g, '']
+];
+
+const canonicalizeCluster = (cluster: string): string =>
+  CLUSTER_RULES.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), cluster);
+
+const isCanonical = (text: string): boolean => !NON_CANONICAL.test(text);
+
+/**
+ * বাংলা লেখার মানক রূপ - ডকুমেন্টে লেখার উপযোগী (যুক্তাক্ষরের joiner থাকে)
+ */
+export const canonicalizeBangla = (text: string): string => {
+  if (!text || isCanonical(text)) return text;
+  return text.replace(CLUSTER_PATTERN, canonicalizeCluster);
+};
+
+/**
+ * তুলনার রূপ - মানক রূপ থেকে সব joiner বাদ (ক্‌ষ ও ক্ষ একই শব্দ ধরা হয়)
+ */
+export const toMatchForm = (text: string): string => canonicalizeBangla(text).replace(JOINERS, '');
+
+/**
+ * তুলনার রূপ ও মূল টেক্সটে ফেরার offset
+ * sourceOffset(i): তুলনার রূপের i-তম অবস্থান মূল টেক্সটের কোথায় (cluster-এর সীমানা ধরে)
+ */
+export interface MatchFormMapping {
+  text: string;
+  sourceOffset: (index: number) => number;
+}
+
+let lastMapping: { source: string; mapping: MatchFormMapping } | null = null;
+
+export const mapToMatchForm = (source: string): MatchFormMapping => {
+  if (lastMapping?.source === source) return lastMapping.mapping;
+
+  let mapping: MatchFormMapping;
+  if (isCanonical(source)) {
+    mapping = { text: source, sourceOffset: index => index };
+  } else {
+    const offsets: number[] = [];
+    let text = '';
+    for (const match of source.matchAll(CLUSTER_PATTERN)) {
+      const form = canonicalizeCluster(match[0]).replace(JOINERS, '');
+      for (let i = 0; i < form.length; i++) offsets.push(match.index!);
+      text += form;
+    }
+    offsets.push(source.length);
+    mapping = { text, sourceOffset: index => offsets[Math.min(Math.max(index, 0), offsets.length - 1)] };
+  }
+
+  // একই টেক্সটে পরপর অনেক খোঁজ হয় (প্রতিটি সাজেশনের জন্য একবার)
+  lastMapping = { source, mapping };
+  return mapping;
+};
+
+/**
+ * মানক রূপে না থাকা একটি শব্দ
+ * occurrence: টেক্সটে হুবহু একই শব্দের কততম (0 থেকে) - Word-এর search ফলাফলের index
+ */
+export interface NonCanonicalWord {
+  start: number;
+  original: string;
+  canonical: string;
+  occurrence: number;
+}
+
+/**
+ * টেক্সটের যে শব্দগুলো মানক রূপে নেই - ডকুমেন্টে ঠিক করার জন্য
+ */
+export const findNonCanonicalWords = (text: string): NonCanonicalWord[] => {
+  if (isCanonical(text)) return [];
+  const words: NonCanonicalWord[] = [];
+  const seen = new Map<string, number>();
+  for (const match of text.matchAll(/[\p{L}\p{M}\p{N}\u200C\u200D]+/gu)) {
+    const original = match[0];
+    const canonical = canonicalizeBangla(original);
+    if (canonical === original) continue;
+    const occurrence = seen.get(original) ?? 0;
+    seen.set(original, occurrence + 1);
+    words.push({ start: match.index!, original, canonical, occurrence });
+  }
+  return words;
+};
+
+/**
+ * পরীক্ষার আগে ডকুমেন্টের এনকোডিংও ঠিক করা হবে কিনা (ডিফল্ট বন্ধ - ডকুমেন্ট বদলায়)
+ */
+export const UNICODE_FIX_STORAGE = 'bhasha_mitra_unicode_fix';
+
+export const isUnicodeFixEnabled = (): boolean => localStorage.getItem(UNICODE_FIX_STORAGE) === 'true';
+
+export const setUnicodeFixEnabled = (enabled: boolean): void => {
+  localStorage.setItem(UNICODE_FIX_STORAGE, String(enabled));
+};
+
 /* -------------------------------------------------------------------------- */
 /*                        TEXT NORMALIZATION                                  */
 /* -------------------------------------------------------------------------- */
 
 /**
  * Normalize text for comparison
+ * - Bangla canonical form (see toMatchForm)
  * - Trims whitespace
  * - Converts multiple spaces/newlines to single space
  * - Converts to lowercase
  */
 export const normalize = (str: string): string => {
   if (!str) return '';
-  return str
+  return toMatchForm(str)
     .trim()
     .replace(/[\r\n]+/g, ' ')
     .replace(/\s+/g, ' ')
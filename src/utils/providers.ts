@@ -0,0 +1,259 @@
+// src/utils/providers.ts
+
+import { ProviderId, PROVIDER_OPTIONS } from '../prompts/core';
+import { extractTextFromGeminiResponse } from './toonParser';
+import { StreamFormat } from './stream';
+import { JsonSchema, toGeminiSchema, toStandardSchema } from './schema';
+
+/**
+ * Provider-এর সংযোগ সেটিংস (সেটিংস মডাল থেকে আসে)
+ */
+export interface ProviderSettings {
+  id: ProviderId;
+  baseUrl?: string;
+}
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = { id: 'gemini' };
+
+/**
+ * Generation প্যারামিটার - সব provider একই মান পায়
+ */
+export interface GenerationOptions {
+  temperature: number;
+  maxOutputTokens: number;
+  /** দিলে provider-এর structured output (JSON) চালু হয় */
+  responseSchema?: JsonSchema;
+}
+
+/**
+ * Response-এর usage metadata থেকে token হিসাব
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface ProviderRequest {
+  url: string;
+  init: RequestInit;
+}
+
+/**
+ * প্রতিটি LLM provider নিজের URL, auth, error ও response ফরম্যাট জানে
+ */
+export interface LLMProvider {
+  id: ProviderId;
+  /** দৈনিক/মিনিটের কোটা ট্র্যাক করা হবে কিনা (শুধু Gemini free tier) */
+  tracksQuota: boolean;
+  /** API Key ছাড়া চলে কিনা */
+  requiresApiKey: boolean;
+  streamFormat: StreamFormat;
+  buildRequest: (
+    prompt: string,
+    apiKey: string,
+    model: string,
+    baseUrl: string,
+    generation: GenerationOptions,
+    stream: boolean
+  ) => ProviderRequest;
+  extractText: (data: any) => string | null;
+  /** Streaming event থেকে নতুন টেক্সট অংশ */
+  extractStreamText: (event: any) => string | null;
+  /** Event-এ usage metadata থাকলে token হিসাব */
+  extractUsage: (event: any) => TokenUsage | null;
+  /** উত্তর maxOutputTokens-এ পৌঁছে থেমে গেছে কিনা (finish reason) */
+  isTruncated: (event: any) => boolean;
+  errorMessages: (model: string) => Record<number, string>;
+}
+
+const trimSlash = (url: string): string => url.replace(/\/+$/, '');
+
+const geminiProvider: LLMProvider = {
+  id: 'gemini',
+  tracksQuota: true,
+  requiresApiKey: true,
+  streamFormat: 'sse',
+  buildRequest: (prompt, apiKey, model, baseUrl, generation, stream) => ({
+    url: stream
+      ? `${trimSlash(baseUrl)}/models/${model}:streamGenerateContent?alt=sse&key=${apiKey}`
+      : `${trimSlash(baseUrl)}/models/${model}:generateContent?key=${apiKey}`,
+    init: {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        contents: [{ parts: [{ text: prompt }] }],
+        generationConfig: {
+          temperature: generation.temperature,
+          maxOutputTokens: generation.maxOutputTokens,
+          ...(generation.responseSchema
+            ? { responseMimeType: 'application/json', responseSchema: toGeminiSchema(generation.responseSchema) }
+            : { responseMimeType: 'text/plain' })
+        }
+      })
+    }
+  }),
+  extractText: extractTextFromGeminiResponse,
+  extractStreamText: extractTextFromGeminiResponse,
+  extractUsage: (event) => {
+    const usage = event?.usageMetadata;
+    if (!usage || typeof usage.promptTokenCount !== 'number') return null;
+    return {
+      inputTokens: usage.promptTokenCount,
+      outputTokens: usage.candidatesTokenCount || 0
+    };
+  },
+  isTruncated: (event) => event?.candidates?.[0]?.finishReason === 'MAX_TOKENS',
+  errorMessages: (model) => ({
+    400: 'রিকুয়েস্ট ফরম্যাট সঠিক নয় বা টেক্সট অনেক বেশি বড়।',
+    401: 'API Key ভুল বা মেয়াদ উত্তীর্ণ। সেটিংস চেক করুন।',
+    403: 'API অনুমতি নেই। API Key চেক করুন।',
+    404: `মডেল "${model}" পাওয়া যায়নি। সেটিংস থেকে সঠিক মডেল বেছে নিন।`,
+    500: 'Gemini সার্ভারে সমস্যা। কিছুক্ষণ পর আবার চেষ্টা করুন।',
+    503: 'Gemini সার্ভার ব্যস্ত। কিছুক্ষণ পর চেষ্টা করুন।'
+  })
+};
+
+const openAIProvider: LLMProvider = {
+  id: 'openai',
+  tracksQuota: false,
+  requiresApiKey: false,
+  streamFormat: 'sse',
+  buildRequest: (prompt, apiKey, model, baseUrl, generation, stream) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+    return {
+      url: `${trimSlash(baseUrl)}/chat/completions`,
+      init: {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model,
+          messages: [{ role: 'user', content: prompt }],
+          temperature: generation.temperature,
+          max_tokens: generation.maxOutputTokens,
+          ...(generation.responseSchema
+            ? {
+                response_format: {
+                  type: 'json_schema',
+                  json_schema: { name: 'unified_response', schema: toStandardSchema(generation.responseSchema) }
+                }
+              }
+            : {}),
+          stream,
+          ...(stream ? { stream_options: { include_usage: true } } : {})
+        })
+      }
+    };
+  },
+  extractText: (data) => {
+    const content = data?.choices?.[0]?.message?.content;
+    return typeof content === 'string' && content ? content : null;
+  },
+  extractStreamText: (event) => {
+    const content = event?.choices?.[0]?.delta?.content;
+    return typeof content === 'string' && content ? content : null;
+  },
+  extractUsage: (event) => {
+    const usage = event?.usage;
+    if (!usage || typeof usage.prompt_tokens !== 'number') return null;
+    return {
+      inputTokens: usage.prompt_tokens,
+      outputTokens: usage.completion_tokens || 0
+    };
+  },
+  isTruncated: (event) => event?.choices?.[0]?.finish_reason === 'length',
+  errorMessages: (model) => ({
+    400: 'রিকুয়েস্ট ফরম্যাট সঠিক নয় বা টেক্সট অনেক বেশি বড়।',
+    401: 'API Key ভুল বা মেয়াদ উত্তীর্ণ। সেটিংস চেক করুন।',
+    403: 'API অনুমতি নেই। API Key চেক করুন।',
+    404: `মডেল "${model}" বা endpoint পাওয়া যায়নি। Base URL ও মডেলের নাম চেক করুন।`,
+    429: 'Rate limit! Provider অনুরোধ সীমিত করেছে। কিছুক্ষণ পর চেষ্টা করুন।',
+    500: 'Provider সার্ভারে সমস্যা। কিছুক্ষণ পর আবার চেষ্টা করুন।',
+    503: 'Provider সার্ভার ব্যস্ত। কিছুক্ষণ পর চেষ্টা করুন।'
+  })
+};
+
+const localProvider: LLMProvider = {
+  id: 'local',
+  tracksQuota: false,
+  requiresApiKey: false,
+  streamFormat: 'ndjson',
+  buildRequest: (prompt, apiKey, model, baseUrl, generation, stream) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+    return {
+      url: `${trimSlash(baseUrl)}/api/generate`,
+      init: {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model,
+          prompt,
+          stream,
+          ...(generation.responseSchema ? { format: toStandardSchema(generation.responseSchema) } : {}),
+          options: {
+            temperature: generation.temperature,
+            num_predict: generation.maxOutputTokens
+          }
+        })
+      }
+    };
+  },
+  extractText: (data) => {
+    // Ollama: { response }, llama.cpp /completion: { content }
+    const content = data?.response ?? data?.content;
+    return typeof content === 'string' && content ? content : null;
+  },
+  extractStreamText: (event) => {
+    const content = event?.response ?? event?.content;
+    return typeof content === 'string' && content ? content : null;
+  },
+  extractUsage: (event) => {
+    if (!event?.done || typeof event.prompt_eval_count !== 'number') return null;
+    return {
+      inputTokens: event.prompt_eval_count,
+      outputTokens: event.eval_count || 0
+    };
+  },
+  // Ollama: done_reason, llama.cpp: stopped_limit
+  isTruncated: (event) => event?.done_reason === 'length' || event?.stopped_limit === true,
+  errorMessages: (model) => ({
+    400: 'লোকাল সার্ভার রিকুয়েস্ট গ্রহণ করেনি। টেক্সট ছোট করে চেষ্টা করুন।',
+    404: `মডেল "${model}" লোকাল সার্ভারে নেই। আগে মডেলটি নামিয়ে নিন (pull)।`,
+    500: 'লোকাল সার্ভারে সমস্যা। সার্ভারের লগ চেক করুন।',
+    503: 'লোকাল সার্ভার প্রস্তুত নয়। মডেল লোড হওয়া পর্যন্ত অপেক্ষা করুন।'
+  })
+};
+
+const PROVIDERS: Record<ProviderId, LLMProvider> = {
+  gemini: geminiProvider,
+  openai: openAIProvider,
+  local: localProvider
+};
+
+/**
+ * Provider ID থেকে provider পাওয়া (অজানা হলে Gemini)
+ */
+export const getProvider = (id: ProviderId): LLMProvider => PROVIDERS[id] || geminiProvider;
+
+/**
+ * Base URL না দিলে provider-এর ডিফল্ট URL
+ */
+export const resolveBaseUrl = (settings: ProviderSettings): string => {
+  if (settings.baseUrl && settings.baseUrl.trim()) {
+    return settings.baseUrl.trim();
+  }
+  const option = PROVIDER_OPTIONS.find(p => p.id === settings.id) || PROVIDER_OPTIONS[0];
+  return option.defaultBaseUrl;
+};
+
+/**
+ * Provider অনুযায়ী API Key-এর localStorage key
+ * (Gemini-র key আগের মতোই `gemini_api_key`-এ থাকে)
+ */
+export const getApiKeyStorageKey = (id: ProviderId): string =>
+  id === 'gemini' ? 'gemini_api_key' : `llm_api_key_${id}`;
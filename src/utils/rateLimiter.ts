@@ -0,0 +1,138 @@
+// src/utils/rateLimiter.ts
+
+import { delay } from './normalize';
+
+const WINDOW_MS = 60000;
+
+/**
+ * প্রতি মিনিটের sliding window-এর একটি request
+ */
+interface WindowEntry {
+  id: string;
+  /** request শুরুর সময় (ms) */
+  t: number;
+  /** আনুমানিক বা (usage metadata পাওয়ার পর) প্রকৃত token */
+  tokens: number;
+}
+
+export interface MinuteLimits {
+  rpm: number;
+  tpm: number;
+}
+
+export interface WindowUsage {
+  requests: number;
+  tokens: number;
+}
+
+const windowKey = (model: string): string => `bhasha_mitra_window_${model}`;
+
+/**
+ * localStorage-এ রাখা হয় যাতে একাধিক task pane/ট্যাব একই window দেখে
+ */
+const loadWindow = (model: string): WindowEntry[] => {
+  const cutoff = Date.now() - WINDOW_MS;
+  try {
+    const saved = JSON.parse(localStorage.getItem(windowKey(model)) || '[]');
+    return Array.isArray(saved) ? saved.filter((e: WindowEntry) => e.t > cutoff) : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveWindow = (model: string, entries: WindowEntry[]): void => {
+  localStorage.setItem(windowKey(model), JSON.stringify(entries));
+};
+
+/**
+ * গত এক মিনিটের request ও token ব্যবহার
+ */
+export const getWindowUsage = (model: string): WindowUsage => {
+  const entries = loadWindow(model);
+  return {
+    requests: entries.length,
+    tokens: entries.reduce((sum, e) => sum + e.tokens, 0)
+  };
+};
+
+/**
+ * নতুন request পাঠাতে কত ms অপেক্ষা করতে হবে (0 = এখনই)
+ */
+export const getNextSlotDelay = (model: string, limits: MinuteLimits, estimatedTokens: number): number => {
+  const entries = loadWindow(model).sort((a, b) => a.t - b.t);
+  const now = Date.now();
+  let wait = 0;
+
+  // rpm: সবচেয়ে পুরনো request window থেকে বের হওয়া পর্যন্ত
+  if (entries.length >= limits.rpm) {
+    const oldest = entries[entries.length - limits.rpm];
+    wait = Math.max(wait, oldest.t + WINDOW_MS - now);
+  }
+
+  // tpm: যথেষ্ট token খালি না হওয়া পর্যন্ত পুরনো request বাদ দেওয়া
+  let used = entries.reduce((sum, e) => sum + e.tokens, 0);
+  for (const entry of entries) {
+    if (used + estimatedTokens <= limits.tpm) break;
+    used -= entry.tokens;
+    wait = Math.max(wait, entry.t + WINDOW_MS - now);
+  }
+
+  return Math.max(0, wait);
+};
+
+// একই task pane-এর request একটির পর একটি slot পায়
+let queue: Promise<unknown> = Promise.resolve();
+
+/**
+ * rpm/tpm-এ জায়গা হওয়া পর্যন্ত অপেক্ষা করে slot নেওয়া
+ * অপেক্ষার সময় প্রতি সেকেন্ডে onWait(বাকি সেকেন্ড) ডাকা হয়, slot পেলে onWait(0)
+ * signal বাতিল হলে AbortError দিয়ে reject হয় (slot নেওয়া হয় না)
+ */
+export const acquireSlot = (
+  model: string,
+  limits: MinuteLimits,
+  estimatedTokens: number,
+  onWait?: (seconds: number) => void,
+  signal?: AbortSignal
+): Promise<string> => {
+  const throwIfAborted = () => {
+    if (signal?.aborted) throw new DOMException('Slot wait aborted', 'AbortError');
+  };
+
+  const run = async (): Promise<string> => {
+    throwIfAborted();
+    let wait = getNextSlotDelay(model, limits, estimatedTokens);
+    const waited = wait > 0;
+    while (wait > 0) {
+      onWait?.(Math.ceil(wait / 1000));
+      await delay(Math.min(wait, 1000));
+      throwIfAborted();
+      wait = getNextSlotDelay(model, limits, estimatedTokens);
+    }
+    if (waited) {
+      onWait?.(0);
+    }
+
+    const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    const entries = loadWindow(model);
+    entries.push({ id, t: Date.now(), tokens: estimatedTokens });
+    saveWindow(model, entries);
+    return id;
+  };
+
+  const slot = queue.then(run, run);
+  queue = slot.catch(() => undefined);
+  return slot;
+};
+
+/**
+ * Response-এর usage metadata দিয়ে আনুমানিক token প্রকৃত মানে বদলানো
+ */
+export const recordTokenUsage = (model: string, slotId: string, tokens: number): void => {
+  const entries = loadWindow(model);
+  const entry = entries.find(e => e.id === slotId);
+  if (entry) {
+    entry.tokens = tokens;
+    saveWindow(model, entries);
+  }
+};
@@ -0,0 +1,88 @@
+// src/utils/retry.ts
+
+/**
+ * যেসব status সাময়িক - একটু পরে আবার চেষ্টা করলে সফল হতে পারে
+ */
+export const RETRYABLE_STATUSES = [429, 500, 503];
+
+export const MAX_RETRIES = 3;
+
+const BASE_BACKOFF_MS = 2000;
+const MAX_BACKOFF_MS = 60000;
+
+/**
+ * 429-এর কোটা কোন ধরনের
+ * - minute: প্রতি মিনিটের burst (একটু অপেক্ষা করলেই চলবে)
+ * - day: দৈনিক কোটা সত্যিই শেষ
+ */
+export type QuotaScope = 'minute' | 'day' | 'unknown';
+
+export interface QuotaErrorInfo {
+  scope: QuotaScope;
+  retryDelayMs?: number;
+}
+
+/**
+ * "32s" / "1.5s" ধরনের duration থেকে ms
+ */
+const parseDuration = (value: unknown): number | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)s$/);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+};
+
+/**
+ * Google-এর error body (google.rpc QuotaFailure / RetryInfo) থেকে কোটার ধরন বের করা
+ */
+export const parseQuotaError = (bodyText: string): QuotaErrorInfo => {
+  const info: QuotaErrorInfo = { scope: 'unknown' };
+
+  let body: any;
+  try {
+    body = JSON.parse(bodyText);
+  } catch {
+    return info;
+  }
+
+  const details: any[] = Array.isArray(body?.error?.details) ? body.error.details : [];
+  const quotaIds: string[] = [];
+
+  for (const detail of details) {
+    const type = String(detail?.['@type'] || '');
+
+    if (type.endsWith('QuotaFailure') && Array.isArray(detail.violations)) {
+      for (const v of detail.violations) {
+        quotaIds.push(`${v?.quotaId || ''} ${v?.quotaMetric || ''}`);
+      }
+    } else if (type.endsWith('RetryInfo')) {
+      info.retryDelayMs = parseDuration(detail.retryDelay);
+    }
+  }
+
+  if (quotaIds.some(id => /PerDay/i.test(id))) {
+    info.scope = 'day';
+  } else if (quotaIds.some(id => /PerMinute/i.test(id))) {
+    info.scope = 'minute';
+  }
+
+  return info;
+};
+
+/**
+ * Exponential backoff with full jitter
+ * সার্ভার retry delay দিলে সেটিকেই ন্যূনতম ধরা হয়
+ */
+export const getBackoffDelay = (attempt: number, serverDelayMs?: number): number => {
+  const exponential = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+  const jittered = exponential / 2 + Math.random() * (exponential / 2);
+  return Math.round(Math.min(MAX_BACKOFF_MS, Math.max(jittered, serverDelayMs ?? 0)));
+};
+
+/**
+ * Retry-After header (সেকেন্ড) থেকে ms
+ */
+export const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : undefined;
+};
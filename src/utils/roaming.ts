@@ -0,0 +1,105 @@
+// src/utils/roaming.ts
+
+import { PROVIDER_OPTIONS } from '../prompts/core';
+import { ROTATION_STORAGE } from './apiKeys';
+import { CONFIDENCE_STORAGE } from './confidence';
+import { VERIFY_STORAGE } from './verify';
+import { CONSENSUS_STORAGE } from './consensus';
+import { UNICODE_FIX_STORAGE } from './normalize';
+
+/**
+ * ডকুমেন্টের settings দিয়ে সেটিংস সিঙ্ক
+ * Word-এ Outlook-এর মতো roaming settings নেই - তাই সেটিংস ডকুমেন্টের ভেতরে রাখা হয়,
+ * অন্য কম্পিউটারে ডকুমেন্টটি খুললে সেগুলো আসে
+ * এটি ব্যবহারকারীর নিজস্ব store নয় - ফাইলটি যার হাতে যায় সেটিংসও তার কাছে যায়
+ * - মডেল, ফরম্যাট ইত্যাদি সাধারণ সেটিংস
+ * - provider ও সার্ভারের ঠিকানা কখনো নয়: অন্যের ডকুমেন্ট খুললেই API key অচেনা host-এ যেত,
+ *   আর শেয়ার করা ডকুমেন্টে নিজের private endpoint ফাঁস হতো
+ * - API key (খোলা বা এনক্রিপ্ট করা) কখনো নয়
+ */
+const ROAMING_SETTING = 'bhasha_mitra_settings';
+const ENABLED_STORAGE = 'bhasha_mitra_roaming_enabled';
+const SYNCED_AT_STORAGE = 'bhasha_mitra_roaming_synced_at';
+
+interface RoamingPayload {
+  updatedAt: number;
+  values: Record<string, string>;
+}
+
+const SETTING_KEYS = [
+  'gemini_model',
+  'gemini_fallback_enabled',
+  'gemini_fallback_order',
+  'llm_output_mode',
+  'doc_type',
+  CONFIDENCE_STORAGE,
+  VERIFY_STORAGE,
+  CONSENSUS_STORAGE,
+  UNICODE_FIX_STORAGE,
+  ROTATION_STORAGE,
+  ...PROVIDER_OPTIONS.map(p => `llm_model_${p.id}`)
+];
+
+const getRoamingSettings = (): Office.Settings | null =>
+  typeof Office !== 'undefined' && Office.context?.document?.settings ? Office.context.document.settings : null;
+
+/**
+ * এই Office অ্যাপে ডকুমেন্টের settings আছে কিনা
+ */
+export const isRoamingAvailable = (): boolean => getRoamingSettings() !== null;
+
+export const isRoamingEnabled = (): boolean => localStorage.getItem(ENABLED_STORAGE) === 'true';
+
+export const setRoamingEnabled = (enabled: boolean): void => {
+  localStorage.setItem(ENABLED_STORAGE, String(enabled));
+};
+
+/**
+ * ডকুমেন্টে রাখা সেটিংস localStorage-এ আনা (App render-এর আগে ডাকা হয়)
+ * শুধু SETTING_KEYS - পুরনো সংস্করণের রাখা key বা vault থাকলেও এখানকার key-তে হাত পড়ে না
+ * @returns নতুন কিছু আনা হলে true
+ */
+export const pullRoamingSettings = (): boolean => {
+  const settings = getRoamingSettings();
+  if (!settings || !isRoamingEnabled()) return false;
+
+  const payload = settings.get(ROAMING_SETTING) as RoamingPayload | undefined;
+  if (!payload || typeof payload.updatedAt !== 'number' || !payload.values) return false;
+  if (payload.updatedAt <= Number(localStorage.getItem(SYNCED_AT_STORAGE) || 0)) return false;
+
+  for (const [key, value] of Object.entries(payload.values)) {
+    if (SETTING_KEYS.includes(key) && typeof value === 'string') {
+      localStorage.setItem(key, value);
+    }
+  }
+  localStorage.setItem(SYNCED_AT_STORAGE, String(payload.updatedAt));
+  return true;
+};
+
+/**
+ * বর্তমান সেটিংস ডকুমেন্টে রাখা
+ */
+export const pushRoamingSettings = (): Promise<void> => {
+  const settings = getRoamingSettings();
+  if (!settings) return Promise.reject(new Error('এই Office অ্যাপে ডকুমেন্টে সেটিংস রাখা যায় না'));
+
+  const values: Record<string, string> = {};
+  for (const key of SETTING_KEYS) {
+    const value = localStorage.getItem(key);
+    if (value !== null) values[key] = value;
+  }
+
+  const payload: RoamingPayload = { updatedAt: Date.now(), values };
+  settings.set(ROAMING_SETTING, payload);
+
+  return new Promise((resolve, reject) => {
+    settings.saveAsync(result => {
+      if (result.status === Office.AsyncResultStatus.Succeeded) {
+        localStorage.setItem(SYNCED_AT_STORAGE, String(payload.updatedAt));
+        resolve();
+      } else {
+        reject(new Error(`ডকুমেন্টে সেটিংস সংরক্ষণ ব্যর্থ: ${result.error?.message || 'অজানা ত্রুটি'}`));
+      }
+    });
+  });
+};
@@ -0,0 +1,302 @@
+// src/utils/schema.ts
+
+import type { ContentAnalysis } from '../types';
+
+/**
+ * JSON Schema-র যে অংশটুকু সব provider (Gemini, OpenAI, Ollama) বোঝে
+ */
+export interface JsonSchema {
+  type: 'string' | 'integer' | 'boolean' | 'array' | 'object';
+  description?: string;
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  nullable?: boolean;
+}
+
+/**
+ * মডেলের JSON উত্তরের আকার (section অনুযায়ী) - parser এটিকে সাজেশনের তালিকায় রূপান্তর করে
+ */
+export interface SchemaResponse {
+  spellingErrors?: Array<{ wrong: string; suggestions: string[]; position?: number; confidence?: number }>;
+  grammarIssues?: Array<{
+    current: string;
+    correction: string;
+    type: string;
+    reason: string;
+    position?: number;
+    confidence?: number;
+  }>;
+  languageStyleMixing?: {
+    detected: boolean;
+    recommendedStyle?: string;
+    reason?: string;
+    corrections?: Array<{ current: string; suggestion: string; type: string; position?: number; confidence?: number }>;
+  };
+  punctuationIssues?: Array<{
+    issue: string;
+    currentSentence: string;
+    correctedSentence: string;
+    explanation: string;
+    position?: number;
+    confidence?: number;
+  }>;
+  euphonyImprovements?: Array<{ current: string; suggestions: string[]; reason: string; position?: number; confidence?: number }>;
+  styleConversions?: Array<{ current: string; suggestion: string; type: string; position?: number; confidence?: number }>;
+  toneConversions?: Array<{ current: string; suggestion: string; reason: string; position?: number; confidence?: number }>;
+  contentAnalysis?: ContentAnalysis | null;
+}
+
+/**
+ * যাচাইয়ে বাদ পড়া বা ভুল ফিল্ডের বিবরণ
+ */
+export interface SchemaDiagnostic {
+  /** যেমন `spellingErrors[2]` বা `contentAnalysis.suggestions` */
+  path: string;
+  reason: string;
+}
+
+const string = (description?: string): JsonSchema => ({ type: 'string', ...(description ? { description } : {}) });
+const integer = (description?: string): JsonSchema => ({ type: 'integer', ...(description ? { description } : {}) });
+const boolean = (description?: string): JsonSchema => ({ type: 'boolean', ...(description ? { description } : {}) });
+const arrayOf = (items: JsonSchema, description?: string): JsonSchema => ({
+  type: 'array',
+  items,
+  ...(description ? { description } : {})
+});
+const object = (properties: Record<string, JsonSchema>, required: string[]): JsonSchema => ({
+  type: 'object',
+  properties,
+  required
+});
+
+const position = integer('0-based word index (প্রথম শব্দ = 0)');
+const confidence = integer('আস্থা 0-100 (কতটা নিশ্চিত)');
+
+const replacementItem = (reasonKey: 'type' | 'reason'): JsonSchema => object(
+  {
+    current: string('টেক্সট থেকে হুবহু'),
+    suggestion: string(),
+    [reasonKey]: string(),
+    position,
+    confidence
+  },
+  ['current', 'suggestion', reasonKey]
+);
+
+/**
+ * SchemaResponse-এর schema - request-এ পাঠানো হয় এবং উত্তর এটি দিয়েই যাচাই হয়
+ */
+export const UNIFIED_RESPONSE_SCHEMA: JsonSchema = object(
+  {
+    spellingErrors: arrayOf(object(
+      {
+        wrong: string('টেক্সট থেকে হুবহু ভুল শব্দ'),
+        suggestions: arrayOf(string(), 'সঠিক বানান'),
+        position,
+        confidence
+      },
+      ['wrong', 'suggestions']
+    )),
+    grammarIssues: arrayOf(object(
+      {
+        current: string('টেক্সট থেকে হুবহু ভুল অংশ'),
+        correction: string(),
+        type: string('কর্তা-ক্রিয়া/বিভক্তি/কাল/বাহুল্য'),
+        reason: string(),
+        position,
+        confidence
+      },
+      ['current', 'correction', 'type', 'reason']
+    )),
+    languageStyleMixing: object(
+      {
+        detected: boolean(),
+        recommendedStyle: string('সাধু বা চলিত'),
+        reason: string(),
+        corrections: arrayOf(replacementItem('type'))
+      },
+      ['detected']
+    ),
+    punctuationIssues: arrayOf(object(
+      {
+        issue: string(),
+        currentSentence: string('টেক্সট থেকে হুবহু বাক্য'),
+        correctedSentence: string(),
+        explanation: string(),
+        position,
+        confidence
+      },
+      ['issue', 'currentSentence', 'correctedSentence', 'explanation']
+    )),
+    euphonyImprovements: arrayOf(object(
+      {
+        current: string('টেক্সট থেকে হুবহু'),
+        suggestions: arrayOf(string()),
+        reason: string(),
+        position,
+        confidence
+      },
+      ['current', 'suggestions', 'reason']
+    )),
+    styleConversions: arrayOf(replacementItem('type')),
+    toneConversions: arrayOf(replacementItem('reason')),
+    contentAnalysis: {
+      ...object(
+        {
+          contentType: string(),
+          description: string(),
+          missingElements: arrayOf(string()),
+          suggestions: arrayOf(string())
+        },
+        ['contentType']
+      ),
+      nullable: true
+    }
+  },
+  [
+    'spellingErrors',
+    'grammarIssues',
+    'languageStyleMixing',
+    'punctuationIssues',
+    'euphonyImprovements',
+    'styleConversions',
+    'toneConversions',
+    'contentAnalysis'
+  ]
+);
+
+/**
+ * Gemini-র responseSchema (OpenAPI subset, বড় হাতের type)
+ */
+export const toGeminiSchema = (schema: JsonSchema): Record<string, unknown> => ({
+  type: schema.type.toUpperCase(),
+  ...(schema.description ? { description: schema.description } : {}),
+  ...(schema.nullable ? { nullable: true } : {}),
+  ...(schema.items ? { items: toGeminiSchema(schema.items) } : {}),
+  ...(schema.properties
+    ? {
+        properties: Object.fromEntries(
+          Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+        ),
+        required: schema.required || []
+      }
+    : {})
+});
+
+/**
+ * সাধারণ JSON Schema (OpenAI response_format, Ollama format) - nullable হয় `type: [x, 'null']`
+ */
+export const toStandardSchema = (schema: JsonSchema): Record<string, unknown> => ({
+  type: schema.nullable ? [schema.type, 'null'] : schema.type,
+  ...(schema.description ? { description: schema.description } : {}),
+  ...(schema.items ? { items: toStandardSchema(schema.items) } : {}),
+  ...(schema.properties
+    ? {
+        properties: Object.fromEntries(
+          Object.entries(schema.properties).map(([key, value]) => [key, toStandardSchema(value)])
+        ),
+        required: schema.required || []
+      }
+    : {})
+});
+
+type Checked = { value: unknown } | { error: string };
+
+const describe = (value: unknown): string =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+/**
+ * একটি মান schema অনুযায়ী যাচাই
+ * - array-র অবৈধ item বাদ যায় (diagnostic সহ), বাকিগুলো থাকে
+ * - object-এর ঐচ্ছিক ফিল্ড ভুল হলে শুধু সেই ফিল্ড বাদ, আবশ্যিক ফিল্ড ভুল হলে পুরো object অবৈধ
+ */
+const check = (value: unknown, schema: JsonSchema, path: string, diagnostics: SchemaDiagnostic[]): Checked => {
+  if (value === null && schema.nullable) return { value: null };
+
+  switch (schema.type) {
+    case 'string':
+      return typeof value === 'string' ? { value } : { error: `expected string, got ${describe(value)}` };
+
+    case 'integer':
+      return typeof value === 'number' && Number.isFinite(value)
+        ? { value: Math.round(value) }
+        : { error: `expected integer, got ${describe(value)}` };
+
+    case 'boolean':
+      return typeof value === 'boolean' ? { value } : { error: `expected boolean, got ${describe(value)}` };
+
+    case 'array': {
+      if (!Array.isArray(value)) return { error: `expected array, got ${describe(value)}` };
+      const items: unknown[] = [];
+      value.forEach((item, i) => {
+        const checked = check(item, schema.items!, `${path}[${i}]`, diagnostics);
+        if ('error' in checked) {
+          diagnostics.push({ path: `${path}[${i}]`, reason: `dropped: ${checked.error}` });
+        } else {
+          items.push(checked.value);
+        }
+      });
+      return { value: items };
+    }
+
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return { error: `expected object, got ${describe(value)}` };
+      }
+      const source = value as Record<string, unknown>;
+      const required = schema.required || [];
+      const cleaned: Record<string, unknown> = {};
+
+      for (const [key, fieldSchema] of Object.entries(schema.properties || {})) {
+        const fieldPath = `${path}.${key}`;
+        if (source[key] === undefined) {
+          if (required.includes(key)) return { error: `missing required field "${key}"` };
+          continue;
+        }
+
+        const checked = check(source[key], fieldSchema, fieldPath, diagnostics);
+        if ('error' in checked) {
+          if (required.includes(key)) return { error: `${key}: ${checked.error}` };
+          diagnostics.push({ path: fieldPath, reason: `removed: ${checked.error}` });
+        } else {
+          cleaned[key] = checked.value;
+        }
+      }
+      return { value: cleaned };
+    }
+  }
+};
+
+/**
+ * মডেলের JSON উত্তর schema দিয়ে যাচাই
+ * শুধু বৈধ top-level ফিল্ড ফেরত দেয় - বাকিগুলোর ডিফল্ট মান caller বসায়
+ */
+export const validateUnifiedResponse = (
+  data: unknown
+): { result: SchemaResponse; diagnostics: SchemaDiagnostic[] } => {
+  const diagnostics: SchemaDiagnostic[] = [];
+
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    diagnostics.push({ path: '$', reason: `expected object, got ${describe(data)}` });
+    return { result: {}, diagnostics };
+  }
+
+  const source = data as Record<string, unknown>;
+  const result: Record<string, unknown> = {};
+
+  for (const [key, schema] of Object.entries(UNIFIED_RESPONSE_SCHEMA.properties!)) {
+    if (source[key] === undefined) {
+      diagnostics.push({ path: key, reason: 'missing required field' });
+      continue;
+    }
+    const checked = check(source[key], schema, key, diagnostics);
+    if ('error' in checked) {
+      diagnostics.push({ path: key, reason: `dropped: ${checked.error}` });
+    } else {
+      result[key] = checked.value;
+    }
+  }
+
+  return { result: result as SchemaResponse, diagnostics };
+};
@@ -0,0 +1,71 @@
+// src/utils/stream.ts
+
+import { createLogger } from './logger';
+
+const log = createLogger('stream');
+
+/**
+ * Streaming response-এর ফরম্যাট
+ * - sse: `data: {...}` লাইন (Gemini alt=sse, OpenAI)
+ * - ndjson: প্রতি লাইনে একটি JSON (Ollama)
+ */
+export type StreamFormat = 'sse' | 'ndjson';
+
+const parseEventLine = (line: string, format: StreamFormat): any | null => {
+  let payload = line.trim();
+  if (!payload) return null;
+
+  if (format === 'sse') {
+    if (!payload.startsWith('data:')) return null;
+    payload = payload.substring(5).trim();
+    if (!payload || payload === '[DONE]') return null;
+  }
+
+  try {
+    return JSON.parse(payload);
+  } catch {
+    log.warn('Invalid stream event', payload.substring(0, 100));
+    return null;
+  }
+};
+
+/**
+ * Response body লাইন ধরে পড়া এবং প্রতিটি JSON event callback-এ পাঠানো
+ */
+export const readEventStream = async (
+  response: Response,
+  format: StreamFormat,
+  onEvent: (event: any) => void
+): Promise<void> => {
+  if (!response.body) {
+    // Streaming সমর্থিত নয় - পুরো body একবারে
+    const text = await response.text();
+    for (const line of text.split('\n')) {
+      const event = parseEventLine(line, format);
+      if (event) onEvent(event);
+    }
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let pending = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    pending += decoder.decode(value, { stream: true });
+    const lines = pending.split('\n');
+    pending = lines.pop() || '';
+
+    for (const line of lines) {
+      const event = parseEventLine(line, format);
+      if (event) onEvent(event);
+    }
+  }
+
+  pending += decoder.decode();
+  const event = parseEventLine(pending, format);
+  if (event) onEvent(event);
+};
@@ -0,0 +1,119 @@
+// src/utils/styleMixing.test.ts
+
+import { describe, expect, it } from 'vitest';
+import { canonicalizeBangla } from './normalize';
+import { detectStyleMixing, mergeStyleMixing, styleConversions } from './styleMixing';
+import { createParsedIssue, emptyResponse } from './issues';
+import { anchorResponse } from './anchoring';
+
+describe('detectStyleMixing', () => {
+  it('flags the minority style and recommends the majority', () => {
+    const text = 'সে বাড়ি গিয়াছিল, তাহার পর আমি বই পড়ছিলাম।';
+    const { mixing, issues } = detectStyleMixing(text);
+
+    expect(mixing).toMatchObject({ detected: true, recommendedStyle: 'সাধু' });
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({
+      category: 'mixing',
+      original: 'পড়ছিলাম',
+      label: 'চলিত→সাধু',
+      source: 'rules'
+    });
+    expect(text.slice(issues[0].span.start, issues[0].span.end)).toBe('পড়ছিলাম');
+  });
+
+  it('prefers চলিত when both styles are equally frequent', () => {
+    const { mixing, issues } = detectStyleMixing('তাহারা বাড়ি গেল, তারা বসে আছে।');
+
+    expect(mixing).toMatchObject({ detected: true, recommendedStyle: 'চলিত' });
+    expect(issues.map(issue => issue.original)).toEqual(['তাহারা']);
+    expect(issues[0].replacements).toEqual([canonicalizeBangla('তারা')]);
+  });
+
+  it('reports nothing for text in a single style', () => {
+    expect(detectStyleMixing('আমি কাল বাজারে যাব, তারপর বই পড়ব।').mixing.detected).toBe(false);
+    expect(detectStyleMixing('আমি কল্য বাজারে যাইব, তাহার পর বই পড়িব।').mixing.detected).toBe(false);
+  });
+
+  it('does not count words valid in both styles as mixing', () => {
+    // নিকট, ন্যায় (বিচার) চলিততেও শুদ্ধ
+    expect(detectStyleMixing('নিকট ভবিষ্যতে আমরা ন্যায় বিচার চাই, তাই তারা এসেছে।').mixing.detected).toBe(false);
+    expect(detectStyleMixing('আমি তোমার নিকটে এসেছি।').issues).toEqual([]);
+    // হল, দেব বিশেষ্য হিসেবে সাধু লেখাতেও আসে
+    expect(detectStyleMixing('তাহারা সভার হলে আসিয়াছিলেন।').mixing.detected).toBe(false);
+    expect(detectStyleMixing('দেব তাহাদিগকে আশীর্বাদ করিলেন।').mixing.detected).toBe(false);
+    expect(detectStyleMixing('হত সৈনিকের দেহ তাহারা লইয়া গেল।').issues.map(issue => issue.original))
+      .not.toContain('হত');
+  });
+
+  it('still converts the sadhu verb forms of হ and দে', () => {
+    const { issues } = detectStyleMixing('কাজটি শেষ হইল, আমি তোমাকে বইটা দিব, তারা এসেছে, আমরা খেয়েছি।');
+
+    expect(issues.map(issue => [issue.original, issue.replacements[0]])).toEqual([
+      ['হইল', canonicalizeBangla('হল')],
+      ['দিব', canonicalizeBangla('দেব')]
+    ]);
+  });
+
+  it('matches words written in a non-canonical encoding', () => {
+    // য় ভেঙে লেখা (য + নুক্তা)
+    const text = 'সে গি\u09AF\u09BCাছিল, আমরা খেয়েছি, তারা এসেছে।';
+    const { issues } = detectStyleMixing(text);
+
+    expect(issues).toHaveLength(1);
+    expect(text.slice(issues[0].span.start, issues[0].span.end)).toBe('গি\u09AF\u09BCাছিল');
+    expect(issues[0].replacements).toEqual([canonicalizeBangla('গিয়েছিল')]);
+  });
+});
+
+describe('styleConversions', () => {
+  it('counts occurrences of the same word for anchoring', () => {
+    const text = 'তাহার বই, তাহার খাতা।';
+    const conversions = styleConversions(text, 'cholito');
+
+    expect(conversions.map(issue => issue.span)).toEqual([
+      { start: 0, end: 5, occurrence: 0 },
+      { start: 10, end: 15, occurrence: 1 }
+    ]);
+    expect(styleConversions(text, 'sadhu')).toEqual([]);
+  });
+
+  it('converts চলিত verbs back to সাধু except ambiguous forms', () => {
+    const conversions = styleConversions('আমি বলেছি, সে হল-এ দেব দর্শনে গেল।', 'sadhu');
+
+    expect(conversions.map(issue => [issue.original, issue.replacements[0]])).toEqual([
+      ['বলেছি', canonicalizeBangla('বলিয়াছি')]
+    ]);
+  });
+});
+
+describe('mergeStyleMixing', () => {
+  it('replaces the model verdict and keeps model corrections that do not overlap', () => {
+    const text = 'সে বাড়ি গিয়াছিল, তাহার পর আমি বই পড়ছিলাম, ঘরে বসিয়াছিলাম।';
+    const local = detectStyleMixing(text);
+    const model = anchorResponse({
+      ...emptyResponse(),
+      languageStyleMixing: { detected: true, recommendedStyle: 'চলিত' },
+      issues: [
+        createParsedIssue('mixing', { original: 'পড়ছিলাম', replacements: ['পড়িতেছিলাম'] }),
+        createParsedIssue('mixing', { original: 'ঘরে', replacements: ['গৃহে'] }),
+        createParsedIssue('spelling', { original: 'বাড়ি', replacements: ['বাড়ী'] })
+      ]
+    }, text).result;
+
+    const merged = mergeStyleMixing(model, local);
+
+    expect(merged.languageStyleMixing).toEqual(local.mixing);
+    expect(merged.issues.map(issue => [issue.category, issue.original, issue.source])).toEqual([
+      ['spelling', 'বাড়ি', 'model'],
+      ['mixing', 'পড়ছিলাম', 'rules'],
+      ['mixing', 'ঘরে', 'model']
+    ]);
+  });
+
+  it('leaves the model result alone when nothing local is found', () => {
+    const text = 'আমি বই পড়ি।';
+    const model = anchorResponse({ ...emptyResponse(), languageStyleMixing: { detected: true, recommendedStyle: 'চলিত' } }, text).result;
+    expect(mergeStyleMixing(model, detectStyleMixing(text))).toBe(model);
+  });
+});
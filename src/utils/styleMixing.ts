@@ -0,0 +1,300 @@
+// src/utils/styleMixing.ts
+
+import type { AnalysisResult, Issue, StyleMixing } from '../types';
+import type { StyleType } from '../prompts/core';
+import { createParsedIssue, makeIssueId } from './issues';
+import { anchorsOverlap, getWordStarts } from './anchoring';
+import { canonicalizeBangla, toMatchForm } from './normalize';
+
+/**
+ * স্থানীয় সাধু/চলিত শনাক্তকরণ ও রূপান্তর - API call ছাড়া, প্রতিবার একই ফল
+ * শব্দতালিকা: সর্বনাম ও অব্যয় হাতে লেখা, ক্রিয়ার রূপ ধাতু × বিভক্তি থেকে তৈরি
+ */
+export type TargetStyle = Exclude<StyleType, 'none'>;
+
+/**
+ * সর্বনাম, অব্যয় ও অনুসর্গ
+ * চলিততেও শুদ্ধ শব্দ (নিকট, ন্যায় = বিচার) রাখা হয় না - সেগুলো মিশ্রণের চিহ্ন নয়
+ */
+const SADHU_WORDS: Record<string, string> = {
+  'তাহা': 'তা',
+  'তাহার': 'তার',
+  'তাহারা': 'তারা',
+  'তাহাকে': 'তাকে',
+  'তাহাদের': 'তাদের',
+  'তাহাদিগকে': 'তাদের',
+  'তাহাতে': 'তাতে',
+  'তাঁহার': 'তাঁর',
+  'তাঁহারা': 'তাঁরা',
+  'তাঁহাকে': 'তাঁকে',
+  'তাঁহাদের': 'তাঁদের',
+  'যাহা': 'যা',
+  'যাহার': 'যার',
+  'যাহারা': 'যারা',
+  'যাহাকে': 'যাকে',
+  'যাহাদের': 'যাদের',
+  'যাহাতে': 'যাতে',
+  'যাঁহার': 'যাঁর',
+  'যাঁহারা': 'যাঁরা',
+  'ইহা': 'এটা',
+  'ইহার': 'এর',
+  'ইহারা': 'এরা',
+  'ইহাকে': 'একে',
+  'ইহাদের': 'এদের',
+  'ইহাতে': 'এতে',
+  'উহা': 'ওটা',
+  'উহার': 'ওর',
+  'উহারা': 'ওরা',
+  'উহাকে': 'ওকে',
+  'উহাদের': 'ওদের',
+  'কাহার': 'কার',
+  'কাহারা': 'কারা',
+  'কাহাকে': 'কাকে',
+  'কাহাদের': 'কাদের',
+  'কেহ': 'কেউ',
+  'আমাদিগকে': 'আমাদের',
+  'তোমাদিগকে': 'তোমাদের',
+  'হইতে': 'থেকে',
+  'সহিত': 'সঙ্গে',
+  'নাই': 'নেই',
+  'তথাপি': 'তবুও',
+  'অদ্য': 'আজ',
+  'কল্য': 'কাল',
+  'এক্ষণে': 'এখন',
+  'কদাপি': 'কখনো'
+};
+
+/** অনিয়মিত ক্রিয়া (হ, যা, খা, দে, নে, আস, পা, চা, গা) */
+const SADHU_IRREGULAR_VERBS: Record<string, string> = {
+  'হইয়াছে': 'হয়েছে', 'হইয়াছি': 'হয়েছি', 'হইয়াছেন': 'হয়েছেন', 'হইয়াছিল': 'হয়েছিল',
+  'হইয়াছিলাম': 'হয়েছিলাম', 'হইয়াছিলেন': 'হয়েছিলেন', 'হইতেছে': 'হচ্ছে', 'হইতেছি': 'হচ্ছি',
+  'হইতেছেন': 'হচ্ছেন', 'হইতেছিল': 'হচ্ছিল', 'হইল': 'হল', 'হইলাম': 'হলাম', 'হইলেন': 'হলেন',
+  'হইলে': 'হলে', 'হইবে': 'হবে', 'হইব': 'হব', 'হইবেন': 'হবেন', 'হইত': 'হত', 'হইতেন': 'হতেন',
+  'হইয়া': 'হয়ে',
+  'যাইতেছি': 'যাচ্ছি', 'যাইতেছে': 'যাচ্ছে', 'যাইতেছেন': 'যাচ্ছেন', 'যাইতেছিল': 'যাচ্ছিল',
+  'যাইব': 'যাব', 'যাইবে': 'যাবে', 'যাইবেন': 'যাবেন', 'যাইত': 'যেত', 'যাইতে': 'যেতে',
+  'যাইয়া': 'গিয়ে', 'গিয়া': 'গিয়ে', 'গিয়াছি': 'গিয়েছি', 'গিয়াছে': 'গিয়েছে', 'গিয়াছেন': 'গিয়েছেন',
+  'গিয়াছিল': 'গিয়েছিল', 'গিয়াছিলাম': 'গিয়েছিলাম', 'গিয়াছিলেন': 'গিয়েছিলেন', 'যাইলে': 'গেলে',
+  'খাইয়াছি': 'খেয়েছি', 'খাইয়াছে': 'খেয়েছে', 'খাইয়াছেন': 'খেয়েছেন', 'খাইতেছি': 'খাচ্ছি',
+  'খাইতেছে': 'খাচ্ছে', 'খাইল': 'খেল', 'খাইলাম': 'খেলাম', 'খাইব': 'খাব', 'খাইবে': 'খাবে',
+  'খাইতে': 'খেতে', 'খাইয়া': 'খেয়ে',
+  'দিয়াছি': 'দিয়েছি', 'দিয়াছে': 'দিয়েছে', 'দিয়াছেন': 'দিয়েছেন', 'দিয়াছিল': 'দিয়েছিল',
+  'দিতেছি': 'দিচ্ছি', 'দিতেছে': 'দিচ্ছে', 'দিতেছেন': 'দিচ্ছেন', 'দিব': 'দেব', 'দিবে': 'দেবে',
+  'দিবেন': 'দেবেন', 'দিয়া': 'দিয়ে',
+  'লইয়া': 'নিয়ে', 'লইয়াছি': 'নিয়েছি', 'লইয়াছে': 'নিয়েছে', 'লইয়াছেন': 'নিয়েছেন', 'লইতেছি': 'নিচ্ছি',
+  'লইতেছে': 'নিচ্ছে', 'লইল': 'নিল', 'লইলাম': 'নিলাম', 'লইলেন': 'নিলেন', 'লইব': 'নেব',
+  'লইবে': 'নেবে', 'লইতে': 'নিতে',
+  'আসিয়া': 'এসে', 'আসিয়াছি': 'এসেছি', 'আসিয়াছে': 'এসেছে', 'আসিয়াছেন': 'এসেছেন',
+  'আসিয়াছিল': 'এসেছিল', 'আসিতেছি': 'আসছি', 'আসিতেছে': 'আসছে', 'আসিতেছেন': 'আসছেন',
+  'আসিল': 'এল', 'আসিলাম': 'এলাম', 'আসিলেন': 'এলেন', 'আসিব': 'আসব', 'আসিবে': 'আসবে',
+  'আসিবেন': 'আসবেন', 'আসিতে': 'আসতে', 'আসিলে': 'এলে',
+  'পাইয়া': 'পেয়ে', 'পাইয়াছি': 'পেয়েছি', 'পাইয়াছে': 'পেয়েছে', 'পাইয়াছেন': 'পেয়েছেন',
+  'পাইতেছি': 'পাচ্ছি', 'পাইতেছে': 'পাচ্ছে', 'পাইল': 'পেল', 'পাইলাম': 'পেলাম', 'পাইলেন': 'পেলেন',
+  'পাইব': 'পাব', 'পাইবে': 'পাবে', 'পাইতে': 'পেতে',
+  'চাহিয়া': 'চেয়ে', 'চাহিয়াছি': 'চেয়েছি', 'চাহিয়াছে': 'চেয়েছে', 'চাহিতেছি': 'চাইছি',
+  'চাহিতেছে': 'চাইছে', 'চাহিল': 'চাইল', 'চাহিলাম': 'চাইলাম', 'চাহিলেন': 'চাইলেন', 'চাহিব': 'চাইব',
+  'চাহিবে': 'চাইবে', 'চাহিতে': 'চাইতে',
+  'গাহিয়া': 'গেয়ে', 'গাহিতেছি': 'গাইছি', 'গাহিতেছে': 'গাইছে', 'গাহিল': 'গাইল'
+};
+
+/** নিয়মিত (ব্যঞ্জনান্ত) ধাতু - সাধু রূপ: ধাতু + ি + বিভক্তি */
+const REGULAR_ROOTS = [
+  'কর', 'বল', 'দেখ', 'লিখ', 'শুন', 'পড়', 'চল', 'ধর', 'মর', 'রাখ', 'ভাব', 'বুঝ', 'খুঁজ', 'ফির',
+  'উঠ', 'বস', 'হাস', 'কাঁদ', 'জান', 'মান', 'ডাক', 'থাক', 'বাঁচ', 'শিখ', 'ছুট', 'ভুল', 'জিত', 'ঘুর',
+  'খেল', 'খুল', 'মিল', 'পৌঁছ', 'লাগ', 'ভাঙ', 'নাম', 'বাড়', 'কাট', 'মার', 'ফেল', 'তুল', 'ছাড়',
+  'পার', 'শোন', 'বেড়', 'গড়', 'হাঁট', 'ঢুক', 'নড়', 'জাগ', 'ভাস'
+];
+
+/**
+ * সাধু বিভক্তি → চলিত বিভক্তি
+ * perfective: অসমাপিকা ও পুরাঘটিত রূপে আ-কারযুক্ত ধাতুর স্বর বদলায় (রাখিয়া → রেখে)
+ * শুধু "-িত" (করিত) নেই - চলিত, লিখিত, মিলিত-এর মতো বিশেষণের সাথে মিলে যায়
+ */
+const VERB_SUFFIXES: Array<{ sadhu: string; cholito: string; perfective?: boolean }> = [
+  { sadhu: 'িতেছি', cholito: 'ছি' },
+  { sadhu: 'িতেছ', cholito: 'ছ' },
+  { sadhu: 'িতেছে', cholito: 'ছে' },
+  { sadhu: 'িতেছেন', cholito: 'ছেন' },
+  { sadhu: 'িতেছিল', cholito: 'ছিল' },
+  { sadhu: 'িতেছিলাম', cholito: 'ছিলাম' },
+  { sadhu: 'িতেছিলেন', cholito: 'ছিলেন' },
+  { sadhu: 'িতেছিলে', cholito: 'ছিলে' },
+  { sadhu: 'িয়াছি', cholito: 'েছি', perfective: true },
+  { sadhu: 'িয়াছ', cholito: 'েছ', perfective: true },
+  { sadhu: 'িয়াছে', cholito: 'েছে', perfective: true },
+  { sadhu: 'িয়াছেন', cholito: 'েছেন', perfective: true },
+  { sadhu: 'িয়াছিল', cholito: 'েছিল', perfective: true },
+  { sadhu: 'িয়াছিলাম', cholito: 'েছিলাম', perfective: true },
+  { sadhu: 'িয়াছিলেন', cholito: 'েছিলেন', perfective: true },
+  { sadhu: 'িয়াছিলে', cholito: 'েছিলে', perfective: true },
+  { sadhu: 'িয়া', cholito: 'ে', perfective: true },
+  { sadhu: 'িলাম', cholito: 'লাম' },
+  { sadhu: 'িলেন', cholito: 'লেন' },
+  { sadhu: 'িলে', cholito: 'লে' },
+  { sadhu: 'িল', cholito: 'ল' },
+  { sadhu: 'িব', cholito: 'ব' },
+  { sadhu: 'িবে', cholito: 'বে' },
+  { sadhu: 'িবেন', cholito: 'বেন' },
+  { sadhu: 'িতাম', cholito: 'তাম' },
+  { sadhu: 'িতেন', cholito: 'তেন' },
+  { sadhu: 'িতে', cholito: 'তে' }
+];
+
+/** আ-কারযুক্ত ধাতুর প্রথম আ → এ (রাখ → রেখ, আস → এস) */
+const shiftVowel = (root: string): string =>
+  root.startsWith('আ') ? `এ${root.slice(1)}` : root.replace('া', 'ে');
+
+const buildLexicon = (): Map<string, string> => {
+  const lexicon = new Map<string, string>(Object.entries(SADHU_WORDS));
+  for (const root of REGULAR_ROOTS) {
+    for (const { sadhu, cholito, perfective } of VERB_SUFFIXES) {
+      lexicon.set(root + sadhu, (perfective ? shiftVowel(root) : root) + cholito);
+    }
+  }
+  for (const [sadhu, cholito] of Object.entries(SADHU_IRREGULAR_VERBS)) {
+    lexicon.set(sadhu, cholito);
+  }
+  // টেক্সটের শব্দ মানক রূপে খোঁজা হয় - তালিকাও সেই রূপে
+  return new Map(Array.from(lexicon, ([sadhu, cholito]) => [toMatchForm(sadhu), canonicalizeBangla(cholito)]));
+};
+
+/** সাধু → চলিত */
+const SADHU_TO_CHOLITO = buildLexicon();
+
+/** সাধু লেখাতেও স্বাভাবিক চলিত শব্দ - চলিত রীতির চিহ্ন হিসেবে গোনা হয় না */
+const SHARED_WORDS = ['আজ', 'কাল', 'এখন', 'কখনো', 'সঙ্গে', 'তবুও'];
+
+/** চলিত ক্রিয়ারূপ যা বিশেষ্য হিসেবে সাধু লেখাতেও আসে (হল = সভাকক্ষ, দেব = দেবতা, হত = নিহত) */
+const NOUN_HOMOGRAPHS = ['হল', 'হলে', 'হত', 'দেব'];
+
+/**
+ * চলিত → সাধু - উল্টো তালিকা
+ * যে চলিত রূপ সাধুতেও শুদ্ধ (বর্তমান কাল: করে, করি, করেন) বা দ্ব্যর্থক (যা = যাও, হল = সভাকক্ষ) সেগুলো বাদ
+ */
+const CHOLITO_TO_SADHU = (() => {
+  const reverse = new Map<string, string>();
+  const shared = new Set([
+    'যা',
+    ...SHARED_WORDS,
+    ...NOUN_HOMOGRAPHS,
+    ...REGULAR_ROOTS.flatMap(root => [root, `${root}ে`, `${root}ি`, `${root}েন`, `${root}িস`])
+  ].map(toMatchForm));
+  for (const [sadhu, cholito] of SADHU_TO_CHOLITO) {
+    if (!shared.has(cholito) && !reverse.has(cholito)) {
+      reverse.set(cholito, sadhu);
+    }
+  }
+  return reverse;
+})();
+
+const STYLE_LABEL: Record<TargetStyle, string> = { sadhu: 'সাধু', cholito: 'চলিত' };
+
+/** শব্দ: অক্ষর/মাত্রার টানা অংশ (anchoring-এর whole-word নিয়মের মতো) */
+const WORD_PATTERN = /[\p{L}\p{M}\p{N}\u200C\u200D]+/gu;
+
+interface StyleToken {
+  word: string;
+  start: number;
+  end: number;
+  style: TargetStyle;
+  /** অন্য রীতির রূপ */
+  counterpart: string;
+}
+
+const findStyleTokens = (text: string): StyleToken[] => {
+  const tokens: StyleToken[] = [];
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    const word = match[0];
+    const start = match.index!;
+    const key = toMatchForm(word);
+    const toCholito = SADHU_TO_CHOLITO.get(key);
+    const toSadhu = toCholito ? undefined : CHOLITO_TO_SADHU.get(key);
+    if (toCholito || toSadhu) {
+      tokens.push({
+        word,
+        start,
+        end: start + word.length,
+        style: toCholito ? 'sadhu' : 'cholito',
+        counterpart: (toCholito ?? toSadhu)!
+      });
+    }
+  }
+  return tokens;
+};
+
+/**
+ * টোকেনগুলো target রীতির সংশোধন হিসেবে - anchor আগেই জানা, তাই সরাসরি Issue
+ * (একই শব্দের সব রূপ একই রীতির, তাই ছাঁকা টোকেনেও occurrence টেক্সটের গণনার সাথে মেলে)
+ */
+const toIssues = (text: string, tokens: StyleToken[], target: TargetStyle): Issue[] => {
+  const wordStarts = getWordStarts(text);
+  const label = `${STYLE_LABEL[target === 'sadhu' ? 'cholito' : 'sadhu']}→${STYLE_LABEL[target]}`;
+  const occurrences = new Map<string, number>();
+  let wordIndex = 0;
+
+  return tokens.map(token => {
+    while (wordIndex + 1 < wordStarts.length && wordStarts[wordIndex + 1] <= token.start) wordIndex++;
+    const occurrence = occurrences.get(token.word) ?? 0;
+    occurrences.set(token.word, occurrence + 1);
+    const span = { start: token.start, end: token.end, occurrence };
+    return {
+      ...createParsedIssue('mixing', {
+        original: token.word,
+        replacements: [token.counterpart],
+        label,
+        position: wordIndex,
+        source: 'rules'
+      }),
+      id: makeIssueId('mixing', span),
+      span
+    };
+  });
+};
+
+/**
+ * সাধু ও চলিত দুই রীতির রূপই থাকলে মিশ্রণ - বেশি যে রীতি সেটি প্রস্তাবিত (সমান হলে চলিত),
+ * কম রীতির প্রতিটি শব্দ সংশোধন
+ */
+export const detectStyleMixing = (text: string): { mixing: StyleMixing; issues: Issue[] } => {
+  const tokens = findStyleTokens(text);
+  const sadhu = tokens.filter(token => token.style === 'sadhu').length;
+  const cholito = tokens.length - sadhu;
+  if (sadhu === 0 || cholito === 0) {
+    return { mixing: { detected: false }, issues: [] };
+  }
+
+  const target: TargetStyle = sadhu > cholito ? 'sadhu' : 'cholito';
+  return {
+    mixing: {
+      detected: true,
+      recommendedStyle: STYLE_LABEL[target],
+      reason: `সাধু রীতির ${sadhu}টি ও চলিত রীতির ${cholito}টি রূপ পাওয়া গেছে`
+    },
+    issues: toIssues(text, tokens.filter(token => token.style !== target), target)
+  };
+};
+
+/**
+ * পুরো টেক্সট এক রীতিতে আনার সংশোধন (API ছাড়া) - target রীতির নয় এমন প্রতিটি চেনা শব্দ
+ */
+export const styleConversions = (text: string, target: TargetStyle): Issue[] =>
+  toIssues(text, findStyleTokens(text).filter(token => token.style !== target), target);
+
+/**
+ * স্থানীয় শনাক্তকরণ মডেলের @MIXING-এর উপরে - মিশ্রণ পেলে রায় ও প্রস্তাবিত রীতি স্থানীয়টি,
+ * মডেলের যে সংশোধন স্থানীয়টির সাথে না মেলে সেগুলোও থাকে; কিছু না পেলে মডেলের ফলাফলই
+ */
+export const mergeStyleMixing = (
+  result: AnalysisResult,
+  local: { mixing: StyleMixing; issues: Issue[] }
+): AnalysisResult => {
+  if (!local.mixing.detected) return result;
+  const modelOnly = result.issues.filter(
+    issue => issue.category === 'mixing' && !local.issues.some(own => anchorsOverlap(own.span, issue.span))
+  );
+  return {
+    ...result,
+    languageStyleMixing: local.mixing,
+    issues: [...result.issues.filter(issue => issue.category !== 'mixing'), ...local.issues, ...modelOnly]
+  };
+};
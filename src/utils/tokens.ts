@@ -0,0 +1,85 @@
+// src/utils/tokens.ts
+
+import { getDiscoveredTokenLimits } from './models';
+
+/**
+ * গড়ে কত অক্ষরে একটি token (Gemini/GPT tokenizer-এর আনুমানিক মান)
+ * বাংলায় কার-চিহ্ন, হসন্ত ও যুক্তাক্ষর আলাদা code point - তাই ইংরেজির চেয়ে অনেক বেশি token
+ */
+const CHARS_PER_TOKEN = {
+  bangla: 1.8,
+  latin: 4,
+  other: 1.5
+};
+
+const isBangla = (code: number): boolean =>
+  (code >= 0x0980 && code <= 0x09ff) || code === 0x200c || code === 0x200d;
+
+const isLatin = (code: number): boolean =>
+  (code >= 0x30 && code <= 0x39) || (code >= 0x41 && code <= 0x5a) || (code >= 0x61 && code <= 0x7a);
+
+/**
+ * আনুমানিক token সংখ্যা - বাংলা, ইংরেজি ও অন্যান্য অক্ষর আলাদা হারে
+ * (whitespace সাধারণত পাশের শব্দের সাথে একই token-এ যায়, তাই গোনা হয় না)
+ */
+export const estimateTokens = (text: string): number => {
+  let bangla = 0;
+  let latin = 0;
+  let other = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    if (isBangla(code)) bangla++;
+    else if (isLatin(code)) latin++;
+    else if (code > 0x20) other++;
+  }
+
+  return Math.ceil(
+    bangla / CHARS_PER_TOKEN.bangla +
+    latin / CHARS_PER_TOKEN.latin +
+    other / CHARS_PER_TOKEN.other
+  );
+};
+
+/**
+ * মডেলের context (input) ও সর্বোচ্চ output token
+ */
+export interface TokenLimits {
+  input: number;
+  output: number;
+}
+
+export const MODEL_TOKEN_LIMITS: Record<string, TokenLimits> = {
+  'gemini-2.5-flash': { input: 1048576, output: 65536 },
+  'gemini-2.5-flash-lite': { input: 1048576, output: 65536 },
+  'gemini-2.0-flash': { input: 1048576, output: 8192 },
+  'gpt-4o-mini': { input: 128000, output: 16384 },
+  'gpt-4o': { input: 128000, output: 16384 },
+  // অজানা (লোকাল/কাস্টম) মডেল - ছোট context ধরে নেওয়া নিরাপদ
+  'default': { input: 8192, output: 4096 }
+};
+
+/**
+ * জানা মডেল, তারপর key যাচাইয়ে পাওয়া সীমা, শেষে ডিফল্ট
+ */
+export const getTokenLimits = (model: string): TokenLimits =>
+  MODEL_TOKEN_LIMITS[model] || getDiscoveredTokenLimits(model) || MODEL_TOKEN_LIMITS['default'];
+
+/** উত্তর যত ছোটই হোক, এর কম output budget নয় (2.5 মডেলের thinking-ও এখান থেকে খরচ হয়) */
+const MIN_OUTPUT_TOKENS = 2048;
+
+/** TOON উত্তরে শব্দ ও পুরো বাক্য আবার লেখা হয় - input টেক্সটের কয়েক গুণ */
+const OUTPUT_PER_INPUT_TOKEN = 2.5;
+const OUTPUT_OVERHEAD_TOKENS = 1024;
+
+/**
+ * টেক্সটের জন্য আনুমানিক প্রয়োজনীয় output token (মডেলের সীমা না ধরে)
+ */
+export const estimateOutputTokens = (textTokens: number): number =>
+  Math.max(MIN_OUTPUT_TOKENS, Math.ceil(textTokens * OUTPUT_PER_INPUT_TOKEN) + OUTPUT_OVERHEAD_TOKENS);
+
+/**
+ * Request-এর maxOutputTokens - input অনুযায়ী, মডেলের সীমার মধ্যে
+ */
+export const getOutputBudget = (textTokens: number, model: string): number =>
+  Math.min(getTokenLimits(model).output, estimateOutputTokens(textTokens));
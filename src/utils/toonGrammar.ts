@@ -0,0 +1,273 @@
+// src/utils/toonGrammar.ts
+
+/**
+ * TOON ফরম্যাটের ব্যাকরণ (tokenizer + লাইন-ভিত্তিক parser)
+ *
+ *   document   := (line '\n')*
+ *   line       := header | subheader | separator | comment | fence | blank | record
+ *   header     := '@' NAME            (পুরো লাইনে শুধু এটুকু; NAME জানা section)
+ *   subheader  := '@CORRECTIONS'      (@MIXING-এর ভেতরে সারির তালিকা শুরু)
+ *   separator  := '---' '-'*          (key:value রেকর্ড আলাদা করে)
+ *   comment    := '#' ...
+ *   fence      := '```' ...           (মডেলের markdown code fence - উপেক্ষিত)
+ *   record     := field ('|' field)*  বা  key ':' value
+ *
+ * Escape: `\|`, `\:`, `\,`, `\@`, `\\` - ফিল্ডের ভেতরে আক্ষরিক চিহ্ন
+ * (লাইনের শুরুতে `\@` মানে হেডার নয়, সাধারণ টেক্সট)
+ */
+
+/**
+ * Parse-এর সময় বাদ পড়া বা মেরামত করা লাইনের বিবরণ
+ */
+export interface ToonParseWarning {
+  /** 1-based লাইন নম্বর (মডেলের উত্তরে) */
+  line: number;
+  /** কোন section-এ (section-এর আগের লাইন হলে null) */
+  section: string | null;
+  reason: string;
+}
+
+export interface ToonLine {
+  line: number;
+  kind: 'record' | 'separator' | 'subheader';
+  /** record হলে trim করা raw টেক্সট (escape অক্ষত) */
+  text: string;
+}
+
+export interface ToonBlock {
+  name: string;
+  line: number;
+  lines: ToonLine[];
+}
+
+const ESCAPABLE = '|:,\\@';
+const HEADER = /^@([A-Za-z_]+)\s*:?\s*$/;
+const SEPARATOR = /^-{3,}$/;
+
+/**
+ * Escape সরিয়ে আক্ষরিক টেক্সট
+ */
+export const unescapeToon = (text: string): string => text.replace(/\\([|:,\\@])/g, '$1');
+
+/**
+ * Escape না করা delimiter-এ ভাগ (প্রতিটি অংশ escape অক্ষত রেখে)
+ * @param limit - সর্বোচ্চ কয় ভাগ (শেষ ভাগে বাকি সব)
+ */
+const splitRaw = (text: string, delimiter: string, limit = Infinity): string[] => {
+  const parts: string[] = [];
+  let current = '';
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '\\' && i + 1 < text.length && ESCAPABLE.includes(text[i + 1])) {
+      current += ch + text[i + 1];
+      i++;
+    } else if (ch === delimiter && parts.length < limit - 1) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  parts.push(current);
+  return parts;
+};
+
+/**
+ * `|` দিয়ে আলাদা ফিল্ড (escape অক্ষত - তালিকা ফিল্ড পরে `splitList` দিয়ে ভাগ হয়)
+ */
+export const splitFields = (text: string): string[] => splitRaw(text, '|').map(f => f.trim());
+
+/**
+ * কমা দিয়ে আলাদা তালিকা (escape সরিয়ে, খালি বাদে)
+ */
+export const splitList = (text: string): string[] =>
+  splitRaw(text, ',').map(item => unescapeToon(item.trim())).filter(Boolean);
+
+/**
+ * `key:value` - প্রথম escape না করা `:`-এ ভাগ; key ছোট হাতের
+ */
+export const splitKeyValue = (text: string): { key: string; value: string } | null => {
+  const parts = splitRaw(text, ':', 2);
+  if (parts.length < 2 || !parts[0].trim()) return null;
+  return { key: unescapeToon(parts[0]).trim().toLowerCase(), value: parts[1].trim() };
+};
+
+/**
+ * পূর্ণসংখ্যা (বাংলা অঙ্কসহ) - না হলে null
+ */
+export const parseToonInteger = (text: string): number | null => {
+  const ascii = text.trim().replace(/[০-৯]/g, d => String(d.charCodeAt(0) - 0x09e6));
+  return /^\d+$/.test(ascii) ? parseInt(ascii, 10) : null;
+};
+
+/**
+ * আস্থা (0-100) - `85`, `85%`, `০.৮৫` সবই চলে; না হলে null
+ */
+export const parseToonConfidence = (text: string): number | null => {
+  const ascii = text.trim().replace(/[০-৯]/g, d => String(d.charCodeAt(0) - 0x09e6));
+  const match = ascii.match(/^(\d+(?:\.\d+)?)\s*(%?)$/);
+  if (!match) return null;
+  const value = parseFloat(match[1]);
+  // দশমিক ভগ্নাংশ (0.85) মানে শতাংশ
+  const percent = !match[2] && match[1].includes('.') && value <= 1 ? value * 100 : value;
+  return percent <= 100 ? Math.round(percent) : null;
+};
+
+/**
+ * লাইন ধরে section-এ ভাগ করার অবস্থা - পুরো উত্তর একবারে বা stream-এ লাইন আসার সাথে সাথে
+ * - অজানা `@NAME` হেডারের section ও প্রথম হেডারের আগের টেক্সট বাদ (warning সহ)
+ * - comment, fence, খালি লাইন বাদ
+ */
+export interface ToonBlockReader {
+  /** এ পর্যন্ত পাওয়া section - শেষেরটি পরের হেডার না আসা পর্যন্ত বাড়তে পারে */
+  blocks: ToonBlock[];
+  /** পরের একটি সম্পূর্ণ লাইন (newline ছাড়া) */
+  readLine: (rawLine: string) => void;
+}
+
+export const createToonBlockReader = (
+  knownSections: readonly string[],
+  subheaders: readonly string[],
+  warnings: ToonParseWarning[]
+): ToonBlockReader => {
+  const blocks: ToonBlock[] = [];
+  let current: ToonBlock | null = null;
+  let skipping: string | null = null;
+  let preambleWarned = false;
+  let line = 0;
+
+  const readLine = (rawLine: string) => {
+    line++;
+    const text = rawLine.trim();
+    if (!text || text.startsWith('#') || text.startsWith('```')) return;
+
+    const header = text.match(HEADER);
+    if (header) {
+      const name = header[1].toUpperCase();
+      if (subheaders.includes(name)) {
+        if (current) {
+          current.lines.push({ line, kind: 'subheader', text: name });
+        } else {
+          warnings.push({ line, section: null, reason: `@${name} outside any section` });
+        }
+        return;
+      }
+      if (knownSections.includes(name)) {
+        current = { name, line, lines: [] };
+        blocks.push(current);
+        skipping = null;
+      } else {
+        warnings.push({ line, section: null, reason: `unknown section @${name} - skipped` });
+        current = null;
+        skipping = name;
+      }
+      return;
+    }
+
+    if (!current) {
+      // অজানা section-এর লাইন: হেডারেই একবার জানানো হয়েছে
+      if (!skipping && !preambleWarned) {
+        warnings.push({ line, section: null, reason: 'text before the first section - ignored' });
+        preambleWarned = true;
+      }
+      return;
+    }
+
+    current.lines.push(
+      SEPARATOR.test(text)
+        ? { line, kind: 'separator', text }
+        : { line, kind: 'record', text: text.startsWith('\\@') ? text.slice(1) : text }
+    );
+  };
+
+  return { blocks, readLine };
+};
+
+/**
+ * পুরো উত্তরকে section-এ ভাগ করা
+ */
+export const readToonBlocks = (
+  raw: string,
+  knownSections: readonly string[],
+  subheaders: readonly string[],
+  warnings: ToonParseWarning[]
+): ToonBlock[] => {
+  const reader = createToonBlockReader(knownSections, subheaders, warnings);
+  for (const rawLine of raw.split('\n')) {
+    reader.readLine(rawLine);
+  }
+  return reader.blocks;
+};
+
+/**
+ * `|`-সারির গঠন
+ * - fields: position সহ মোট ফিল্ড
+ * - required: শুরুর কতটি ফিল্ড খালি হতে পারবে না
+ * - overflow: escape না করা বাড়তি `|` থাকলে যে ফিল্ডে জোড়া লাগে
+ */
+export interface ToonRowSpec {
+  fields: number;
+  required: number;
+  overflow: number;
+  /** overflow ফিল্ড তালিকা হলে বাড়তি অংশ কমা দিয়ে জোড়া */
+  overflowIsList?: boolean;
+  /** position-এর আগে ঐচ্ছিক আস্থা ফিল্ড (fields-এ গোনা নয়) */
+  confidence?: boolean;
+}
+
+/**
+ * একটি সারি ফিল্ডে ভাগ - শেষ ফিল্ড position, তার আগে আস্থা (দুটোই ঐচ্ছিক)
+ * মেরামত করা গেলে warning সহ ফিল্ড, না গেলে null
+ */
+export const parseToonRow = (
+  row: ToonLine,
+  section: string,
+  spec: ToonRowSpec,
+  warnings: ToonParseWarning[]
+): { fields: string[]; position?: number; confidence?: number } | null => {
+  let fields = splitFields(row.text);
+  const warn = (reason: string) => warnings.push({ line: row.line, section, reason });
+
+  if (fields.length < 2) {
+    warn('not a record (no "|")');
+    return null;
+  }
+
+  // শেষ ফিল্ড সংখ্যা হলে position, না হলে position ছাড়া সারি
+  const last = parseToonInteger(fields[fields.length - 1]);
+  let position: number | undefined;
+  if (last !== null && fields.length > spec.required) {
+    position = last;
+    fields = fields.slice(0, -1);
+  } else if (fields.length >= spec.fields + (spec.confidence ? 1 : 0)) {
+    warn(`position "${fields[fields.length - 1]}" is not a number`);
+    return null;
+  }
+
+  let confidence: number | undefined;
+  if (spec.confidence && fields.length > spec.required) {
+    const value = parseToonConfidence(fields[fields.length - 1]);
+    if (value !== null) {
+      confidence = value;
+      fields = fields.slice(0, -1);
+    }
+  }
+
+  const valueCount = spec.fields - 1;
+  if (fields.length > valueCount) {
+    const surplus = fields.length - valueCount;
+    const joined = fields.slice(spec.overflow, spec.overflow + surplus + 1).join(spec.overflowIsList ? ',' : '|');
+    fields = [...fields.slice(0, spec.overflow), joined, ...fields.slice(spec.overflow + surplus + 1)];
+    warn(`${surplus} unescaped "|" joined into field ${spec.overflow + 1}`);
+  }
+
+  for (let i = 0; i < spec.required; i++) {
+    if (!fields[i]) {
+      warn(`missing required field ${i + 1}`);
+      return null;
+    }
+  }
+
+  return { fields, position, confidence };
+};
@@ -0,0 +1,123 @@
+// src/utils/toonParser.test.ts
+
+import { describe, expect, it } from 'vitest';
+import type { UnifiedResponse } from '../types';
+import type { ToonParseWarning } from './toonGrammar';
+import { ToonSection, createToonStreamParser, parseUnifiedToon } from './toonParser';
+
+// logger লগ-লেভেল localStorage থেকে পড়ে - Node-এ নেই
+if (typeof globalThis.localStorage === 'undefined') {
+  const store = new Map<string, string>();
+  globalThis.localStorage = {
+    getItem: key => store.get(key) ?? null,
+    setItem: (key, value) => void store.set(key, String(value)),
+    removeItem: key => void store.delete(key),
+    clear: () => store.clear(),
+    key: index => Array.from(store.keys())[index] ?? null,
+    get length() {
+      return store.size;
+    }
+  };
+}
+
+const RESPONSE = [
+  '@SPELLING',
+  'বাংলাদেস|বাংলাদেশ|90|1',
+  'মানুস|মানুষ, মানুশ|3',
+  '@GRAMMAR',
+  'ক\\|খ|ক খ|বাহুল্য|একই কথা দুবার|80|2',
+  '\\@SPELLING|SPELLING|চিহ্ন|হেডার নয়',
+  '@MIXING',
+  'detected:true',
+  'style:চলিত',
+  '@CORRECTIONS',
+  'করিয়া|করে|ক্রিয়া|4',
+  '@CONTENT',
+  'type:চিঠি',
+  ''
+].join('\n');
+
+/** text-কে size অক্ষরের টুকরোয় stream করা - প্রতি section-এ পাওয়া ফলাফলসহ */
+const stream = (text: string, size: number) => {
+  const sections: Array<{ section: ToonSection; partial: UnifiedResponse }> = [];
+  const warnings: ToonParseWarning[] = [];
+  const parser = createToonStreamParser((section, partial) => sections.push({ section, partial }), undefined, w => warnings.push(...w));
+  for (let i = 0; i < text.length; i += size) {
+    parser.push(text.slice(i, i + size));
+  }
+  return { sections, warnings, result: parser.finish() };
+};
+
+describe('createToonStreamParser', () => {
+  it('gives the same result as a one-shot parse for any chunk size', () => {
+    const expected = parseUnifiedToon(RESPONSE);
+
+    for (const size of [1, 2, 5, 13, RESPONSE.length]) {
+      const { sections, warnings, result } = stream(RESPONSE, size);
+      expect(result).toEqual(expected.result);
+      expect(warnings).toEqual(expected.warnings);
+      expect(sections.map(s => s.section)).toEqual(['SPELLING', 'GRAMMAR', 'MIXING', 'CONTENT']);
+      expect(sections[sections.length - 1].partial.issues).toEqual(expected.result.issues);
+    }
+  });
+
+  it('emits a section only once the next header has arrived', () => {
+    const sections: ToonSection[] = [];
+    const parser = createToonStreamParser(section => sections.push(section));
+
+    parser.push('@SPELLING\nবাংলাদেস|বাংলা');
+    parser.push('দেশ\n@GRA');
+    expect(sections).toEqual([]);
+
+    parser.push('MMAR\n');
+    expect(sections).toEqual(['SPELLING']);
+
+    parser.push('ক|খ');
+    const result = parser.finish();
+    expect(sections).toEqual(['SPELLING', 'GRAMMAR']);
+    expect(result?.issues.map(issue => [issue.category, issue.original, issue.replacements])).toEqual([
+      ['spelling', 'বাংলাদেস', ['বাংলাদেশ']],
+      ['grammar', 'ক', ['খ']]
+    ]);
+  });
+
+  it('reads a line split inside an escape as one record', () => {
+    const sections: UnifiedResponse[] = [];
+    const parser = createToonStreamParser((_, partial) => sections.push(partial));
+
+    parser.push('@GRAMMAR\nক\\');
+    parser.push('|খ|ক খ|বাহুল্য\n\\');
+    parser.push('@SPELLING|SPELLING|চিহ্ন\n@CONTENT\n');
+
+    expect(sections).toHaveLength(1);
+    expect(sections[0].issues.map(issue => issue.original)).toEqual(['ক|খ', '@SPELLING']);
+    expect(parser.finish()?.issues).toEqual(sections[0].issues);
+  });
+
+  it('skips unknown sections without emitting them or leaking their rows', () => {
+    const text = '@FOO\nবাংলাদেস|বাংলাদেশ\n@SPELLING\nমানুস|মানুষ\n@BAR\nকরিয়া|করে\n';
+    const { sections, warnings, result } = stream(text, 4);
+
+    expect(sections.map(s => s.section)).toEqual(['SPELLING']);
+    expect(result?.issues.map(issue => issue.original)).toEqual(['মানুস']);
+    expect(warnings.map(w => w.reason)).toEqual(['unknown section @FOO - skipped', 'unknown section @BAR - skipped']);
+  });
+
+  it('falls back to JSON when the response has no TOON section', () => {
+    const json = JSON.stringify({
+      spellingErrors: [{ wrong: 'বাংলাদেস', suggestions: ['বাংলাদেশ'] }],
+      grammarIssues: [],
+      languageStyleMixing: { detected: false },
+      punctuationIssues: [],
+      euphonyImprovements: [],
+      styleConversions: [],
+      toneConversions: [],
+      contentAnalysis: null
+    });
+    const { sections, result } = stream(json, 7);
+
+    expect(sections).toEqual([]);
+    expect(result?.issues.map(issue => issue.original)).toEqual(['বাংলাদেস']);
+    expect(stream('দুঃখিত, বিশ্লেষণ করা যায়নি।', 7).result).toBeNull();
+  });
+});
@@ -1,54 +1,26 @@
 // src/utils/toonParser.ts
 
-export interface UnifiedResponse {
-  spellingErrors: Array<{
-    wrong: string;
-    suggestions: string[];
-    position?: number;
-  }>;
-  languageStyleMixing: {
-    detected: boolean;
-    recommendedStyle?: string;
-    reason?: string;
-    corrections?: Array<{
-      current: string;
-      suggestion: string;
-      type: string;
-      position?: number;
-    }>;
-  };
-  punctuationIssues: Array<{
-    issue: string;
-    currentSentence: string;
-    correctedSentence: string;
-    explanation: string;
-    position?: number;
-  }>;
-  euphonyImprovements: Array<{
-    current: string;
-    suggestions: string[];
-    reason: string;
-    position?: number;
-  }>;
-  styleConversions: Array<{
-    current: string;
-    suggestion: string;
-    type: string;
-    position?: number;
-  }>;
-  toneConversions: Array<{
-    current: string;
-    suggestion: string;
-    reason: string;
-    position?: number;
-  }>;
-  contentAnalysis: {
-    contentType: string;
-    description?: string;
-    missingElements?: string[];
-    suggestions?: string[];
-  } | null;
-}
+import { validateUnifiedResponse, SchemaDiagnostic, SchemaResponse } from './schema';
+import type { ContentAnalysis, IssueCategory, ParsedIssue, StyleMixing, UnifiedResponse } from '../types';
+import { createParsedIssue, emptyResponse, issuesOf } from './issues';
+import {
+  ToonBlock,
+  ToonLine,
+  ToonParseWarning,
+  ToonRowSpec,
+  readToonBlocks,
+  createToonBlockReader,
+  parseToonRow,
+  parseToonInteger,
+  parseToonConfidence,
+  splitKeyValue,
+  splitList,
+  unescapeToon
+} from './toonGrammar';
+import { normalize } from './normalize';
+import { createLogger } from './logger';
+
+const log = createLogger('parser');
 
 export const extractTextFromGeminiResponse = (data: any): string | null => {
   try {
@@ -58,509 +30,712 @@ export const extractTextFromGeminiResponse = (data: any): string | null => {
   }
 };
 
-const normalizeText = (text: string): string => {
-  return text.trim().toLowerCase().replace(/\s+/g, ' ');
-};
-
-const removeDuplicates = <T>(arr: T[], keyFn: (item: T) => string): T[] => {
+// একই জায়গার একই সাজেশন একবার (এনকোডিং আলাদা হলেও) - আলাদা জায়গার একই শব্দ আলাদা সাজেশন
+const removeDuplicates = (issues: ParsedIssue[]): ParsedIssue[] => {
   const seen = new Set<string>();
-  return arr.filter(item => {
-    const key = normalizeText(keyFn(item));
+  return issues.filter(issue => {
+    const key = `${issue.category}|${normalize(issue.original)}|${issue.position ?? ''}`;
     if (seen.has(key)) return false;
     seen.add(key);
     return true;
   });
 };
 
-const validateSpellingErrors = (
-  errors: UnifiedResponse['spellingErrors'],
-  maxAllowed: number
-): UnifiedResponse['spellingErrors'] => {
-  const unique = removeDuplicates(errors, item => item.wrong);
-  const limited = unique.slice(0, maxAllowed);
-  
-  const filtered = limited.filter(err => {
-    const word = err.wrong.trim();
-    if (!word || word.length < 2) return false;
-    if (/^\d+$/.test(word)) return false;
-    if (/^[a-zA-Z]+$/.test(word)) return false;
-    if (err.suggestions.length === 0) return false;
-    return true;
-  });
-  
-  return filtered;
+const isValidSpellingError = (issue: ParsedIssue): boolean => {
+  const word = issue.original.trim();
+  if (!word || word.length < 2) return false;
+  if (/^\d+$/.test(word)) return false;
+  if (/^[a-zA-Z]+$/.test(word)) return false;
+  return issue.replacements.length > 0;
 };
 
-export const parseUnifiedToon = (raw: string, wordCount?: number): UnifiedResponse => {
-  const result: UnifiedResponse = {
-    spellingErrors: [],
-    languageStyleMixing: { detected: false },
-    punctuationIssues: [],
-    euphonyImprovements: [],
-    styleConversions: [],
-    toneConversions: [],
-    contentAnalysis: null
-  };
+/**
+ * TOON section হেডার (@SPELLING, @PUNCTUATION ...)
+ */
+export type ToonSection = 'SPELLING' | 'GRAMMAR' | 'MIXING' | 'PUNCTUATION' | 'EUPHONY' | 'STYLE' | 'TONE' | 'CONTENT';
+
+const TOON_SECTIONS: ToonSection[] = ['SPELLING', 'GRAMMAR', 'MIXING', 'PUNCTUATION', 'EUPHONY', 'STYLE', 'TONE', 'CONTENT'];
+
+/**
+ * কোন section কোন বিভাগের সাজেশন দেয় (CONTENT সাজেশন নয়)
+ */
+export const SECTION_CATEGORY: Record<ToonSection, IssueCategory | null> = {
+  SPELLING: 'spelling',
+  GRAMMAR: 'grammar',
+  MIXING: 'mixing',
+  PUNCTUATION: 'punctuation',
+  EUPHONY: 'euphony',
+  STYLE: 'style',
+  TONE: 'tone',
+  CONTENT: null
+};
 
-  console.log('═══════════════════════════════════════');
-  console.log('🔍 TOON PARSER - Starting Analysis');
-  console.log('═══════════════════════════════════════');
-  console.log('📄 Raw response length:', raw.length);
-  console.log('📝 First 500 chars:', raw.substring(0, 500));
-  console.log('═══════════════════════════════════════\n');
-
-  // Split by @ sections
-  const sections = raw.split(/^@/m).filter(s => s.trim());
-  console.log('📦 Total sections found:', sections.length, '\n');
-
-  for (const section of sections) {
-    const lines = section.trim().split('\n');
-    const header = lines[0].trim().toUpperCase();
-    const content = lines.slice(1);
-
-    console.log(`\n┌─────────────────────────────────────┐`);
-    console.log(`│ Section: ${header.padEnd(28)} │`);
-    console.log(`│ Content lines: ${String(content.length).padEnd(22)} │`);
-    console.log(`└─────────────────────────────────────┘`);
-
-    switch (header) {
-      case 'SPELLING':
-        result.spellingErrors = parseSpellingLines(content);
-        console.log(`✅ Spelling errors found: ${result.spellingErrors.length}`);
-        break;
+const SUBHEADERS = ['CORRECTIONS'];
 
-      case 'MIXING':
-        result.languageStyleMixing = parseMixingLines(content);
-        console.log(`✅ Mixing detected: ${result.languageStyleMixing.detected}`);
-        break;
+const SPELLING_ROW: ToonRowSpec = { fields: 3, required: 2, overflow: 1, overflowIsList: true, confidence: true };
+const GRAMMAR_ROW: ToonRowSpec = { fields: 5, required: 2, overflow: 3, confidence: true };
+const EUPHONY_ROW: ToonRowSpec = { fields: 4, required: 2, overflow: 2, confidence: true };
+const REPLACEMENT_ROW: ToonRowSpec = { fields: 4, required: 2, overflow: 2, confidence: true };
 
-      case 'PUNCTUATION':
-        result.punctuationIssues = parsePunctuationLines(content);
-        console.log(`✅ Punctuation issues found: ${result.punctuationIssues.length}`);
-        if (result.punctuationIssues.length > 0) {
-          result.punctuationIssues.forEach((p, i) => {
-            console.log(`   ${i + 1}. ${p.issue} (pos: ${p.position})`);
-          });
-        }
-        break;
+type Warnings = ToonParseWarning[];
 
-      case 'EUPHONY':
-        result.euphonyImprovements = parseEuphonyLines(content);
-        console.log(`✅ Euphony improvements found: ${result.euphonyImprovements.length}`);
-        if (result.euphonyImprovements.length > 0) {
-          result.euphonyImprovements.forEach((e, i) => {
-            console.log(`   ${i + 1}. "${e.current}" → ${e.suggestions.join(', ')}`);
-          });
-        }
-        break;
+const warnUnexpected = (line: ToonLine, section: ToonSection, warnings: Warnings): void => {
+  warnings.push({ line: line.line, section, reason: `unexpected ${line.kind === 'subheader' ? `@${line.text}` : '---'}` });
+};
 
-      case 'STYLE':
-        result.styleConversions = parseStyleLines(content);
-        console.log(`✅ Style conversions found: ${result.styleConversions.length}`);
-        break;
+const parseSpellingBlock = (block: ToonBlock, warnings: Warnings): ParsedIssue[] => {
+  const results: ParsedIssue[] = [];
 
-      case 'TONE':
-        result.toneConversions = parseToneLines(content);
-        console.log(`✅ Tone conversions found: ${result.toneConversions.length}`);
-        break;
+  for (const line of block.lines) {
+    if (line.kind !== 'record') {
+      warnUnexpected(line, 'SPELLING', warnings);
+      continue;
+    }
+    const row = parseToonRow(line, 'SPELLING', SPELLING_ROW, warnings);
+    if (!row) continue;
 
-      case 'CONTENT':
-        result.contentAnalysis = parseContentLines(content);
-        console.log(`✅ Content analysis:`, result.contentAnalysis ? 'Found' : 'Not found');
-        if (result.contentAnalysis) {
-          console.log(`   Type: ${result.contentAnalysis.contentType}`);
-          console.log(`   Missing: ${result.contentAnalysis.missingElements?.length || 0} items`);
-          console.log(`   Tips: ${result.contentAnalysis.suggestions?.length || 0} items`);
-        }
-        break;
+    const suggestions = splitList(row.fields[1]);
+    if (suggestions.length === 0) {
+      warnings.push({ line: line.line, section: 'SPELLING', reason: 'no suggestions' });
+      continue;
     }
+    results.push(createParsedIssue('spelling', {
+      original: unescapeToon(row.fields[0]),
+      replacements: suggestions,
+      position: row.position,
+      confidence: row.confidence
+    }));
   }
 
-  // Validate and deduplicate
-  const maxErrors = wordCount ? Math.min(50, Math.ceil(wordCount * 0.5)) : 50;
-  result.spellingErrors = validateSpellingErrors(result.spellingErrors, maxErrors);
-  result.toneConversions = removeDuplicates(result.toneConversions, item => item.current);
-  result.styleConversions = removeDuplicates(result.styleConversions, item => item.current);
-  result.euphonyImprovements = removeDuplicates(result.euphonyImprovements, item => item.current);
-  
-  if (result.languageStyleMixing.corrections) {
-    result.languageStyleMixing.corrections = removeDuplicates(
-      result.languageStyleMixing.corrections, 
-      item => item.current
-    );
+  return results;
+};
+
+/**
+ * `ভুল অংশ|সংশোধন|ধরন|ব্যাখ্যা|আস্থা|pos` - ধরন: কর্তা-ক্রিয়া, বিভক্তি, কাল, বাহুল্য
+ */
+const parseGrammarBlock = (block: ToonBlock, warnings: Warnings): ParsedIssue[] => {
+  const results: ParsedIssue[] = [];
+
+  for (const line of block.lines) {
+    if (line.kind !== 'record') {
+      warnUnexpected(line, 'GRAMMAR', warnings);
+      continue;
+    }
+    const row = parseToonRow(line, 'GRAMMAR', GRAMMAR_ROW, warnings);
+    if (!row) continue;
+
+    results.push(createParsedIssue('grammar', {
+      original: unescapeToon(row.fields[0]),
+      replacements: [unescapeToon(row.fields[1])],
+      label: unescapeToon(row.fields[2] || '') || 'ব্যাকরণ',
+      explanation: unescapeToon(row.fields[3] || ''),
+      position: row.position,
+      confidence: row.confidence
+    }));
   }
 
-  console.log('\n═══════════════════════════════════════');
-  console.log('📊 FINAL RESULTS:');
-  console.log('═══════════════════════════════════════');
-  console.log(`Spelling: ${result.spellingErrors.length}`);
-  console.log(`Punctuation: ${result.punctuationIssues.length}`);
-  console.log(`Euphony: ${result.euphonyImprovements.length}`);
-  console.log(`Mixing: ${result.languageStyleMixing.detected ? 'Yes' : 'No'}`);
-  console.log(`Style: ${result.styleConversions.length}`);
-  console.log(`Tone: ${result.toneConversions.length}`);
-  console.log(`Content: ${result.contentAnalysis ? 'Yes' : 'No'}`);
-  console.log('═══════════════════════════════════════\n');
+  return results;
+};
 
-  return result;
+/**
+ * STYLE, TONE ও MIXING-এর corrections - `বর্তমান|প্রস্তাব|ধরন/কারণ|আস্থা|pos`
+ */
+const parseReplacementRow = (
+  line: ToonLine,
+  section: ToonSection,
+  warnings: Warnings
+): { current: string; suggestion: string; note: string; position?: number; confidence?: number } | null => {
+  const row = parseToonRow(line, section, REPLACEMENT_ROW, warnings);
+  if (!row) return null;
+  return {
+    current: unescapeToon(row.fields[0]),
+    suggestion: unescapeToon(row.fields[1]),
+    note: unescapeToon(row.fields[2] || ''),
+    position: row.position,
+    confidence: row.confidence
+  };
 };
 
-const parseSpellingLines = (lines: string[]): UnifiedResponse['spellingErrors'] => {
-  const results: UnifiedResponse['spellingErrors'] = [];
-  
-  for (const line of lines) {
-    const t = line.trim();
-    if (!t || t.startsWith('#') || t.startsWith('[') || t.startsWith('ফরম্যাট') || t.startsWith('উদাহরণ')) continue;
-    if (!t.includes('|')) continue;
-    
-    const parts = t.split('|').map(p => p.trim());
-    if (parts.length >= 3 && parts[0] && parts[1]) {
-      const wrong = parts[0];
-      const suggestions = parts[1].split(',').map(s => s.trim()).filter(Boolean);
-      const position = parseInt(parts[2]) || 0;
-      
-      if (wrong.length >= 2 && suggestions.length > 0) {
-        results.push({ wrong, suggestions, position });
-      }
+/**
+ * STYLE ও TONE - এক প্রস্তাবের সারি, তৃতীয় ফিল্ড STYLE-এ ধরন, TONE-এ কারণ
+ */
+const parseConversionBlock = (
+  block: ToonBlock,
+  section: 'STYLE' | 'TONE',
+  warnings: Warnings
+): ParsedIssue[] => {
+  const results: ParsedIssue[] = [];
+  for (const line of block.lines) {
+    if (line.kind !== 'record') {
+      warnUnexpected(line, section, warnings);
+      continue;
     }
+    const row = parseReplacementRow(line, section, warnings);
+    if (!row) continue;
+    results.push(section === 'STYLE'
+      ? createParsedIssue('style', {
+          original: row.current,
+          replacements: [row.suggestion],
+          label: row.note,
+          position: row.position,
+          confidence: row.confidence
+        })
+      : createParsedIssue('tone', {
+          original: row.current,
+          replacements: [row.suggestion],
+          explanation: row.note,
+          position: row.position,
+          confidence: row.confidence
+        }));
   }
-  
-  return results;
+  return results.slice(0, 30);
 };
 
-const parseMixingLines = (lines: string[]): UnifiedResponse['languageStyleMixing'] => {
-  const result: UnifiedResponse['languageStyleMixing'] = { detected: false };
-  const corrections: NonNullable<UnifiedResponse['languageStyleMixing']['corrections']> = [];
-  let inCorrections = false;
+const parseEuphonyBlock = (block: ToonBlock, warnings: Warnings): ParsedIssue[] => {
+  const results: ParsedIssue[] = [];
 
-  for (const line of lines) {
-    const t = line.trim();
-    if (!t || t.startsWith('#')) continue;
-
-    if (t.toUpperCase().includes('CORRECTIONS')) {
-      inCorrections = true;
+  for (const line of block.lines) {
+    if (line.kind !== 'record') {
+      warnUnexpected(line, 'EUPHONY', warnings);
       continue;
     }
+    const row = parseToonRow(line, 'EUPHONY', EUPHONY_ROW, warnings);
+    if (!row) continue;
 
-    if (inCorrections && t.includes('|')) {
-      const parts = t.split('|').map(p => p.trim());
-      if (parts.length >= 4 && parts[0] && parts[1]) {
-        corrections.push({
-          current: parts[0],
-          suggestion: parts[1],
-          type: parts[2] || '',
-          position: parseInt(parts[3]) || 0
-        });
-      }
-    } else if (t.includes(':')) {
-      const idx = t.indexOf(':');
-      const key = t.substring(0, idx).toLowerCase().trim();
-      const val = t.substring(idx + 1).trim();
-      
-      if (key === 'detected') {
-        result.detected = val.toLowerCase() === 'true' || val === 'হ্যাঁ';
-      } else if (key === 'style') {
-        result.recommendedStyle = val;
-      } else if (key === 'reason') {
-        result.reason = val;
-      }
+    const suggestions = splitList(row.fields[1]);
+    if (suggestions.length === 0) {
+      warnings.push({ line: line.line, section: 'EUPHONY', reason: 'no suggestions' });
+      continue;
     }
+    results.push(createParsedIssue('euphony', {
+      original: unescapeToon(row.fields[0]),
+      replacements: suggestions,
+      explanation: unescapeToon(row.fields[2] || '') || 'উন্নত শব্দচয়ন',
+      position: row.position,
+      confidence: row.confidence
+    }));
   }
 
-  if (corrections.length > 0) {
-    result.corrections = corrections;
-  }
-  
-  return result;
+  return results;
 };
 
-const parsePunctuationLines = (lines: string[]): UnifiedResponse['punctuationIssues'] => {
-  const issues: UnifiedResponse['punctuationIssues'] = [];
-  let current: Partial<UnifiedResponse['punctuationIssues'][0]> = {};
-
-  console.log('  🔸 Parsing PUNCTUATION section:');
-  console.log('  Lines to parse:', lines.length);
-
-  const pushCurrent = () => {
-    if (current.currentSentence || current.issue) {
-      issues.push({
-        issue: current.issue || 'বিরাম চিহ্ন সমস্যা',
-        currentSentence: current.currentSentence || '',
-        correctedSentence: current.correctedSentence || current.currentSentence || '',
-        explanation: current.explanation || '',
-        position: current.position ?? 0
-      });
-      console.log(`    ✓ Added issue: "${current.issue}" at pos ${current.position}`);
-      current = {};
-    }
-  };
+const MIXING_KEYS = ['detected', 'style', 'reason'];
+
+const parseMixingBlock = (
+  block: ToonBlock,
+  warnings: Warnings
+): { mixing: StyleMixing; issues: ParsedIssue[] } => {
+  const result: StyleMixing = { detected: false };
+  const corrections: ParsedIssue[] = [];
+  let inCorrections = false;
 
-  for (let i = 0; i < lines.length; i++) {
-    const t = lines[i].trim();
-    
-    console.log(`    Line ${i}: "${t.substring(0, 50)}..."`);
-    
-    // Skip empty, comments, examples, format lines
-    if (!t || t.startsWith('#') || t.startsWith('[') || 
-        t.startsWith('ফরম্যাট') || t.startsWith('উদাহরণ') ||
-        t.startsWith('প্রতিটি') || t.startsWith('⚠️')) {
+  for (const line of block.lines) {
+    if (line.kind === 'subheader') {
+      inCorrections = true;
       continue;
     }
-    
-    // Separator
-    if (t === '---' || t.match(/^-{3,}$/)) {
-      console.log(`    → Separator found, pushing current`);
-      pushCurrent();
+    if (line.kind === 'separator') {
+      warnUnexpected(line, 'MIXING', warnings);
       continue;
     }
 
-    // Key:Value parsing
-    const idx = t.indexOf(':');
-    if (idx > 0) {
-      const key = t.substring(0, idx).toLowerCase().trim();
-      const val = t.substring(idx + 1).trim();
-
-      switch (key) {
-        case 'issue':
-        case 'সমস্যা':
-          current.issue = val;
-          console.log(`      ↳ Issue: ${val}`);
-          break;
-        case 'cur':
-        case 'current':
-        case 'বর্তমান':
-          current.currentSentence = val;
-          console.log(`      ↳ Current: ${val.substring(0, 30)}...`);
-          break;
-        case 'fix':
-        case 'fixed':
-        case 'corrected':
-        case 'সংশোধিত':
-          current.correctedSentence = val;
-          console.log(`      ↳ Fixed: ${val.substring(0, 30)}...`);
-          break;
-        case 'exp':
-        case 'explanation':
-        case 'ব্যাখ্যা':
-          current.explanation = val;
-          break;
-        case 'pos':
-        case 'position':
-          current.position = parseInt(val) || 0;
-          break;
+    const kv = inCorrections ? null : splitKeyValue(line.text);
+    if (kv && MIXING_KEYS.includes(kv.key)) {
+      const value = unescapeToon(kv.value);
+      if (kv.key === 'detected') {
+        result.detected = value.toLowerCase() === 'true' || value === 'হ্যাঁ';
+      } else if (kv.key === 'style') {
+        result.recommendedStyle = value;
+      } else {
+        result.reason = value;
       }
+      continue;
+    }
+    // পুরনো `CORRECTIONS:` লাইন
+    if (kv && kv.key === 'corrections' && !kv.value) {
+      inCorrections = true;
+      continue;
+    }
+
+    if (!inCorrections && !line.text.includes('|')) {
+      warnings.push({ line: line.line, section: 'MIXING', reason: kv ? `unknown key "${kv.key}"` : 'expected key:value' });
+      continue;
+    }
+    if (!inCorrections) {
+      warnings.push({ line: line.line, section: 'MIXING', reason: 'correction row before @CORRECTIONS' });
+    }
+
+    const row = parseReplacementRow(line, 'MIXING', warnings);
+    if (row) {
+      corrections.push(createParsedIssue('mixing', {
+        original: row.current,
+        replacements: [row.suggestion],
+        label: row.note,
+        position: row.position,
+        confidence: row.confidence
+      }));
     }
   }
-  
-  // Push last item
-  pushCurrent();
 
-  console.log(`  🔸 Total punctuation issues parsed: ${issues.length}`);
-  
-  return issues;
+  return { mixing: result, issues: corrections };
 };
 
-const parseEuphonyLines = (lines: string[]): UnifiedResponse['euphonyImprovements'] => {
-  const results: UnifiedResponse['euphonyImprovements'] = [];
+interface PunctuationDraft {
+  issue?: string;
+  currentSentence?: string;
+  correctedSentence?: string;
+  explanation?: string;
+  position?: number;
+  confidence?: number;
+}
+type PunctuationTextField = 'issue' | 'currentSentence' | 'correctedSentence' | 'explanation';
+
+const PUNCTUATION_KEYS: Record<string, PunctuationTextField | 'position' | 'confidence'> = {
+  'issue': 'issue',
+  'সমস্যা': 'issue',
+  'cur': 'currentSentence',
+  'current': 'currentSentence',
+  'বর্তমান': 'currentSentence',
+  'fix': 'correctedSentence',
+  'fixed': 'correctedSentence',
+  'corrected': 'correctedSentence',
+  'সংশোধিত': 'correctedSentence',
+  'exp': 'explanation',
+  'explanation': 'explanation',
+  'ব্যাখ্যা': 'explanation',
+  'pos': 'position',
+  'position': 'position',
+  'conf': 'confidence',
+  'confidence': 'confidence',
+  'আস্থা': 'confidence'
+};
 
-  console.log('  🔹 Parsing EUPHONY section:');
-  console.log('  Lines to parse:', lines.length);
-  
-  for (let i = 0; i < lines.length; i++) {
-    const t = lines[i].trim();
-    
-    console.log(`    Line ${i}: "${t.substring(0, 50)}..."`);
-    
-    // Skip empty, comments, examples, format, instruction lines
-    if (!t || t.startsWith('#') || t.startsWith('[') || 
-        t.startsWith('ফরম্যাট') || t.startsWith('উদাহরণ') ||
-        t.startsWith('খুঁজুন') || t.startsWith('১.') || 
-        t.startsWith('২.') || t.startsWith('৩.') || 
-        t.startsWith('৪.') || t.startsWith('⚠️')) {
+/**
+ * `key:value` রেকর্ড, `---` দিয়ে আলাদা
+ * - একই key আবার এলে (--- ভুলে গেলে) নতুন রেকর্ড
+ * - অজানা key-এর লাইন আগের মানের ধারাবাহিকতা (যেমন বাক্যের ভেতরে `:`)
+ */
+const parsePunctuationBlock = (block: ToonBlock, warnings: Warnings): ParsedIssue[] => {
+  const issues: ParsedIssue[] = [];
+  let draft: PunctuationDraft = {};
+  let draftLine = 0;
+  let lastField: PunctuationTextField | null = null;
+
+  const flush = () => {
+    if (Object.keys(draft).length === 0) return;
+    if (!draft.currentSentence) {
+      warnings.push({ line: draftLine, section: 'PUNCTUATION', reason: 'record without "cur" - dropped' });
+    } else {
+      issues.push(createParsedIssue('punctuation', {
+        original: draft.currentSentence,
+        replacements: [draft.correctedSentence || draft.currentSentence],
+        label: draft.issue || 'বিরাম চিহ্ন সমস্যা',
+        explanation: draft.explanation || '',
+        position: draft.position,
+        confidence: draft.confidence
+      }));
+    }
+    draft = {};
+    lastField = null;
+  };
+
+  for (const line of block.lines) {
+    if (line.kind === 'separator') {
+      flush();
       continue;
     }
-    
-    // Pipe format: শব্দ|বিকল্প|কারণ|pos
-    if (t.includes('|')) {
-      const parts = t.split('|').map(p => p.trim());
-      if (parts.length >= 3 && parts[0] && parts[1]) {
-        const current = parts[0];
-        const suggestions = parts[1].split(',').map(s => s.trim()).filter(Boolean);
-        const reason = parts[2] || 'উন্নত শব্দচয়ন';
-        const position = parts[3] ? parseInt(parts[3]) || 0 : 0;
-
-        if (current.length >= 2 && suggestions.length > 0) {
-          results.push({ current, suggestions, reason, position });
-          console.log(`      ✓ Added: "${current}" → ${suggestions.join(', ')}`);
-        }
-      }
+    if (line.kind === 'subheader') {
+      warnUnexpected(line, 'PUNCTUATION', warnings);
+      continue;
     }
-  }
 
-  console.log(`  🔹 Total euphony improvements parsed: ${results.length}`);
-  
-  return results;
-};
+    const kv = splitKeyValue(line.text);
+    const field = kv ? PUNCTUATION_KEYS[kv.key] : undefined;
 
-const parseStyleLines = (lines: string[]): UnifiedResponse['styleConversions'] => {
-  const results: UnifiedResponse['styleConversions'] = [];
-  
-  for (const line of lines) {
-    const t = line.trim();
-    if (!t || t.startsWith('#') || t.startsWith('[') || 
-        t.startsWith('ফরম্যাট') || t.startsWith('উদাহরণ')) continue;
-    if (!t.includes('|')) continue;
-    
-    const parts = t.split('|').map(p => p.trim());
-    if (parts.length >= 4 && parts[0] && parts[1]) {
-      results.push({
-        current: parts[0],
-        suggestion: parts[1],
-        type: parts[2] || '',
-        position: parseInt(parts[3]) || 0
-      });
+    if (!kv || !field) {
+      if (lastField) {
+        draft[lastField] = `${draft[lastField]} ${unescapeToon(line.text)}`;
+        warnings.push({ line: line.line, section: 'PUNCTUATION', reason: `continuation joined to "${lastField}"` });
+      } else {
+        warnings.push({ line: line.line, section: 'PUNCTUATION', reason: kv ? `unknown key "${kv.key}"` : 'expected key:value' });
+      }
+      continue;
     }
-  }
-  
-  return results.slice(0, 30);
-};
 
-const parseToneLines = (lines: string[]): UnifiedResponse['toneConversions'] => {
-  const results: UnifiedResponse['toneConversions'] = [];
-  
-  for (const line of lines) {
-    const t = line.trim();
-    if (!t || t.startsWith('#') || t.startsWith('[') || 
-        t.startsWith('ফরম্যাট') || t.startsWith('উদাহরণ')) continue;
-    if (!t.includes('|')) continue;
-    
-    const parts = t.split('|').map(p => p.trim());
-    if (parts.length >= 4 && parts[0] && parts[1]) {
-      results.push({
-        current: parts[0],
-        suggestion: parts[1],
-        reason: parts[2] || '',
-        position: parseInt(parts[3]) || 0
-      });
+    if (draft[field] !== undefined) {
+      warnings.push({ line: line.line, section: 'PUNCTUATION', reason: 'missing "---" between records' });
+      flush();
+    }
+    if (Object.keys(draft).length === 0) {
+      draftLine = line.line;
+    }
+
+    if (field === 'position') {
+      const position = parseToonInteger(kv.value);
+      if (position === null) {
+        warnings.push({ line: line.line, section: 'PUNCTUATION', reason: `position "${kv.value}" is not a number` });
+      } else {
+        draft.position = position;
+      }
+      lastField = null;
+    } else if (field === 'confidence') {
+      const confidence = parseToonConfidence(kv.value);
+      if (confidence === null) {
+        warnings.push({ line: line.line, section: 'PUNCTUATION', reason: `confidence "${kv.value}" is not 0-100` });
+      } else {
+        draft.confidence = confidence;
+      }
+      lastField = null;
+    } else {
+      draft[field] = unescapeToon(kv.value);
+      lastField = field;
     }
   }
-  
-  return results.slice(0, 30);
+  flush();
+
+  return issues;
 };
 
-const parseContentLines = (lines: string[]): UnifiedResponse['contentAnalysis'] => {
-  const result: NonNullable<UnifiedResponse['contentAnalysis']> = {
+const parseContentBlock = (block: ToonBlock, warnings: Warnings): ContentAnalysis | null => {
+  const result: ContentAnalysis = {
     contentType: '',
     description: '',
     missingElements: [],
     suggestions: []
   };
 
-  console.log('  📋 Parsing CONTENT section:');
-  console.log('  Lines to parse:', lines.length);
-
-  for (let i = 0; i < lines.length; i++) {
-    const t = lines[i].trim();
-    
-    console.log(`    Line ${i}: "${t.substring(0, 50)}..."`);
-    
-    if (!t || t.startsWith('#') || t.startsWith('[') || 
-        t.startsWith('ফরম্যাট') || t.startsWith('উদাহরণ') || 
-        t.startsWith('@') || t.startsWith('⚠️')) {
+  for (const line of block.lines) {
+    if (line.kind !== 'record') {
+      warnUnexpected(line, 'CONTENT', warnings);
       continue;
     }
 
-    const idx = t.indexOf(':');
-    if (idx > 0) {
-      const key = t.substring(0, idx).toLowerCase().trim();
-      const val = t.substring(idx + 1).trim();
-
-      console.log(`      Key: "${key}", Value: "${val.substring(0, 30)}..."`);
-
-      switch (key) {
-        case 'type':
-        case 'contenttype':
-        case 'ধরন':
-          result.contentType = val;
-          console.log(`      ✓ Type set: ${val}`);
-          break;
-        case 'desc':
-        case 'description':
-        case 'বর্ণনা':
-          result.description = val;
-          console.log(`      ✓ Description set`);
-          break;
-        case 'missing':
-        case 'missingelements':
-        case 'অনুপস্থিত':
-          result.missingElements = val.split(',').map(s => s.trim()).filter(Boolean);
-          console.log(`      ✓ Missing elements: ${result.missingElements.length}`);
-          break;
-        case 'tips':
-        case 'suggestions':
-        case 'পরামর্শ':
-          result.suggestions = val.split(',').map(s => s.trim()).filter(Boolean);
-          console.log(`      ✓ Suggestions: ${result.suggestions.length}`);
-          break;
-      }
+    const kv = splitKeyValue(line.text);
+    switch (kv?.key) {
+      case 'type':
+      case 'contenttype':
+      case 'ধরন':
+        result.contentType = unescapeToon(kv.value);
+        break;
+      case 'desc':
+      case 'description':
+      case 'বর্ণনা':
+        result.description = unescapeToon(kv.value);
+        break;
+      case 'missing':
+      case 'missingelements':
+      case 'অনুপস্থিত':
+        result.missingElements = splitList(kv.value);
+        break;
+      case 'tips':
+      case 'suggestions':
+      case 'পরামর্শ':
+        result.suggestions = splitList(kv.value);
+        break;
+      default:
+        warnings.push({ line: line.line, section: 'CONTENT', reason: kv ? `unknown key "${kv.key}"` : 'expected key:value' });
     }
   }
 
-  console.log(`  📋 Content parsing result:`, {
-    hasType: !!result.contentType,
-    hasDesc: !!result.description,
-    missingCount: result.missingElements?.length || 0,
-    tipsCount: result.suggestions?.length || 0
-  });
-
-  if (result.contentType || result.description || 
+  if (result.contentType || result.description ||
       (result.missingElements && result.missingElements.length > 0) ||
       (result.suggestions && result.suggestions.length > 0)) {
     return result;
   }
-
   return null;
 };
 
+// একটি বিভাগের সাজেশন নতুন করে বসানো (একই section দুবার এলে শেষেরটি)
+const setCategory = (result: UnifiedResponse, category: IssueCategory, issues: ParsedIssue[]): void => {
+  result.issues = [...result.issues.filter(issue => issue.category !== category), ...issues];
+};
+
+/**
+ * একটি section-এর রেকর্ড parse করে result-এ বসানো
+ */
+const applySection = (result: UnifiedResponse, block: ToonBlock, warnings: Warnings): void => {
+  switch (block.name as ToonSection) {
+    case 'SPELLING':
+      setCategory(result, 'spelling', parseSpellingBlock(block, warnings));
+      break;
+    case 'GRAMMAR':
+      setCategory(result, 'grammar', parseGrammarBlock(block, warnings));
+      break;
+    case 'MIXING': {
+      const { mixing, issues } = parseMixingBlock(block, warnings);
+      result.languageStyleMixing = mixing;
+      setCategory(result, 'mixing', issues);
+      break;
+    }
+    case 'PUNCTUATION':
+      setCategory(result, 'punctuation', parsePunctuationBlock(block, warnings));
+      break;
+    case 'EUPHONY':
+      setCategory(result, 'euphony', parseEuphonyBlock(block, warnings));
+      break;
+    case 'STYLE':
+      setCategory(result, 'style', parseConversionBlock(block, 'STYLE', warnings));
+      break;
+    case 'TONE':
+      setCategory(result, 'tone', parseConversionBlock(block, 'TONE', warnings));
+      break;
+    case 'CONTENT':
+      result.contentAnalysis = parseContentBlock(block, warnings);
+      break;
+  }
+};
+
+/**
+ * Validate and deduplicate (in place)
+ * বানান ভুল সীমার বেশি হলে সবচেয়ে কম আস্থার গুলো বাদ (আস্থা না থাকলে শেষেরগুলো)
+ */
+const finalizeResult = (result: UnifiedResponse, wordCount?: number): UnifiedResponse => {
+  const maxErrors = wordCount ? Math.min(50, Math.ceil(wordCount * 0.5)) : 50;
+  const unique = removeDuplicates(result.issues);
+  const valid = issuesOf(unique, 'spelling').filter(isValidSpellingError);
+  const kept = new Set(
+    [...valid].sort((a, b) => (b.confidence ?? 100) - (a.confidence ?? 100)).slice(0, maxErrors)
+  );
+  const spelling = valid.filter(issue => kept.has(issue));
+  result.issues = [...spelling, ...unique.filter(issue => issue.category !== 'spelling')];
+  return result;
+};
+
+/**
+ * JSON উত্তরের (schema-র আকারে) section → সাজেশন
+ */
+const fromSchemaResponse = (data: SchemaResponse): UnifiedResponse => {
+  const result = emptyResponse();
+  const mixing = data.languageStyleMixing;
+
+  result.issues = [
+    ...(data.spellingErrors || []).map(e => createParsedIssue('spelling', {
+      original: e.wrong,
+      replacements: e.suggestions,
+      position: e.position,
+      confidence: e.confidence
+    })),
+    ...(data.grammarIssues || []).map(g => createParsedIssue('grammar', {
+      original: g.current,
+      replacements: [g.correction],
+      label: g.type,
+      explanation: g.reason,
+      position: g.position,
+      confidence: g.confidence
+    })),
+    ...(data.punctuationIssues || []).map(p => createParsedIssue('punctuation', {
+      original: p.currentSentence,
+      replacements: [p.correctedSentence || p.currentSentence],
+      label: p.issue,
+      explanation: p.explanation,
+      position: p.position,
+      confidence: p.confidence
+    })),
+    ...(data.euphonyImprovements || []).map(e => createParsedIssue('euphony', {
+      original: e.current,
+      replacements: e.suggestions,
+      explanation: e.reason,
+      position: e.position,
+      confidence: e.confidence
+    })),
+    ...(data.styleConversions || []).map(s => createParsedIssue('style', {
+      original: s.current,
+      replacements: [s.suggestion],
+      label: s.type,
+      position: s.position,
+      confidence: s.confidence
+    })),
+    ...(data.toneConversions || []).map(t => createParsedIssue('tone', {
+      original: t.current,
+      replacements: [t.suggestion],
+      explanation: t.reason,
+      position: t.position,
+      confidence: t.confidence
+    })),
+    ...(mixing?.corrections || []).map(c => createParsedIssue('mixing', {
+      original: c.current,
+      replacements: [c.suggestion],
+      label: c.type,
+      position: c.position,
+      confidence: c.confidence
+    }))
+  ];
+
+  if (mixing) {
+    result.languageStyleMixing = {
+      detected: mixing.detected,
+      recommendedStyle: mixing.recommendedStyle,
+      reason: mixing.reason
+    };
+  }
+  result.contentAnalysis = data.contentAnalysis ?? null;
+  return result;
+};
+
+/**
+ * TOON উত্তর parse - ফলাফলের সাথে বাদ পড়া/মেরামত করা লাইনের তালিকা
+ */
+export const parseUnifiedToon = (
+  raw: string,
+  wordCount?: number
+): { result: UnifiedResponse; warnings: ToonParseWarning[] } => {
+  const result = emptyResponse();
+  const warnings: ToonParseWarning[] = [];
+
+  const blocks = readToonBlocks(raw, TOON_SECTIONS, SUBHEADERS, warnings);
+  for (const block of blocks) {
+    applySection(result, block, warnings);
+  }
+  finalizeResult(result, wordCount);
+  warnings.sort((a, b) => a.line - b.line);
+
+  log.debug(
+    `TOON: ${blocks.map(b => b.name).join(', ') || 'কোনো section নেই'} | ` +
+    `Issues ${result.issues.length}, Mixing ${result.languageStyleMixing.detected ? 'Yes' : 'No'}, ` +
+    `Content ${result.contentAnalysis ? 'Yes' : 'No'}`
+  );
+  if (warnings.length > 0) {
+    log.warn(`TOON parse: ${warnings.length} warning(s)`, warnings);
+  }
+
+  return { result, warnings };
+};
+
+/**
+ * Streaming TOON parser - chunk আসার সাথে সাথে সম্পূর্ণ section parse করে
+ */
+export interface ToonStreamParser {
+  push: (chunk: string) => void;
+  finish: () => UnifiedResponse | null;
+}
+
+export const createToonStreamParser = (
+  onSection: (section: ToonSection, partial: UnifiedResponse) => void,
+  wordCount?: number,
+  onWarnings?: (warnings: ToonParseWarning[]) => void
+): ToonStreamParser => {
+  let buffer = '';
+  /** buffer-এর কতটুকু লাইন হিসেবে পড়া হয়েছে - প্রতিটি লাইন একবারই পড়া হয় */
+  let consumed = 0;
+  let emitted = 0;
+  const partial = emptyResponse();
+  const reader = createToonBlockReader(TOON_SECTIONS, SUBHEADERS, []);
+
+  const readUntil = (end: number) => {
+    if (end <= consumed) return;
+    for (const rawLine of buffer.substring(consumed, end).split('\n')) {
+      reader.readLine(rawLine);
+    }
+    consumed = end;
+  };
+
+  // পরের হেডার এসে গেলে আগের section সম্পূর্ণ (warning শেষে পুরো উত্তর থেকে একবার)
+  const emitCompleted = (final: boolean) => {
+    const readyCount = final ? reader.blocks.length : reader.blocks.length - 1;
+
+    for (; emitted < readyCount; emitted++) {
+      const block = reader.blocks[emitted];
+      applySection(partial, block, []);
+      finalizeResult(partial, wordCount);
+      onSection(block.name as ToonSection, { ...partial });
+    }
+  };
+
+  return {
+    push: (chunk: string) => {
+      buffer += chunk;
+      // শুধু এই chunk-এ শেষ হওয়া নতুন লাইনগুলো - অসম্পূর্ণ শেষ লাইন পরের chunk-এর সাথে
+      const newline = chunk.lastIndexOf('\n');
+      if (newline < 0) return;
+      readUntil(buffer.length - chunk.length + newline);
+      consumed++;
+      emitCompleted(false);
+    },
+    finish: () => {
+      readUntil(buffer.length);
+      emitCompleted(true);
+      if (!looksLikeToon(buffer)) {
+        return parseAIResponse(buffer, wordCount);
+      }
+      const { result, warnings } = parseUnifiedToon(buffer, wordCount);
+      onWarnings?.(warnings);
+      return result;
+    }
+  };
+};
+
+/**
+ * উত্তরে অন্তত একটি জানা section হেডার আছে
+ */
+const looksLikeToon = (raw: string): boolean =>
+  TOON_SECTIONS.some(section => new RegExp(`^\\s*@${section}\\b`, 'im').test(raw));
+
 export const parseAIResponse = (raw: string, wordCount?: number): UnifiedResponse | null => {
   const trimmed = raw.trim();
   
-  if (
-    trimmed.includes('@SPELLING') || 
-    trimmed.includes('@MIXING') || 
-    trimmed.includes('@PUNCTUATION') || 
-    trimmed.includes('@STYLE') ||
-    trimmed.includes('@TONE') || 
-    trimmed.includes('@EUPHONY') ||
-    trimmed.includes('@CONTENT')
-  ) {
-    return parseUnifiedToon(trimmed, wordCount);
+  if (looksLikeToon(trimmed)) {
+    return parseUnifiedToon(trimmed, wordCount).result;
   }
 
-  // JSON fallback
-  try {
-    let cleaned = trimmed;
-    if (cleaned.startsWith('```')) {
-      cleaned = cleaned.replace(/^```(?:json)?\n?/, '').replace(/\n?```$/, '');
-    }
-    const json = JSON.parse(cleaned);
-    
-    const result: UnifiedResponse = {
-      spellingErrors: json.spellingErrors || [],
-      languageStyleMixing: json.languageStyleMixing || { detected: false },
-      punctuationIssues: json.punctuationIssues || [],
-      euphonyImprovements: json.euphonyImprovements || [],
-      styleConversions: json.styleConversions || [],
-      toneConversions: json.toneConversions || [],
-      contentAnalysis: json.contentAnalysis || null
-    };
+  // JSON fallback - schema দিয়ে যাচাই করে
+  const structured = parseStructuredResponse(trimmed, wordCount);
+  if (!structured) {
+    log.warn('Parse failed', raw.substring(0, 200));
+  }
+  return structured?.result ?? null;
+};
 
-    const maxErrors = wordCount ? Math.min(50, Math.ceil(wordCount * 0.5)) : 50;
-    result.spellingErrors = validateSpellingErrors(result.spellingErrors, maxErrors);
-    
-    return result;
+/**
+ * JSON উত্তর parse + schema যাচাই (অবৈধ item বাদ, diagnostics সহ)
+ */
+export const parseStructuredResponse = (
+  raw: string,
+  wordCount?: number
+): { result: UnifiedResponse; diagnostics: SchemaDiagnostic[] } | null => {
+  let cleaned = raw.trim();
+  if (cleaned.startsWith('```')) {
+    cleaned = cleaned.replace(/^```(?:json)?\n?/, '').replace(/\n?```$/, '');
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(cleaned);
   } catch {
-    console.warn('❌ Parse failed');
     return null;
   }
+
+  const { result, diagnostics } = validateUnifiedResponse(json);
+  if (diagnostics.length > 0) {
+    log.warn(`Schema validation: ${diagnostics.length} issue(s)`, diagnostics);
+  }
+
+  return {
+    result: finalizeResult(fromSchemaResponse(result), wordCount),
+    diagnostics
+  };
+};
+
+/**
+ * JSON মোডের stream parser - JSON অর্ধেক অবস্থায় parse করা যায় না, তাই শেষে একবার
+ */
+export const createJsonStreamParser = (
+  wordCount?: number,
+  onDiagnostics?: (diagnostics: SchemaDiagnostic[]) => void
+): ToonStreamParser => {
+  let buffer = '';
+
+  return {
+    push: (chunk: string) => {
+      buffer += chunk;
+    },
+    finish: () => {
+      const structured = parseStructuredResponse(buffer, wordCount);
+      if (!structured) {
+        log.warn('JSON parse failed', buffer.substring(0, 200));
+        return null;
+      }
+      onDiagnostics?.(structured.diagnostics);
+      return structured.result;
+    }
+  };
 };
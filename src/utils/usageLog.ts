@@ -0,0 +1,165 @@
+// src/utils/usageLog.ts
+
+import { ProviderId } from '../prompts/core';
+import { createLogger } from './logger';
+
+const log = createLogger('usage');
+
+/**
+ * একটি request-এর ফলাফল
+ * - success: সম্পূর্ণ উত্তর
+ * - truncated: token সীমায় কেটে গেছে
+ * - error: HTTP/নেটওয়ার্ক/সময়সীমা ত্রুটি
+ * - cancelled: ব্যবহারকারী বাতিল করেছেন
+ */
+export type UsageStatus = 'success' | 'truncated' | 'error' | 'cancelled';
+
+/**
+ * প্রতিটি API request-এর লগ (retry-র প্রতিটি চেষ্টা আলাদা)
+ */
+export interface UsageEntry {
+  /** request শুরুর সময় (ms) */
+  t: number;
+  model: string;
+  provider: ProviderId;
+  /** usage metadata থেকে (না পেলে 0) */
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  status: UsageStatus;
+  httpStatus?: number;
+  wordCount: number;
+}
+
+const LOG_STORAGE = 'bhasha_mitra_usage_log';
+const MAX_LOG_ENTRIES = 2000;
+const MAX_LOG_AGE_MS = 90 * 24 * 60 * 60 * 1000;
+
+export const loadUsageLog = (): UsageEntry[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(LOG_STORAGE) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * লগে একটি request যোগ (পুরনো ও সীমার বাইরের entry বাদ)
+ */
+export const logUsage = (entry: UsageEntry): void => {
+  const cutoff = Date.now() - MAX_LOG_AGE_MS;
+  const entries = [...loadUsageLog().filter(e => e.t > cutoff), entry].slice(-MAX_LOG_ENTRIES);
+  try {
+    localStorage.setItem(LOG_STORAGE, JSON.stringify(entries));
+  } catch (error) {
+    log.warn('Usage log write error', error);
+  }
+};
+
+export const clearUsageLog = (): void => {
+  localStorage.removeItem(LOG_STORAGE);
+};
+
+export interface UsageDay {
+  /** YYYY-MM-DD (স্থানীয় সময়) */
+  date: string;
+  requests: number;
+  failures: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface UsageModelStats {
+  model: string;
+  requests: number;
+  failures: number;
+  failureRate: number;
+  avgLatencyMs: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface UsageSummary {
+  days: UsageDay[];
+  models: UsageModelStats[];
+  requests: number;
+  failures: number;
+  failureRate: number;
+  avgLatencyMs: number;
+}
+
+const toDateKey = (t: number): string => {
+  const d = new Date(t);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+// বাতিল করা request ব্যর্থতা নয়, আবার সফলও নয় - হার থেকে বাদ
+const isFailure = (e: UsageEntry): boolean => e.status === 'error' || e.status === 'truncated';
+const countsForRate = (e: UsageEntry): boolean => e.status !== 'cancelled';
+
+const average = (values: number[]): number =>
+  values.length > 0 ? Math.round(values.reduce((sum, v) => sum + v, 0) / values.length) : 0;
+
+/**
+ * ড্যাশবোর্ডের জন্য দিন ও মডেল অনুযায়ী হিসাব
+ * @param dayCount - শেষ কত দিন (আজ সহ) দেখানো হবে
+ */
+export const summarizeUsage = (entries: UsageEntry[], dayCount: number = 14): UsageSummary => {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const since = today.getTime() - (dayCount - 1) * 24 * 60 * 60 * 1000;
+  const recent = entries.filter(e => e.t >= since);
+
+  const days: UsageDay[] = [];
+  for (let i = 0; i < dayCount; i++) {
+    days.push({
+      date: toDateKey(since + i * 24 * 60 * 60 * 1000),
+      requests: 0,
+      failures: 0,
+      inputTokens: 0,
+      outputTokens: 0
+    });
+  }
+  const dayIndex = new Map(days.map((d, i) => [d.date, i]));
+
+  const byModel = new Map<string, UsageEntry[]>();
+  for (const entry of recent) {
+    const day = days[dayIndex.get(toDateKey(entry.t)) ?? -1];
+    if (day) {
+      day.requests++;
+      if (isFailure(entry)) day.failures++;
+      day.inputTokens += entry.inputTokens;
+      day.outputTokens += entry.outputTokens;
+    }
+    byModel.set(entry.model, [...(byModel.get(entry.model) || []), entry]);
+  }
+
+  const models: UsageModelStats[] = Array.from(byModel.entries())
+    .map(([model, list]) => {
+      const rated = list.filter(countsForRate);
+      const failures = rated.filter(isFailure).length;
+      return {
+        model,
+        requests: list.length,
+        failures,
+        failureRate: rated.length > 0 ? failures / rated.length : 0,
+        avgLatencyMs: average(list.filter(e => e.status === 'success').map(e => e.latencyMs)),
+        inputTokens: list.reduce((sum, e) => sum + e.inputTokens, 0),
+        outputTokens: list.reduce((sum, e) => sum + e.outputTokens, 0)
+      };
+    })
+    .sort((a, b) => b.requests - a.requests);
+
+  const rated = recent.filter(countsForRate);
+  const failures = rated.filter(isFailure).length;
+
+  return {
+    days,
+    models,
+    requests: recent.length,
+    failures,
+    failureRate: rated.length > 0 ? failures / rated.length : 0,
+    avgLatencyMs: average(recent.filter(e => e.status === 'success').map(e => e.latencyMs))
+  };
+};
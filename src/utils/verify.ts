@@ -0,0 +1,129 @@
+// src/utils/verify.ts
+
+import type { IssueCategory, ParsedIssue, UnifiedResponse } from '../types';
+import type { VerificationCandidate } from '../prompts/verify';
+import type { DroppedItem } from './debugTrace';
+import { findOccurrences, getWordStarts, nearestOccurrence } from './anchoring';
+import { parseToonInteger, splitFields, unescapeToon } from './toonGrammar';
+
+/**
+ * দ্বিতীয় যাচাই (self-verification)
+ * বানান ও শ্রুতিমধুরতার সাজেশন আরেকটি ছোট call-এ বাক্যসহ পাঠিয়ে মডেলকে দিয়েই নিশ্চিত করানো -
+ * "বাতিল" রায় পাওয়া সাজেশন দেখানো বা হাইলাইটের আগেই বাদ যায়
+ */
+export const VERIFY_STORAGE = 'bhasha_mitra_verify_enabled';
+
+export const isVerifyEnabled = (): boolean => localStorage.getItem(VERIFY_STORAGE) === 'true';
+
+export const setVerifyEnabled = (enabled: boolean): void => {
+  localStorage.setItem(VERIFY_STORAGE, String(enabled));
+};
+
+/** যে বিভাগগুলো যাচাই হয় - এগুলোর আংশিক ফলাফল যাচাইয়ের আগে দেখানো হয় না */
+export const VERIFIED_CATEGORIES: IssueCategory[] = ['spelling', 'euphony'];
+
+/** একটি call-এ সর্বোচ্চ কয়টি সাজেশন (বাকিগুলো যাচাই ছাড়াই থাকে) */
+const MAX_CANDIDATES = 40;
+const MAX_CONTEXT_LENGTH = 240;
+const SENTENCE_END = /[।?!\n]/;
+
+export interface VerificationPair {
+  candidate: VerificationCandidate;
+  issue: ParsedIssue;
+}
+
+export interface Verdict {
+  accepted: boolean;
+  reason?: string;
+}
+
+/**
+ * সাজেশনটি যে বাক্যে আছে (মডেলের position-এর সবচেয়ে কাছের মিল ধরে)
+ */
+const sentenceAround = (text: string, wordStarts: number[], issue: ParsedIssue): string => {
+  const spans = findOccurrences(text, issue.original);
+  if (spans.length === 0) return issue.original;
+
+  const hint = wordStarts[Math.min(Math.max(issue.position ?? 0, 0), wordStarts.length - 1)] ?? 0;
+  const { start, end } = spans[nearestOccurrence(spans, hint)];
+
+  let from = start;
+  while (from > 0 && !SENTENCE_END.test(text[from - 1])) from--;
+  let to = end;
+  while (to < text.length && !SENTENCE_END.test(text[to])) to++;
+  if (to < text.length && text[to] !== '\n') to++;
+
+  // খুব লম্বা বাক্যে শব্দের দুই পাশের অংশটুকু
+  const half = Math.floor(MAX_CONTEXT_LENGTH / 2);
+  if (to - from > MAX_CONTEXT_LENGTH) {
+    from = Math.max(from, start - half);
+    to = Math.min(to, end + half);
+  }
+  return text.slice(from, to).replace(/\s+/g, ' ').trim();
+};
+
+/**
+ * ফলাফল থেকে যাচাইয়ের সাজেশন
+ */
+export const selectVerificationCandidates = (result: UnifiedResponse, text: string): VerificationPair[] => {
+  const wordStarts = getWordStarts(text);
+  return result.issues
+    .filter(issue => VERIFIED_CATEGORIES.includes(issue.category))
+    .slice(0, MAX_CANDIDATES)
+    .map((issue, i) => ({
+      issue,
+      candidate: {
+        id: i + 1,
+        category: issue.category as VerificationCandidate['category'],
+        original: issue.original,
+        replacements: issue.replacements,
+        context: sentenceAround(text, wordStarts, issue)
+      }
+    }));
+};
+
+const ACCEPT_WORDS = ['হ্যাঁ', 'হ্যা', 'yes', 'ok', 'true'];
+const REJECT_WORDS = ['না', 'no', 'reject', 'false'];
+
+/**
+ * `নম্বর|হ্যাঁ` / `নম্বর|না|কারণ` লাইন - অচেনা লাইন উপেক্ষিত
+ */
+export const parseVerdicts = (raw: string): Map<number, Verdict> => {
+  const verdicts = new Map<number, Verdict>();
+
+  for (const line of raw.split('\n')) {
+    const fields = splitFields(line.trim().replace(/^[-*]\s*/, ''));
+    if (fields.length < 2) continue;
+
+    const id = parseToonInteger(fields[0].replace(/[.)]$/, ''));
+    const word = unescapeToon(fields[1]).toLowerCase();
+    if (id === null) continue;
+
+    if (ACCEPT_WORDS.some(w => word.startsWith(w))) {
+      verdicts.set(id, { accepted: true });
+    } else if (REJECT_WORDS.some(w => word.startsWith(w))) {
+      verdicts.set(id, { accepted: false, reason: unescapeToon(fields.slice(2).join('|')) || undefined });
+    }
+  }
+
+  return verdicts;
+};
+
+/**
+ * "বাতিল" রায়ের সাজেশন ফলাফল থেকে বাদ (in place) - রায় না পাওয়া সাজেশন থেকে যায়
+ */
+export const applyVerdicts = (
+  result: UnifiedResponse,
+  pairs: VerificationPair[],
+  verdicts: Map<number, Verdict>
+): DroppedItem[] => {
+  const rejected = pairs.filter(pair => verdicts.get(pair.candidate.id)?.accepted === false);
+  const removed = new Set(rejected.map(pair => pair.issue));
+  result.issues = result.issues.filter(issue => !removed.has(issue));
+
+  return rejected.map(({ candidate }) => ({
+    section: candidate.category,
+    text: candidate.original,
+    reason: `যাচাইয়ে বাতিল${verdicts.get(candidate.id)?.reason ? `: ${verdicts.get(candidate.id)!.reason}` : ''}`
+  }));
+};
@@ -1,142 +1,266 @@
 // src/utils/word.ts
 
+import type { Issue, IssueCategory } from '../types';
+import { findOccurrences, nearestOccurrence } from './anchoring';
+import { NonCanonicalWord, cleanWordText } from './normalize';
+import { createLogger } from './logger';
+
+const log = createLogger('word');
+
+/**
+ * বিশ্লেষণের জন্য পড়া টেক্সট
+ * offset: ডকুমেন্টের শুরু থেকে টেক্সটটি কোন character-এ শুরু (সিলেকশন হলে), পুরো ডকুমেন্ট হলে 0
+ */
+export interface WordTextScope {
+  text: string;
+  offset: number;
+}
+
 /**
  * Word ডকুমেন্ট থেকে টেক্সট পড়ার ফাংশন
  */
-export const getTextFromWord = async (): Promise<string> => {
+export const getTextFromWord = async (): Promise<WordTextScope> => {
   try {
     return await Word.run(async (context) => {
+      const body = context.document.body;
       const selection = context.document.getSelection();
       selection.load('text');
       await context.sync();
 
       if (selection.text && selection.text.trim().length > 0) {
-        return selection.text.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
+        // সিলেকশনের আগের অংশের দৈর্ঘ্য = anchor-এর ভিত্তি
+        const before = body.getRange(Word.RangeLocation.start).expandTo(selection.getRange(Word.RangeLocation.start));
+        before.load('text');
+        await context.sync();
+        return { text: cleanWordText(selection.text), offset: cleanWordText(before.text).length };
       }
 
-      const body = context.document.body;
       body.load('text');
       await context.sync();
       
-      return body.text.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
+      return { text: cleanWordText(body.text), offset: 0 };
     });
   } catch (error) {
-    console.error('Error reading Word:', error);
-    return '';
+    log.error('Error reading Word', error);
+    return { text: '', offset: 0 };
   }
 };
 
 /**
- * একাধিক শব্দ একসাথে হাইলাইট করা (Batched)
+ * বিভাগ অনুযায়ী হাইলাইটের রং (সাজেশন কার্ডও একই রং ব্যবহার করে)
+ */
+export const HIGHLIGHT_COLORS: Record<IssueCategory, string> = {
+  spelling: '#fee2e2',
+  tone: '#fef3c7',
+  style: '#ccfbf1',
+  mixing: '#e9d5ff',
+  punctuation: '#ffedd5',
+  euphony: '#fce7f3',
+  grammar: '#dbeafe'
+};
+
+const searchOptions = (text: string) => ({
+  matchCase: false,
+  matchWholeWord: !/\s/.test(text)
+});
+
+const literalForm = (text: string): string => text.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Word-এর search ফলাফলের কোনটি এই টেক্সট
+ * ডকুমেন্টের বর্তমান টেক্সটে প্রত্যাশিত offset-এর সবচেয়ে কাছের মিল (আগের প্রতিস্থাপনে সরে গেলেও ঠিক থাকে)
+ * @param start - বিশ্লেষিত টেক্সটে অবস্থান
+ * @param occurrence - বিশ্লেষণের সময়ের occurrence (ডকুমেন্টের টেক্সট ও Word search না মিললে)
+ * @param offset - বিশ্লেষিত টেক্সট ডকুমেন্টের কোন character-এ শুরু
+ */
+const pickResultIndex = (
+  bodyText: string,
+  original: string,
+  start: number,
+  occurrence: number,
+  offset: number,
+  count: number
+): number => {
+  const needle = literalForm(original);
+  // Word শুধু হুবহু একই এনকোডিংয়ের মিল দেয় - অন্য এনকোডিংয়ের মিল বাদ দিলে index মেলে
+  const spans = findOccurrences(bodyText, needle).filter(span => literalForm(bodyText.slice(span.start, span.end)) === needle);
+  const index = nearestOccurrence(spans, start + offset);
+  if (index >= 0 && index < count) return index;
+  return Math.min(occurrence, count - 1);
+};
+
+const pickIssueIndex = (bodyText: string, issue: Issue, offset: number, count: number): number =>
+  pickResultIndex(bodyText, issue.original, issue.span.start, issue.span.occurrence, offset, count);
+
+/**
+ * একাধিক সাজেশন একসাথে হাইলাইট করা (Batched) - প্রতিটির শুধু নিজের জায়গাটি
+ * signal বাতিল হলে খোঁজার পর আর রং বসানো হয় না
  */
-export const highlightMultipleInWord = async (
-  items: Array<{ text: string; color: string; position?: number }>
+export const highlightIssuesInWord = async (
+  issues: Issue[],
+  offset: number,
+  signal?: AbortSignal
 ): Promise<void> => {
-  if (!items || items.length === 0) return;
+  const targets = issues.filter(issue => issue.original.trim());
+  if (targets.length === 0 || signal?.aborted) return;
 
   try {
     await Word.run(async (context) => {
       const body = context.document.body;
+      body.load('text');
 
-      for (const item of items) {
-        const cleanText = item.text.trim();
-        if (!cleanText) continue;
-
-        const results = body.search(cleanText, {
-          matchCase: false,
-          matchWholeWord: !/\s/.test(cleanText)
-        });
+      const searches = targets.map(issue => {
+        const cleanText = issue.original.trim();
+        const results = body.search(cleanText, searchOptions(cleanText));
         results.load('items');
-      }
+        return { issue, results };
+      });
 
       await context.sync();
+      if (signal?.aborted) return;
 
       // এখন হাইলাইট করি
-      for (const item of items) {
-        const cleanText = item.text.trim();
-        if (!cleanText) continue;
-
-        const results = body.search(cleanText, {
-          matchCase: false,
-          matchWholeWord: !/\s/.test(cleanText)
-        });
-
-        for (let i = 0; i < results.items.length; i++) {
-          results.items[i].font.highlightColor = item.color;
-        }
+      const bodyText = cleanWordText(body.text);
+      for (const { issue, results } of searches) {
+        if (results.items.length === 0) continue;
+        const index = pickIssueIndex(bodyText, issue, offset, results.items.length);
+        results.items[index].font.highlightColor = HIGHLIGHT_COLORS[issue.category];
       }
 
       await context.sync();
     });
   } catch (error) {
-    console.error('Highlight error:', error);
+    log.error('Highlight error', error);
   }
 };
 
 /**
- * একটি শব্দ হাইলাইট করা (Simple version)
+ * Word ডকুমেন্টে একটি সাজেশনের জায়গায় প্রতিস্থাপন
  */
-export const highlightInWord = async (
-  text: string,
-  color: string,
-  _position?: number
-): Promise<void> => {
-  const cleanText = text.trim();
-  if (!cleanText) return;
+export const replaceIssueInWord = async (
+  issue: Issue,
+  replacement: string,
+  offset: number
+): Promise<boolean> => {
+  const cleanOldText = issue.original.trim();
+  if (!cleanOldText) return false;
 
   try {
-    await Word.run(async (context) => {
+    return await Word.run(async (context) => {
       const body = context.document.body;
-      const results = body.search(cleanText, {
-        matchCase: false,
-        matchWholeWord: !/\s/.test(cleanText)
-      });
+      const results = body.search(cleanOldText, searchOptions(cleanOldText));
       results.load('items');
+      body.load('text');
+      await context.sync();
+
+      if (results.items.length > 0) {
+        const index = pickIssueIndex(cleanWordText(body.text), issue, offset, results.items.length);
+        results.items[index].insertText(replacement, Word.InsertLocation.replace);
+        results.items[index].font.highlightColor = 'None';
+        await context.sync();
+        return true;
+      }
+      return false;
+    });
+  } catch (error) {
+    log.error('Replace error', error);
+    return false;
+  }
+};
+
+/**
+ * একাধিক সাজেশন একসাথে প্রতিস্থাপন (Batched) - সব খোঁজা আগে, তারপর এক sync-এ লেখা
+ * @returns যেগুলো প্রতিস্থাপিত হয়েছে (ডকুমেন্টে না পাওয়াগুলো বাদ)
+ */
+export const replaceIssuesInWord = async (
+  items: Array<{ issue: Issue; replacement: string }>,
+  offset: number
+): Promise<Array<{ issue: Issue; replacement: string }>> => {
+  const targets = items.filter(item => item.issue.original.trim());
+  if (targets.length === 0) return [];
+
+  try {
+    return await Word.run(async (context) => {
+      const body = context.document.body;
+      body.load('text');
+
+      // একই শব্দ একবারই খোঁজা
+      const searches = new Map<string, Word.RangeCollection>();
+      for (const { issue } of targets) {
+        const cleanText = issue.original.trim();
+        if (!searches.has(cleanText)) {
+          const results = body.search(cleanText, searchOptions(cleanText));
+          results.load('items');
+          searches.set(cleanText, results);
+        }
+      }
+
       await context.sync();
 
-      for (let i = 0; i < results.items.length; i++) {
-        results.items[i].font.highlightColor = color;
+      // খোঁজার সময়ের টেক্সট ধরে জায়গা বাছাই - সব লেখা তার পরে
+      const bodyText = cleanWordText(body.text);
+      const used = new Set<Word.Range>();
+      const replaced: Array<{ issue: Issue; replacement: string }> = [];
+      for (const item of targets) {
+        const results = searches.get(item.issue.original.trim())!;
+        if (results.items.length === 0) continue;
+        const range = results.items[pickIssueIndex(bodyText, item.issue, offset, results.items.length)];
+        if (used.has(range)) continue;
+        used.add(range);
+        range.insertText(item.replacement, Word.InsertLocation.replace);
+        range.font.highlightColor = 'None';
+        replaced.push(item);
       }
+
       await context.sync();
+      return replaced;
     });
   } catch (error) {
-    console.error('Highlight error:', error);
+    log.error('Batch replace error', error);
+    return [];
   }
 };
 
 /**
- * Word ডকুমেন্টে টেক্সট প্রতিস্থাপন
+ * ডকুমেন্টের শব্দগুলো বাংলার মানক এনকোডিংয়ে লেখা (দেখতে একই, শুধু ভেতরের অক্ষরক্রম বদলায়)
+ * @returns কয়টি শব্দ বদলানো হয়েছে
  */
-export const replaceInWord = async (
-  oldText: string,
-  newText: string,
-  _position?: number
-): Promise<boolean> => {
-  const cleanOldText = oldText.trim();
-  if (!cleanOldText) return false;
+export const fixEncodingInWord = async (words: NonCanonicalWord[], offset: number): Promise<number> => {
+  if (words.length === 0) return 0;
 
   try {
     return await Word.run(async (context) => {
       const body = context.document.body;
-      const results = body.search(cleanOldText, {
-        matchCase: false,
-        matchWholeWord: !/\s/.test(cleanOldText)
-      });
-      results.load('items');
+      body.load('text');
+
+      const searches = new Map<string, Word.RangeCollection>();
+      for (const { original } of words) {
+        if (!searches.has(original)) {
+          const results = body.search(original, searchOptions(original));
+          results.load('items');
+          searches.set(original, results);
+        }
+      }
+
       await context.sync();
 
-      if (results.items.length > 0) {
-        // শুধু প্রথমটি replace করি
-        results.items[0].insertText(newText, Word.InsertLocation.replace);
-        results.items[0].font.highlightColor = 'None';
-        await context.sync();
-        return true;
+      const bodyText = cleanWordText(body.text);
+      const used = new Set<Word.Range>();
+      for (const word of words) {
+        const results = searches.get(word.original)!;
+        if (results.items.length === 0) continue;
+        const range = results.items[pickResultIndex(bodyText, word.original, word.start, word.occurrence, offset, results.items.length)];
+        if (used.has(range)) continue;
+        used.add(range);
+        range.insertText(word.canonical, Word.InsertLocation.replace);
       }
-      return false;
+
+      await context.sync();
+      return used.size;
     });
   } catch (error) {
-    console.error('Replace error:', error);
-    return false;
+    log.error('Encoding fix error', error);
+    return 0;
   }
 };
 
@@ -150,6 +274,6 @@ export const clearHighlights = async (): Promise<void> => {
       await context.sync();
     });
   } catch (error) {
-    console.error('Clear highlights error:', error);
+    log.error('Clear highlights error', error);
   }
 };